@@ -0,0 +1,591 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { getConfig, NATIVE_TOKEN } from './config.js';
+import { DISPERSE_ABI, ERC20_ABI, PAIR_ABI, ROUTER_ABI, erc20Contract, pairContract } from './contracts.js';
+import { decodeRevertReason, explainRevert } from './errors.js';
+import { log } from './logger.js';
+import { getLiquidityPools, type LiquidityPool } from './potato.js';
+import { getProvider } from './provider.js';
+import { queryLogs } from './report.js';
+
+// 交易分析选项
+export interface AnalyzeOptions {
+  // 按钱包地址查找时，从最新区块向前查询事件日志的区块数和最多分析的交易数
+  blocks?: number;
+  limit?: number;
+  // 额外导出JSON文件
+  jsonPath?: string;
+}
+
+// 待分析的交易 (从链上读取，或离线的交易JSON/已签名交易)
+export interface TxInput {
+  hash: string | null;
+  from: string | null;
+  to: string | null;
+  data: string;
+  value: bigint;
+  gasLimit: bigint | null;
+}
+
+// 交易回执中分析需要的部分，离线交易JSON可以附带
+export interface ReceiptInput {
+  status: number | null;
+  blockNumber: number | null;
+  gasUsed: bigint | null;
+  logs: { address: string; topics: readonly string[]; data: string }[];
+}
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  // 离线时无法读取未知代币的精度，金额按原始整数显示
+  decimals: number | null;
+}
+
+// 解析出的合约调用，参数已按代币精度格式化
+export interface DecodedCall {
+  contract: string;
+  method: string;
+  args: Record<string, string>;
+}
+
+// 解析出的事件日志，无法识别的事件event为null
+export interface DecodedLog {
+  index: number;
+  address: string;
+  contract: string;
+  event: string | null;
+  args: Record<string, string>;
+}
+
+// 一次添加流动性 (Mint事件) 的实际存入价格与交易前池子价格的比较，价格为 1 tokenA = ? tokenB
+export interface DepositPrice {
+  pool: string;
+  amountA: string;
+  amountB: string;
+  depositPrice: number;
+  // 上一个区块结束时的池子价格，离线时为null
+  poolPrice: number | null;
+  deviationPercent: number | null;
+}
+
+export interface TxAnalysis {
+  hash: string | null;
+  from: string | null;
+  to: string | null;
+  blockNumber: number | null;
+  // unknown: 离线分析且没有附带回执
+  status: 'success' | 'reverted' | 'pending' | 'unknown';
+  value: string;
+  gasLimit: string | null;
+  gasUsed: string | null;
+  call: DecodedCall | null;
+  logs: DecodedLog[];
+  deposits: DepositPrice[];
+  revertReason: string | null;
+  explanation: string | null;
+}
+
+// 分析时用到的链上信息，离线分析时provider为null
+interface AnalyzeContext {
+  provider: ethers.Provider | null;
+  pools: LiquidityPool[];
+  // 地址 (小写) → 名称，例如 路由器、OKB/USDT交易对
+  labels: Map<string, string>;
+  tokens: Map<string, TokenInfo>;
+}
+
+const LP_TOKEN = 'lp';
+const DEFAULT_SCAN_BLOCKS = 10000;
+const DEFAULT_LIMIT = 10;
+
+// 依次尝试解析调用数据的合约接口
+const CALL_INTERFACES = [
+  { contract: '路由器', iface: new ethers.Interface(ROUTER_ABI) },
+  { contract: 'ERC20', iface: new ethers.Interface(ERC20_ABI) },
+  { contract: 'Disperse', iface: new ethers.Interface(DISPERSE_ABI) }
+];
+// 交易对的事件包含ERC20的Transfer/Approval，另外加上WOKB包装/解包原生OKB的事件
+const EVENT_INTERFACE = new ethers.Interface([
+  ...PAIR_ABI,
+  "event Deposit(address indexed dst, uint256 wad)",
+  "event Withdrawal(address indexed src, uint256 wad)"
+]);
+const TOKEN_EVENTS = new Set(['Transfer', 'Approval', 'Deposit', 'Withdrawal']);
+
+// 按配置准备地址名称和已知代币 (离线时只使用配置中的地址)
+async function createContext(provider: ethers.Provider | null): Promise<AnalyzeContext> {
+  const config = getConfig();
+  const context: AnalyzeContext = { provider, pools: [], labels: new Map(), tokens: new Map() };
+  const label = (address: string, name: string) => {
+    if (address) {
+      context.labels.set(address.toLowerCase(), name);
+    }
+  };
+
+  label(config.contracts.potatoSwapRouter, '路由器');
+  label(config.disperseContract, 'Disperse');
+
+  // 配置中的常用代币，离线时无法读取精度，按这里的标准精度显示
+  for (const token of [
+    { address: config.contracts.usdt, symbol: 'USDT', decimals: 6 },
+    { address: config.contracts.wokb, symbol: 'WOKB', decimals: 18 },
+    { address: config.contracts.weth, symbol: 'WETH', decimals: 18 }
+  ]) {
+    label(token.address, token.symbol);
+    if (!provider && token.address) {
+      context.tokens.set(token.address.toLowerCase(), token);
+    }
+  }
+
+  if (provider) {
+    try {
+      context.pools = await getLiquidityPools(provider);
+    } catch (error) {
+      log.warn(`⚠️  无法读取交易对信息: ${(error as Error).message}`);
+    }
+  }
+
+  for (const pool of context.pools) {
+    label(pool.pairAddress, `${pool.name}交易对`);
+    context.tokens.set(pool.pairAddress.toLowerCase(), { address: pool.pairAddress, symbol: `${pool.name} LP`, decimals: 18 });
+    for (const token of [pool.tokenA, pool.tokenB]) {
+      // 原生OKB的地址是WOKB，按合约读取时显示为WOKB
+      if (!token.native) {
+        context.tokens.set(token.address.toLowerCase(), { address: token.address, symbol: token.symbol, decimals: token.decimals });
+      }
+    }
+  }
+  for (const token of context.tokens.values()) {
+    if (!context.labels.has(token.address.toLowerCase())) {
+      label(token.address, token.symbol);
+    }
+  }
+
+  return context;
+}
+
+// 读取代币符号和精度 (带缓存)，LP_TOKEN/NATIVE_TOKEN分别表示LP代币和原生OKB
+async function getTokenInfo(context: AnalyzeContext, address: string): Promise<TokenInfo> {
+  if (address === NATIVE_TOKEN) {
+    return { address: ethers.ZeroAddress, symbol: 'OKB', decimals: 18 };
+  }
+  if (address === LP_TOKEN) {
+    return { address: ethers.ZeroAddress, symbol: 'LP', decimals: 18 };
+  }
+
+  const key = address.toLowerCase();
+  const cached = context.tokens.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let info: TokenInfo = { address, symbol: `${address.slice(0, 6)}…${address.slice(-4)}`, decimals: null };
+  if (context.provider) {
+    try {
+      const contract = erc20Contract(address, context.provider);
+      const [symbol, decimals] = await Promise.all([(contract as any).symbol(), (contract as any).decimals()]);
+      info = { address, symbol, decimals: Number(decimals) };
+    } catch {
+      // 不是ERC20代币时按原始整数显示
+    }
+  }
+  context.tokens.set(key, info);
+  return info;
+}
+
+function formatAmount(amount: bigint, token: TokenInfo): string {
+  if (amount === ethers.MaxUint256) {
+    return `无限 ${token.symbol}`;
+  }
+  return token.decimals === null ? `${amount} (原始单位) ${token.symbol}` : `${ethers.formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
+
+function formatAddress(context: AnalyzeContext, address: string): string {
+  const name = context.labels.get(address.toLowerCase());
+  return name ? `${address} (${name})` : address;
+}
+
+// 交易对的两个代币 (token0地址较小)，已配置的交易对不需要查询链上
+async function getPairTokens(context: AnalyzeContext, pairAddress: string): Promise<{ pool: LiquidityPool | null; token0: TokenInfo; token1: TokenInfo } | null> {
+  const pool = context.pools.find(item => item.pairAddress.toLowerCase() === pairAddress.toLowerCase()) ?? null;
+  let addresses: [string, string];
+  if (pool) {
+    addresses = BigInt(pool.tokenA.address) < BigInt(pool.tokenB.address)
+      ? [pool.tokenA.address, pool.tokenB.address]
+      : [pool.tokenB.address, pool.tokenA.address];
+  } else if (context.provider) {
+    try {
+      const pair = pairContract(pairAddress, context.provider);
+      addresses = await Promise.all([(pair as any).token0(), (pair as any).token1()]);
+    } catch {
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  const token0 = await getTokenInfo(context, addresses[0]);
+  const token1 = await getTokenInfo(context, addresses[1]);
+  return { pool, token0, token1 };
+}
+
+// 调用参数中各数量对应的代币
+function getAmountTokens(method: string, args: ethers.Result, to: string): Record<string, string> {
+  const path: string[] = method.startsWith('swap') ? [...args.path] : [];
+  switch (method) {
+    case 'addLiquidity':
+      return { amountADesired: args.tokenA, amountAMin: args.tokenA, amountBDesired: args.tokenB, amountBMin: args.tokenB };
+    case 'addLiquidityETH':
+      return { amountTokenDesired: args.token, amountTokenMin: args.token, amountETHMin: NATIVE_TOKEN };
+    case 'removeLiquidity':
+    case 'removeLiquidityWithPermit':
+      return { liquidity: LP_TOKEN, amountAMin: args.tokenA, amountBMin: args.tokenB };
+    case 'removeLiquidityETH':
+    case 'removeLiquidityETHWithPermit':
+      return { liquidity: LP_TOKEN, amountTokenMin: args.token, amountETHMin: NATIVE_TOKEN };
+    case 'swapExactETHForTokens':
+      return { amountOutMin: path[path.length - 1]! };
+    case 'swapExactTokensForETH':
+      return { amountIn: path[0]!, amountOutMin: NATIVE_TOKEN };
+    case 'swapExactTokensForTokens':
+      return { amountIn: path[0]!, amountOutMin: path[path.length - 1]! };
+    case 'approve':
+    case 'transfer':
+      return { amount: to };
+    case 'disperseEther':
+      return { values: NATIVE_TOKEN };
+    case 'disperseToken':
+      return { values: args.token };
+    default:
+      return {};
+  }
+}
+
+// 解析交易调用数据，无法识别时返回null
+async function decodeCall(context: AnalyzeContext, tx: TxInput): Promise<DecodedCall | null> {
+  if (!tx.to || tx.data === '0x') {
+    return null;
+  }
+
+  for (const { contract, iface } of CALL_INTERFACES) {
+    const parsed = iface.parseTransaction({ data: tx.data, value: tx.value });
+    if (!parsed) {
+      continue;
+    }
+
+    const amountTokens = getAmountTokens(parsed.name, parsed.args, tx.to);
+    const args: Record<string, string> = {};
+    for (const [index, param] of parsed.fragment.inputs.entries()) {
+      const value = parsed.args[index];
+      const token = amountTokens[param.name] ? await getTokenInfo(context, amountTokens[param.name]!) : null;
+      if (param.name === 'deadline') {
+        args[param.name] = new Date(Number(value) * 1000).toISOString();
+      } else if (token && param.baseType === 'array') {
+        args[param.name] = [...value].map((item: bigint) => formatAmount(item, token)).join(', ');
+      } else if (token) {
+        args[param.name] = formatAmount(value, token);
+      } else if (param.type === 'address') {
+        args[param.name] = formatAddress(context, value);
+      } else if (param.type === 'address[]') {
+        args[param.name] = [...value].map((item: string) => context.labels.get(item.toLowerCase()) ?? item).join(' → ');
+      } else {
+        args[param.name] = String(value);
+      }
+    }
+
+    const name = context.labels.get(tx.to.toLowerCase()) ?? contract;
+    return { contract: name, method: parsed.name, args };
+  }
+  return null;
+}
+
+// 解析回执中的事件日志，金额按发出事件的代币或交易对的代币精度格式化
+async function decodeLogs(context: AnalyzeContext, logs: ReceiptInput['logs']): Promise<DecodedLog[]> {
+  const decoded: DecodedLog[] = [];
+  for (const [index, item] of logs.entries()) {
+    const contract = context.labels.get(item.address.toLowerCase()) ?? item.address;
+    const parsed = EVENT_INTERFACE.parseLog({ topics: [...item.topics], data: item.data });
+    if (!parsed) {
+      decoded.push({ index, address: item.address, contract, event: null, args: { topic0: item.topics[0] ?? '' } });
+      continue;
+    }
+
+    // 代币事件的数量按发出事件的代币精度；Mint/Burn/Swap/Sync中以0/1结尾的数量分别对应交易对的token0/token1
+    const isTokenEvent = TOKEN_EVENTS.has(parsed.name);
+    const token = isTokenEvent ? await getTokenInfo(context, item.address) : null;
+    const tokens = isTokenEvent ? null : await getPairTokens(context, item.address);
+    const args: Record<string, string> = {};
+    for (const [position, param] of parsed.fragment.inputs.entries()) {
+      const value = parsed.args[position];
+      const side = param.name.match(/([01])(In|Out)?$/)?.[1];
+      if (param.type === 'address') {
+        args[param.name] = formatAddress(context, value);
+      } else if (token) {
+        args[param.name] = formatAmount(value, token);
+      } else if (tokens && side !== undefined) {
+        args[param.name] = formatAmount(value, side === '0' ? tokens.token0 : tokens.token1);
+      } else {
+        args[param.name] = String(value);
+      }
+    }
+    decoded.push({ index, address: item.address, contract, event: parsed.name, args });
+  }
+  return decoded;
+}
+
+// 按交易对价格的方向计算 1 tokenA = ? tokenB
+function toPrice(amountA: bigint, decimalsA: number, amountB: bigint, decimalsB: number): number {
+  return Number(ethers.formatUnits(amountB, decimalsB)) / Number(ethers.formatUnits(amountA, decimalsA));
+}
+
+// 根据Mint事件计算实际存入价格，并与交易前一个区块的池子价格比较
+async function getDepositPrices(context: AnalyzeContext, receipt: ReceiptInput): Promise<DepositPrice[]> {
+  const mintTopic = EVENT_INTERFACE.getEvent('Mint')!.topicHash;
+  const prices: DepositPrice[] = [];
+
+  for (const item of receipt.logs.filter(entry => entry.topics[0] === mintTopic)) {
+    const tokens = await getPairTokens(context, item.address);
+    if (!tokens || tokens.token0.decimals === null || tokens.token1.decimals === null) {
+      continue;
+    }
+    const mint = EVENT_INTERFACE.parseLog({ topics: [...item.topics], data: item.data })!;
+
+    // 已配置的交易对按配置的tokenA/tokenB方向，其他交易对按token0/token1
+    const aIsToken0 = !tokens.pool || tokens.pool.tokenA.address.toLowerCase() === tokens.token0.address.toLowerCase();
+    const [tokenA, tokenB] = aIsToken0 ? [tokens.token0, tokens.token1] : [tokens.token1, tokens.token0];
+    const [amountA, amountB]: bigint[] = aIsToken0 ? [mint.args.amount0, mint.args.amount1] : [mint.args.amount1, mint.args.amount0];
+    const symbolA = tokens.pool?.tokenA.symbol ?? tokenA.symbol;
+    const symbolB = tokens.pool?.tokenB.symbol ?? tokenB.symbol;
+    const depositPrice = toPrice(amountA!, tokenA.decimals!, amountB!, tokenB.decimals!);
+
+    let poolPrice: number | null = null;
+    if (context.provider && receipt.blockNumber !== null && receipt.blockNumber > 0) {
+      const [reserve0, reserve1] = await (pairContract(item.address, context.provider) as any).getReserves({ blockTag: receipt.blockNumber - 1 });
+      const [reserveA, reserveB] = aIsToken0 ? [reserve0, reserve1] : [reserve1, reserve0];
+      if (reserveA > BigInt(0) && reserveB > BigInt(0)) {
+        poolPrice = toPrice(reserveA, tokenA.decimals!, reserveB, tokenB.decimals!);
+      }
+    }
+
+    prices.push({
+      pool: `${symbolA}/${symbolB}`,
+      amountA: `${ethers.formatUnits(amountA!, tokenA.decimals!)} ${symbolA}`,
+      amountB: `${ethers.formatUnits(amountB!, tokenB.decimals!)} ${symbolB}`,
+      depositPrice,
+      poolPrice,
+      deviationPercent: poolPrice === null ? null : (depositPrice - poolPrice) / poolPrice * 100
+    });
+  }
+  return prices;
+}
+
+// 在交易所在区块之前的状态上重新执行，取得回退原因
+async function replayRevert(provider: ethers.Provider, tx: TxInput, blockNumber: number): Promise<string | null> {
+  try {
+    await provider.call({
+      ...(tx.from ? { from: tx.from } : {}),
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      ...(tx.gasLimit !== null ? { gasLimit: tx.gasLimit } : {}),
+      blockTag: blockNumber - 1
+    });
+    // 重放成功：回退由同一区块中排在前面的交易造成
+    return null;
+  } catch (error) {
+    return decodeRevertReason(error);
+  }
+}
+
+// 分析一笔交易：解析调用、事件、存入价格和回退原因
+async function analyzeTransaction(context: AnalyzeContext, tx: TxInput, receipt: ReceiptInput | null): Promise<TxAnalysis> {
+  const status = receipt ? (receipt.status === 1 ? 'success' : receipt.status === 0 ? 'reverted' : 'unknown') : context.provider ? 'pending' : 'unknown';
+
+  let revertReason: string | null = null;
+  let explanation: string | null = null;
+  if (status === 'reverted') {
+    if (context.provider && receipt!.blockNumber !== null) {
+      revertReason = await replayRevert(context.provider, tx, receipt!.blockNumber);
+    }
+    const outOfGas = tx.gasLimit !== null && receipt!.gasUsed !== null && receipt!.gasUsed >= tx.gasLimit;
+    explanation = explainRevert(revertReason, outOfGas);
+  }
+
+  return {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    blockNumber: receipt?.blockNumber ?? null,
+    status,
+    value: ethers.formatEther(tx.value),
+    gasLimit: tx.gasLimit?.toString() ?? null,
+    gasUsed: receipt?.gasUsed?.toString() ?? null,
+    call: await decodeCall(context, tx),
+    logs: receipt ? await decodeLogs(context, receipt.logs) : [],
+    deposits: receipt ? await getDepositPrices(context, receipt) : [],
+    revertReason,
+    explanation
+  };
+}
+
+// 从链上读取交易和回执
+async function fetchTransaction(provider: ethers.Provider, hash: string): Promise<{ tx: TxInput; receipt: ReceiptInput | null }> {
+  const [response, receipt] = await Promise.all([provider.getTransaction(hash), provider.getTransactionReceipt(hash)]);
+  if (!response) {
+    throw new Error(`交易 ${hash} 未找到`);
+  }
+  return {
+    tx: { hash: response.hash, from: response.from, to: response.to, data: response.data, value: response.value, gasLimit: response.gasLimit },
+    receipt: receipt ? { status: receipt.status, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed, logs: [...receipt.logs] } : null
+  };
+}
+
+// 解析离线交易: 已签名的原始交易，或交易JSON (可附带receipt字段)
+export function parseOfflineTransaction(text: string): { tx: TxInput; receipt: ReceiptInput | null } {
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    const signed = ethers.Transaction.from(text);
+    return {
+      tx: { hash: signed.hash, from: signed.from, to: signed.to, data: signed.data, value: signed.value, gasLimit: signed.gasLimit },
+      receipt: null
+    };
+  }
+
+  const json = JSON.parse(text);
+  const data = json.data ?? json.input;
+  if (typeof data !== 'string') {
+    throw new Error('交易JSON缺少data字段');
+  }
+  const receipt = json.receipt;
+  return {
+    tx: {
+      hash: json.hash ?? null,
+      from: json.from ?? null,
+      to: json.to ?? null,
+      data,
+      value: BigInt(json.value ?? 0),
+      gasLimit: json.gasLimit !== undefined ? BigInt(json.gasLimit) : json.gas !== undefined ? BigInt(json.gas) : null
+    },
+    receipt: receipt ? {
+      status: receipt.status !== undefined ? Number(receipt.status) : null,
+      blockNumber: receipt.blockNumber !== undefined ? Number(receipt.blockNumber) : null,
+      gasUsed: receipt.gasUsed !== undefined ? BigInt(receipt.gasUsed) : null,
+      logs: receipt.logs ?? []
+    } : null
+  };
+}
+
+// 查找钱包最近发给机器人相关合约 (路由器、代币、交易对、Disperse) 的交易，按时间倒序：
+// 按区块范围查询这些合约中与钱包有关的Transfer/Approval事件 (授权、转出代币、添加/移除流动性、兑换)，再确认交易由钱包发出；
+// 失败的交易没有事件日志，需要按交易哈希分析
+async function findWalletTransactions(context: AnalyzeContext, address: string, blocks: number, limit: number): Promise<string[]> {
+  const config = getConfig();
+  const provider = context.provider!;
+  const latest = await provider.getBlockNumber();
+  const fromBlock = Math.max(0, latest - blocks + 1);
+  const contracts = [...context.labels.keys()];
+  const wallet = ethers.zeroPadValue(address, 32);
+  const transferTopic = EVENT_INTERFACE.getEvent('Transfer')!.topicHash;
+  const approvalTopic = EVENT_INTERFACE.getEvent('Approval')!.topicHash;
+
+  // 钱包作为转出方/授权方，或作为接收方 (兑换得到的代币、铸造的LP)
+  const logs = [
+    ...await queryLogs(provider, { address: contracts, topics: [[transferTopic, approvalTopic], wallet] }, fromBlock, latest, config.logBlockRange),
+    ...await queryLogs(provider, { address: contracts, topics: [transferTopic, null, wallet] }, fromBlock, latest, config.logBlockRange)
+  ];
+  logs.sort((a, b) => b.blockNumber - a.blockNumber || b.transactionIndex - a.transactionIndex);
+
+  const from = address.toLowerCase();
+  const hashes: string[] = [];
+  for (const hash of new Set(logs.map(item => item.transactionHash))) {
+    if (hashes.length >= limit) {
+      break;
+    }
+    const tx = await provider.getTransaction(hash);
+    if (tx && tx.from.toLowerCase() === from && tx.to && context.labels.has(tx.to.toLowerCase())) {
+      hashes.push(hash);
+    }
+  }
+  return hashes;
+}
+
+function printAnalysis(analysis: TxAnalysis) {
+  const statusText = { success: '✅ 成功', reverted: '❌ 失败', pending: '⏳ 待确认', unknown: '未知 (离线)' }[analysis.status];
+  log.info(`\n🔍 交易: ${analysis.hash ?? '(未签名)'}`);
+  log.info('📋 基本信息:');
+  log.info(`  区块号: ${analysis.blockNumber ?? '-'}`);
+  log.info(`  发送者: ${analysis.from ?? '-'}`);
+  log.info(`  接收者: ${analysis.to ?? '(创建合约)'}`);
+  log.info(`  OKB值: ${analysis.value} OKB`);
+  if (analysis.gasLimit !== null) {
+    log.info(`  Gas限制: ${analysis.gasLimit}${analysis.gasUsed !== null ? `, 使用: ${analysis.gasUsed}` : ''}`);
+  }
+  log.info(`  交易状态: ${statusText}`);
+
+  if (analysis.call) {
+    log.info(`\n📊 调用: ${analysis.call.contract}.${analysis.call.method}`);
+    for (const [name, value] of Object.entries(analysis.call.args)) {
+      log.info(`  ${name}: ${value}`);
+    }
+  } else {
+    log.info('\n📊 调用: 无法解析 (不是机器人使用的合约调用)');
+  }
+
+  if (analysis.logs.length > 0) {
+    log.info(`\n📝 事件日志 (${analysis.logs.length}):`);
+    for (const item of analysis.logs) {
+      const args = Object.entries(item.args).map(([name, value]) => `${name}=${value}`).join(', ');
+      log.info(`  ${item.index + 1}. ${item.contract} ${item.event ?? '未知事件'}${args ? ` (${args})` : ''}`);
+    }
+  }
+
+  for (const deposit of analysis.deposits) {
+    log.info(`\n💱 存入价格 (${deposit.pool}):`);
+    log.info(`  存入: ${deposit.amountA} + ${deposit.amountB}`);
+    log.info(`  实际价格: 1 ${deposit.pool.split('/')[0]} = ${deposit.depositPrice.toFixed(6)} ${deposit.pool.split('/')[1]}`);
+    if (deposit.poolPrice !== null) {
+      log.info(`  交易前池子价格: ${deposit.poolPrice.toFixed(6)} (偏差 ${deposit.deviationPercent!.toFixed(4)}%)`);
+    }
+  }
+
+  if (analysis.status === 'reverted') {
+    log.info('\n❌ 回退原因:');
+    log.info(`  ${analysis.revertReason ?? '无法重现 (可能由同一区块中排在前面的交易造成)'}`);
+    if (analysis.explanation) {
+      log.info(`  💡 ${analysis.explanation}`);
+    }
+  }
+}
+
+// 交易分析主函数：target为交易哈希、钱包地址 (分析其最近的机器人交易)、已签名的原始交易、交易JSON或JSON文件路径
+export async function analyzeMain(target: string, options: AnalyzeOptions = {}): Promise<TxAnalysis[]> {
+  const analyses: TxAnalysis[] = [];
+
+  if (/^0x[0-9a-fA-F]{64}$/.test(target) || /^0x[0-9a-fA-F]{40}$/.test(target)) {
+    const context = await createContext(await getProvider());
+    let hashes = [target];
+    if (target.length === 42) {
+      const blocks = options.blocks ?? DEFAULT_SCAN_BLOCKS;
+      hashes = await findWalletTransactions(context, target, blocks, options.limit ?? DEFAULT_LIMIT);
+      log.info(`钱包 ${target} 在最近 ${blocks} 个区块中有 ${hashes.length} 笔机器人交易`);
+    }
+    for (const hash of hashes) {
+      const { tx, receipt } = await fetchTransaction(context.provider!, hash);
+      analyses.push(await analyzeTransaction(context, tx, receipt));
+    }
+  } else {
+    // 离线分析不连接节点
+    const text = fs.existsSync(target) ? fs.readFileSync(target, 'utf8').trim() : target.trim();
+    const { tx, receipt } = parseOfflineTransaction(text);
+    log.info('📴 离线分析 (不连接节点，未知代币的金额按原始整数显示)');
+    analyses.push(await analyzeTransaction(await createContext(null), tx, receipt));
+  }
+
+  analyses.forEach(printAnalysis);
+
+  if (options.jsonPath) {
+    fs.writeFileSync(options.jsonPath, JSON.stringify(analyses, null, 2) + '\n');
+    log.info(`📄 JSON已导出: ${options.jsonPath}`);
+  }
+  return analyses;
+}
@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+import { analyzeMain } from './analyze.js';
+import { getConfig } from './config.js';
+import { daemonMain } from './daemon.js';
+import { collectMain, deployDisperseMain, distributeMain, importKeysMain } from './distribute.js';
+import { log } from './logger.js';
+import { addLiquidityMain, removeLiquidityMain } from './potato.js';
+import { reportMain } from './report.js';
+import { revokeMain } from './revoke.js';
+import { signMain } from './sign-agreement.js';
+
+const USAGE = `用法: node dist/cli.js <命令> [选项]
+
+命令:
+  distribute [--resume <日志路径>] [--batch] [--top-up]
+                                       创建子钱包并分发OKB和USDT (--batch: 通过Disperse合约批量转账, --top-up: 只补足现有子钱包的差额)
+  deploy-disperse                      部署Disperse批量转账合约 (每条链只需一次)
+  collect [--dry-run] [--include-lp]   归集子钱包资金到主钱包
+  import-keys                          将SUB_WALLET_PRIVATE_KEYS导入加密钱包库
+  add-liquidity [--dry-run] [--rebalance] [--summary <路径>] [--retry <汇总路径>]
+                                       子钱包在PotatoSwap添加流动性 (--rebalance: 余额不足时先兑换补足,
+                                       --retry: 只处理上次汇总中未成功的钱包)，有钱包未成功时退出码为1
+  remove-liquidity                     按REMOVE_LIQUIDITY_PERCENT移除流动性
+  daemon [--once]                      守护进程: 按DAEMON_SCHEDULE或触发条件反复添加流动性 (--once: 只检查一次)
+  revoke [--dry-run]                   撤销子钱包对路由器和交易对的代币授权，报告有授权的钱包
+  report [--csv <路径>] [--json <路径>] [--from-block <区块>]
+                                       子钱包LP持仓、无常损失和手续费收益报告
+  analyze <交易哈希|钱包地址|交易JSON|已签名交易> [--blocks <区块数>] [--limit <笔数>] [--json <路径>]
+                                       解析机器人交易的调用、事件、存入价格和回退原因 (钱包地址: 分析最近的交易)
+  sign                                 子钱包签署PotatoSwap用户协议`;
+
+// 读取 --name <value> 形式的参数
+function getOptionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index < 0) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`${name} 需要指定参数值`);
+  }
+  return value;
+}
+
+// 子命令表
+const commands: Record<string, (args: string[]) => Promise<void>> = {
+  async distribute(args) {
+    const resumePath = getOptionValue(args, '--resume');
+    await distributeMain({
+      ...(resumePath ? { resumePath } : {}),
+      ...(args.includes('--batch') ? { batch: true } : {}),
+      ...(args.includes('--top-up') ? { topUp: true } : {})
+    });
+  },
+  async 'deploy-disperse'() {
+    await deployDisperseMain();
+  },
+  async collect(args) {
+    const failureCount = await collectMain({ dryRun: args.includes('--dry-run'), includeLp: args.includes('--include-lp') });
+    if (failureCount > 0) {
+      process.exitCode = 1;
+    }
+  },
+  async 'import-keys'() {
+    await importKeysMain();
+  },
+  async 'add-liquidity'(args) {
+    const summaryPath = getOptionValue(args, '--summary');
+    const retryFrom = getOptionValue(args, '--retry');
+    const { failureCount } = await addLiquidityMain({
+      dryRun: args.includes('--dry-run'),
+      ...(args.includes('--rebalance') ? { rebalance: true } : {}),
+      ...(summaryPath ? { summaryPath } : {}),
+      ...(retryFrom ? { retryFrom } : {})
+    });
+    if (failureCount > 0) {
+      process.exitCode = 1;
+    }
+  },
+  async 'remove-liquidity'(args) {
+    await removeLiquidityMain({ dryRun: args.includes('--dry-run') });
+  },
+  async daemon(args) {
+    await daemonMain({ once: args.includes('--once') });
+  },
+  async revoke(args) {
+    const { failureCount } = await revokeMain({ dryRun: args.includes('--dry-run') });
+    if (failureCount > 0) {
+      process.exitCode = 1;
+    }
+  },
+  async report(args) {
+    const csvPath = getOptionValue(args, '--csv');
+    const jsonPath = getOptionValue(args, '--json');
+    const fromBlock = getOptionValue(args, '--from-block');
+    await reportMain({
+      ...(csvPath ? { csvPath } : {}),
+      ...(jsonPath ? { jsonPath } : {}),
+      ...(fromBlock ? { fromBlock: parseInt(fromBlock) } : {})
+    });
+  },
+  async analyze(args) {
+    const [target] = args;
+    if (!target || target.startsWith('--')) {
+      throw new Error('analyze 需要指定交易哈希、钱包地址、交易JSON文件或已签名交易');
+    }
+    const blocks = getOptionValue(args, '--blocks');
+    const limit = getOptionValue(args, '--limit');
+    const jsonPath = getOptionValue(args, '--json');
+    await analyzeMain(target, {
+      ...(blocks ? { blocks: parseInt(blocks) } : {}),
+      ...(limit ? { limit: parseInt(limit) } : {}),
+      ...(jsonPath ? { jsonPath } : {})
+    });
+  },
+  async sign() {
+    const { failureCount } = await signMain();
+    if (failureCount > 0) {
+      process.exitCode = 1;
+    }
+  }
+};
+
+async function run(argv: string[]) {
+  const [name, ...args] = argv;
+  const command = name ? commands[name] : undefined;
+
+  if (!command) {
+    console.log(USAGE);
+    if (name && name !== 'help' && name !== '--help') {
+      console.error(`\n未知命令: ${name}`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  // 加载.env配置
+  getConfig();
+
+  try {
+    await command(args);
+  } catch (error) {
+    log.error('操作失败:', error);
+    process.exitCode = 1;
+  }
+}
+
+run(process.argv.slice(2));
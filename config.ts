@@ -0,0 +1,383 @@
+import * as dotenv from 'dotenv';
+
+// 机器人配置 (所有子命令共用)
+export interface BotConfig {
+  // 主钱包私钥 (仅distribute/collect使用)
+  mainWalletPrivateKey: string;
+  // 子钱包数量
+  numberOfWallets: number;
+  // 每个子钱包分配/需要的OKB数量
+  okbPerWallet: number;
+  // 每个子钱包分配/需要的USDT数量
+  usdtPerWallet: number;
+  // 滑点容忍度 (百分比, 例如: 5 = 5%)
+  slippageTolerance: number;
+  // 安全缓冲区 (百分比, 例如: 10 = 10%)
+  safetyBuffer: number;
+  // 每次添加流动性投入的tokenB数量 (默认交易对OKB/USDT中即USDT)
+  usdtAmountPerLiquidity: number;
+  // 余额不足时先用多余的一侧代币兑换补足再添加流动性
+  autoRebalance: boolean;
+  // 兑换时为原生OKB保留的gas费用数量
+  gasReserveOkb: number;
+  // 添加流动性结束后写入的运行汇总JSON (每个钱包的结果)，为空时不写入
+  liquiditySummaryPath: string;
+  // 价格校验: 各价格来源与池子现价的最大偏差 (百分比)，超过时跳过该钱包
+  priceMaxDeviation: number;
+  // TWAP时间窗口 (区块数)，从该区块数之前到最新区块的累计价格计算平均价格
+  priceTwapBlocks: number;
+  // 外部价格接口 (可选)，{A}/{B}替换为交易对两边的代币符号
+  priceFeedUrl: string;
+  // 外部价格接口返回JSON中价格字段的路径，例如 data.0.last
+  priceFeedField: string;
+  // TWAP和外部价格都不可用时仍只按池子价格校验 (默认跳过该钱包)
+  priceAllowSpotOnly: boolean;
+  // 移除流动性的比例 (百分比, 例如: 50 = 移除一半LP)
+  removeLiquidityPercent: number;
+  // 移除流动性时是否使用permit签名代替approve交易
+  removeWithPermit: boolean;
+  // 授权策略，决定approve给路由器的额度
+  approvalMode: ApprovalMode;
+  // approvalMode为multiple时授权本次需要数量的倍数
+  approvalMultiplier: number;
+  // 代币合约地址
+  contracts: {
+    usdt: string;
+    potatoSwapRouter: string;
+    wokb: string;
+    weth: string;
+  };
+  // 添加/移除流动性的交易对，按顺序依次处理
+  liquidityPairs: LiquidityPairConfig[];
+  // RPC节点和链信息
+  rpcUrl: string;
+  // 备用RPC节点，主节点不可用或请求失败时切换
+  rpcFallbackUrls: string[];
+  // RPC健康检查超时 (毫秒)
+  rpcTimeoutMs: number;
+  // 允许落后于最新区块的最大区块数，超过视为节点不同步
+  rpcMaxBlockLag: number;
+  chainId: number;
+  // 加密钱包库文件路径
+  walletStorePath: string;
+  // 加密钱包库密码
+  walletStorePassword: string;
+  // HD钱包助记词 (BIP-39)，设置后子钱包从助记词派生，为空时不使用
+  subWalletMnemonic: string;
+  // HD派生路径前缀，子钱包i的完整路径为 `${前缀}/${i}`
+  hdDerivationPath: string;
+  // 从助记词派生子钱包的起始索引，共派生numberOfWallets个
+  hdWalletStartIndex: number;
+  // 子钱包私钥 (旧版配置，仅在没有加密钱包库时使用)
+  subWalletPrivateKeys: string[];
+  // 钱包配置文件路径，文件存在时按其中的钱包列表和单独数量执行，代替上面的全局数量
+  walletConfigPath: string;
+  // 分发运行日志目录
+  journalDir: string;
+  // 分发时每个钱包的转账广播后额外等待的时间 (毫秒)，0表示不等待
+  walletDelayMs: number;
+  // 通过Disperse合约批量分发 (一笔交易向多个钱包转账)
+  distributeBatch: boolean;
+  // Disperse合约地址，未配置或链上没有代码时回退为逐个钱包转账
+  disperseContract: string;
+  // 单笔批量转账交易的gas上限，超过时拆分成多笔
+  batchGasLimit: number;
+  // report从该区块开始查找LP铸造记录 (设置为首次添加流动性之前的区块)，未设置时为null
+  reportFromBlock: number | null;
+  // 未设置reportFromBlock时只查找最近这么多个区块，避免从创世区块开始扫描
+  reportLookbackBlocks: number;
+  // 每次eth_getLogs查询的最大区块范围 (公共节点通常有限制)
+  logBlockRange: number;
+  // 交易gas策略
+  gas: GasConfig;
+  // 守护进程模式 (daemon命令)
+  daemon: DaemonConfig;
+  // 日志输出
+  log: LogConfig;
+  // RPC和HTTP请求的重试策略
+  retry: RetryConfig;
+}
+
+// 原生代币OKB在交易对配置中的标记 (通过WOKB查找交易对，使用addLiquidityETH/removeLiquidityETH)
+export const NATIVE_TOKEN = 'native';
+
+// 交易对配置: tokenA/tokenB为代币地址或NATIVE_TOKEN，每个钱包投入的流动性数量以tokenB计
+export interface LiquidityPairConfig {
+  name: string;
+  tokenA: string;
+  tokenB: string;
+}
+
+// gas模式: auto (链支持EIP-1559时使用maxFee/priorityFee，否则使用gasPrice) | eip1559 | legacy
+export type GasMode = 'auto' | 'eip1559' | 'legacy';
+
+export interface GasConfig {
+  mode: GasMode;
+  // maxFeePerGas (legacy模式下为gasPrice) 上限，单位gwei，0表示不限制
+  maxFeeGwei: number;
+  // maxPriorityFeePerGas 上限，单位gwei，0表示不限制
+  maxPriorityFeeGwei: number;
+  // 交易超过该时间未确认时提高gas重新发送 (毫秒)
+  stuckTimeoutMs: number;
+  // 每次加速提高的gas比例 (百分比，节点通常要求替换交易至少提高10%)
+  speedUpPercent: number;
+  // 单笔交易最多加速次数
+  maxSpeedUps: number;
+}
+
+// 日志级别 (从高到低)，低于设置级别的日志不输出
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+// 日志格式: text (便于阅读) | json (每行一个JSON对象，便于检索)
+export type LogFormat = 'text' | 'json';
+
+export interface LogConfig {
+  level: LogLevel;
+  // 控制台输出格式，日志文件固定为JSON
+  format: LogFormat;
+  // 日志文件目录，为空时不写文件
+  dir: string;
+  // 单个日志文件的最大大小 (MB)，超过后轮转
+  maxSizeMb: number;
+  // 最多保留的日志文件数量
+  maxFiles: number;
+}
+
+// 重试策略: 指数退避加随机抖动，同一端点持续失败时熔断
+export interface RetryConfig {
+  // 最多尝试次数 (含第一次)
+  maxAttempts: number;
+  // 第一次重试前的等待时间 (毫秒)，之后每次翻倍
+  baseDelayMs: number;
+  // 单次等待时间上限 (毫秒)
+  maxDelayMs: number;
+  // 从第一次尝试起的最长总耗时 (毫秒)，超过后不再重试，0表示不限制
+  maxElapsedMs: number;
+  // 随机抖动比例 (0-1)，等待时间在 ±jitter 范围内浮动，避免多个钱包同时重试
+  jitter: number;
+  // 同一端点连续失败达到该次数后熔断，暂停所有钱包的请求，0表示不熔断
+  breakerThreshold: number;
+  // 熔断持续时间 (毫秒)，到期后放行请求试探端点是否恢复
+  breakerCooldownMs: number;
+}
+
+// 守护进程: 按定时计划或触发条件反复执行添加流动性
+export interface DaemonConfig {
+  // 定时计划 (cron表达式: 分 时 日 月 周，按本地时间)，为空时只按触发条件执行
+  schedule: string;
+  // 检查定时计划和触发条件的间隔 (毫秒)
+  checkIntervalMs: number;
+  // 池子价格区间 (1个tokenA值多少tokenB)，不在区间内时不执行，0表示不限制
+  priceMin: number;
+  priceMax: number;
+  // 网络gas价格上限 (gwei)，高于上限时不执行，0表示不限制
+  maxGasGwei: number;
+  // 钱包tokenB余额从不足变为足够 (重新充值) 时触发一轮
+  onRefill: boolean;
+  // 一轮失败后在之后的检查中重试，每次触发最多执行的次数 (含第一次)
+  maxAttempts: number;
+  // 状态文件路径，保存每个钱包的待执行标记和上一轮结果，重启后继续
+  statePath: string;
+}
+
+// 授权策略: exact (只授权本次需要的数量) | multiple (需要数量×APPROVAL_MULTIPLIER，减少重复授权) | unlimited (无限授权)
+export type ApprovalMode = 'exact' | 'multiple' | 'unlimited';
+
+// X Layer公共RPC节点
+const DEFAULT_RPC_FALLBACK_URLS = [
+  'https://rpc.xlayer.tech',
+  'https://xlayerrpc.okx.com',
+  'https://endpoints.omniatech.io/v1/xlayer/mainnet/public'
+];
+
+function parseGasMode(value: string | undefined): GasMode {
+  const mode = (value || 'auto').toLowerCase();
+  if (mode !== 'auto' && mode !== 'eip1559' && mode !== 'legacy') {
+    throw new Error(`GAS_MODE 必须是 auto、eip1559 或 legacy，当前值: ${value}`);
+  }
+  return mode;
+}
+
+function parseLogLevel(value: string | undefined): LogLevel {
+  const level = (value || 'info').toLowerCase();
+  if (level !== 'error' && level !== 'warn' && level !== 'info' && level !== 'debug') {
+    throw new Error(`LOG_LEVEL 必须是 error、warn、info 或 debug，当前值: ${value}`);
+  }
+  return level;
+}
+
+function parseLogFormat(value: string | undefined): LogFormat {
+  const format = (value || 'text').toLowerCase();
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`LOG_FORMAT 必须是 text 或 json，当前值: ${value}`);
+  }
+  return format;
+}
+
+function parseApprovalMode(value: string | undefined): ApprovalMode {
+  const mode = (value || 'exact').toLowerCase();
+  if (mode !== 'exact' && mode !== 'multiple' && mode !== 'unlimited') {
+    throw new Error(`APPROVAL_MODE 必须是 exact、multiple 或 unlimited，当前值: ${value}`);
+  }
+  return mode;
+}
+
+// 解析LIQUIDITY_PAIRS，例如 "OKB/USDT,WETH/USDT"；代币可以是OKB、WOKB、USDT、WETH或合约地址
+function parseLiquidityPairs(value: string | undefined, contracts: BotConfig['contracts']): LiquidityPairConfig[] {
+  const aliases: Record<string, string> = {
+    OKB: NATIVE_TOKEN,
+    WOKB: contracts.wokb,
+    USDT: contracts.usdt,
+    WETH: contracts.weth
+  };
+
+  const pairs = (value || 'OKB/USDT').split(',').map(item => item.trim()).filter(item => item !== '');
+  if (pairs.length === 0) {
+    throw new Error('LIQUIDITY_PAIRS 至少需要配置一个交易对');
+  }
+
+  return pairs.map(name => {
+    const tokens = name.split('/').map(token => token.trim());
+    if (tokens.length !== 2) {
+      throw new Error(`LIQUIDITY_PAIRS 中的交易对格式应为 代币A/代币B，当前值: ${name}`);
+    }
+    const [tokenA, tokenB] = tokens.map(token => {
+      const address = aliases[token.toUpperCase()] ?? token;
+      if (address !== NATIVE_TOKEN && !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        throw new Error(`LIQUIDITY_PAIRS 中的代币 ${token} 不是有效的合约地址 (可用别名: OKB、WOKB、USDT、WETH)`);
+      }
+      return address;
+    }) as [string, string];
+    // 原生OKB通过WOKB组成交易对，OKB/WOKB视为同一个代币
+    const key = (token: string) => (token === NATIVE_TOKEN ? contracts.wokb : token).toLowerCase();
+    if (key(tokenA) === key(tokenB)) {
+      throw new Error(`LIQUIDITY_PAIRS 中的交易对 ${name} 两边是同一个代币`);
+    }
+    return { name, tokenA, tokenB };
+  });
+}
+
+let envLoaded = false;
+
+// 从环境变量读取配置 (首次调用时加载.env)
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): BotConfig {
+  if (!envLoaded && env === process.env) {
+    dotenv.config();
+    envLoaded = true;
+  }
+
+  const contracts = {
+    // OKB是X Layer的原生代币，不需要合约地址
+    usdt: env.USDT_CONTRACT || '0x1e4a5963abfd975d8c9021ce480b42188849d41d',
+    potatoSwapRouter: env.POTATO_SWAP_ROUTER || '0x881fb2f98c13d521009464e7d1cbf16e1b394e8e',
+    // WOKB (Wrapped OKB) 地址，原生OKB通过它组成交易对
+    wokb: env.WOKB_CONTRACT || '0xe538905cf8410324e03a5a23c1c177a474d59b2b',
+    // WETH地址，可在LIQUIDITY_PAIRS中用WETH引用
+    weth: env.WETH_CONTRACT || '0x5A77f1443D16ee5761d310e38b62f77f726bC71c'
+  };
+
+  return {
+    mainWalletPrivateKey: env.MAIN_WALLET_PRIVATE_KEY || '',
+    numberOfWallets: parseInt(env.NUMBER_OF_WALLETS || '2'),
+    okbPerWallet: parseFloat(env.OKB_PER_WALLET || '0.08'),
+    usdtPerWallet: parseFloat(env.USDT_PER_WALLET || '8'),
+    slippageTolerance: parseFloat(env.SLIPPAGE_TOLERANCE || '10'),
+    safetyBuffer: parseFloat(env.SAFETY_BUFFER || '10'),
+    usdtAmountPerLiquidity: parseFloat(env.USDT_AMOUNT_PER_LIQUIDITY || '3'),
+    autoRebalance: env.AUTO_REBALANCE === 'true',
+    gasReserveOkb: parseFloat(env.GAS_RESERVE_OKB || '0.005'),
+    liquiditySummaryPath: env.LIQUIDITY_SUMMARY_PATH ?? 'liquidity-summary.json',
+    priceMaxDeviation: parseFloat(env.PRICE_MAX_DEVIATION || '3'),
+    priceTwapBlocks: parseInt(env.PRICE_TWAP_BLOCKS || '100'),
+    priceFeedUrl: env.PRICE_FEED_URL || '',
+    priceFeedField: env.PRICE_FEED_FIELD || 'price',
+    priceAllowSpotOnly: env.PRICE_ALLOW_SPOT_ONLY === 'true',
+    removeLiquidityPercent: parseFloat(env.REMOVE_LIQUIDITY_PERCENT || '100'),
+    removeWithPermit: env.REMOVE_WITH_PERMIT === 'true',
+    approvalMode: parseApprovalMode(env.APPROVAL_MODE),
+    approvalMultiplier: parseFloat(env.APPROVAL_MULTIPLIER || '3'),
+    contracts,
+    liquidityPairs: parseLiquidityPairs(env.LIQUIDITY_PAIRS, contracts),
+    rpcUrl: env.RPC_URL || 'https://rpc.xlayer.tech',
+    // 未设置时使用X Layer公共节点；设置为空字符串则不使用备用节点
+    rpcFallbackUrls: (env.RPC_FALLBACK_URLS ?? DEFAULT_RPC_FALLBACK_URLS.join(',')).split(',').map(url => url.trim()).filter(url => url !== ''),
+    rpcTimeoutMs: parseInt(env.RPC_TIMEOUT_MS || '5000'),
+    rpcMaxBlockLag: parseInt(env.RPC_MAX_BLOCK_LAG || '10'),
+    chainId: parseInt(env.CHAIN_ID || '196'),
+    walletStorePath: env.WALLET_STORE_PATH || 'wallets.vault.json',
+    walletStorePassword: env.WALLET_STORE_PASSWORD || '',
+    subWalletMnemonic: (env.SUB_WALLET_MNEMONIC || '').trim(),
+    hdDerivationPath: (env.HD_DERIVATION_PATH || "m/44'/60'/0'/0").replace(/\/+$/, ''),
+    hdWalletStartIndex: parseInt(env.HD_WALLET_START_INDEX || '0'),
+    subWalletPrivateKeys: (env.SUB_WALLET_PRIVATE_KEYS || '').split(',').map(key => key.trim()).filter(key => key !== ''),
+    walletConfigPath: env.WALLET_CONFIG_PATH || 'wallets.config.json',
+    journalDir: env.JOURNAL_DIR || 'journals',
+    walletDelayMs: parseInt(env.DISTRIBUTE_WALLET_DELAY_MS || '0'),
+    distributeBatch: env.DISTRIBUTE_BATCH === 'true',
+    disperseContract: env.DISPERSE_CONTRACT || '',
+    batchGasLimit: parseInt(env.DISTRIBUTE_BATCH_GAS_LIMIT || '3000000'),
+    reportFromBlock: env.REPORT_FROM_BLOCK ? parseInt(env.REPORT_FROM_BLOCK) : null,
+    reportLookbackBlocks: parseInt(env.REPORT_LOOKBACK_BLOCKS || '200000'),
+    logBlockRange: parseInt(env.LOG_BLOCK_RANGE || '5000'),
+    gas: {
+      mode: parseGasMode(env.GAS_MODE),
+      maxFeeGwei: parseFloat(env.GAS_MAX_FEE_GWEI || '0'),
+      maxPriorityFeeGwei: parseFloat(env.GAS_MAX_PRIORITY_FEE_GWEI || '0'),
+      stuckTimeoutMs: parseInt(env.TX_STUCK_TIMEOUT_MS || '60000'),
+      speedUpPercent: parseFloat(env.TX_SPEED_UP_PERCENT || '15'),
+      maxSpeedUps: parseInt(env.TX_MAX_SPEED_UPS || '3')
+    },
+    daemon: {
+      schedule: (env.DAEMON_SCHEDULE || '').trim(),
+      checkIntervalMs: parseInt(env.DAEMON_CHECK_INTERVAL_MS || '60000'),
+      priceMin: parseFloat(env.DAEMON_PRICE_MIN || '0'),
+      priceMax: parseFloat(env.DAEMON_PRICE_MAX || '0'),
+      maxGasGwei: parseFloat(env.DAEMON_MAX_GAS_GWEI || '0'),
+      onRefill: env.DAEMON_ON_REFILL !== 'false',
+      maxAttempts: parseInt(env.DAEMON_MAX_ATTEMPTS || '3'),
+      statePath: env.DAEMON_STATE_PATH || 'daemon-state.json'
+    },
+    log: {
+      level: parseLogLevel(env.LOG_LEVEL),
+      format: parseLogFormat(env.LOG_FORMAT),
+      // 设置为空字符串则不写日志文件
+      dir: env.LOG_DIR ?? 'logs',
+      maxSizeMb: parseFloat(env.LOG_MAX_SIZE_MB || '10'),
+      maxFiles: parseInt(env.LOG_MAX_FILES || '5')
+    },
+    retry: {
+      maxAttempts: parseInt(env.RETRY_MAX_ATTEMPTS || '3'),
+      baseDelayMs: parseInt(env.RETRY_BASE_DELAY_MS || '2000'),
+      maxDelayMs: parseInt(env.RETRY_MAX_DELAY_MS || '30000'),
+      maxElapsedMs: parseInt(env.RETRY_MAX_ELAPSED_MS || '120000'),
+      jitter: parseFloat(env.RETRY_JITTER || '0.2'),
+      breakerThreshold: parseInt(env.CIRCUIT_BREAKER_THRESHOLD || '5'),
+      breakerCooldownMs: parseInt(env.CIRCUIT_BREAKER_COOLDOWN_MS || '60000')
+    }
+  };
+}
+
+let cachedConfig: BotConfig | undefined;
+
+// 获取共享配置，第一次调用时才读取环境变量，导入模块不会产生副作用
+export function getConfig(): BotConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadConfig();
+  }
+  return cachedConfig;
+}
+
+// 重新读取环境变量，替换共享配置 (进程内修改了环境变量之后使用)
+export function reloadConfig(): BotConfig {
+  cachedConfig = loadConfig();
+  return cachedConfig;
+}
+
+// 校验配置中的地址字段已被替换为实际值
+export function assertConfigured(fields: { field: string; value: string }[]) {
+  for (const { field, value } of fields) {
+    if (!value || value.includes('Your') || value.includes('Address')) {
+      throw new Error(`请在.env文件中设置实际的 ${field} 地址，当前值: ${value}`);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+
+// 类型化接口定义
+export interface IERC20 {
+  transfer(to: string, amount: bigint): Promise<ethers.ContractTransactionResponse>;
+  approve(spender: string, amount: bigint): Promise<ethers.ContractTransactionResponse>;
+  balanceOf(account: string): Promise<bigint>;
+  allowance(owner: string, spender: string): Promise<bigint>;
+}
+
+export interface IRouter {
+  addLiquidity(
+    tokenA: string,
+    tokenB: string,
+    amountADesired: bigint,
+    amountBDesired: bigint,
+    amountAMin: bigint,
+    amountBMin: bigint,
+    to: string,
+    deadline: number
+  ): Promise<ethers.ContractTransactionResponse>;
+  factory(): Promise<string>;
+}
+
+export interface IFactory {
+  getPair(tokenA: string, tokenB: string): Promise<string>;
+}
+
+export interface IPair {
+  getReserves(): Promise<[bigint, bigint, number]>;
+  token0(): Promise<string>;
+  token1(): Promise<string>;
+}
+
+// ERC20 ABI
+export const ERC20_ABI = [
+  "function transfer(address to, uint256 amount) external returns (bool)",
+  "function approve(address spender, uint256 amount) external returns (bool)",
+  "function balanceOf(address account) external view returns (uint256)",
+  "function allowance(address owner, address spender) external view returns (uint256)",
+  "function totalSupply() external view returns (uint256)",
+  "function decimals() external view returns (uint8)",
+  "function symbol() external view returns (string)",
+  "function name() external view returns (string)",
+  // EIP-2612 (只有部分代币支持)
+  "function nonces(address owner) external view returns (uint256)",
+  "function DOMAIN_SEPARATOR() external view returns (bytes32)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)"
+];
+
+// UniswapV2 Router ABI (PotatoSwap兼容)
+export const ROUTER_ABI = [
+  "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) external returns (uint256 amountA, uint256 amountB, uint256 liquidity)",
+  "function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline) external payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity)",
+  "function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) external returns (uint256 amountA, uint256 amountB)",
+  "function removeLiquidityWithPermit(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline, bool approveMax, uint8 v, bytes32 r, bytes32 s) external returns (uint256 amountA, uint256 amountB)",
+  "function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline) external returns (uint256 amountToken, uint256 amountETH)",
+  "function removeLiquidityETHWithPermit(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline, bool approveMax, uint8 v, bytes32 r, bytes32 s) external returns (uint256 amountToken, uint256 amountETH)",
+  "function factory() external pure returns (address)",
+  "function quote(uint256 amountA, uint256 reserveA, uint256 reserveB) external pure returns (uint256 amountB)",
+  "function getAmountsOut(uint256 amountIn, address[] calldata path) external view returns (uint256[] memory amounts)",
+  "function swapExactETHForTokens(uint256 amountOutMin, address[] calldata path, address to, uint256 deadline) external payable returns (uint256[] memory amounts)",
+  "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] calldata path, address to, uint256 deadline) external returns (uint256[] memory amounts)",
+  "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] calldata path, address to, uint256 deadline) external returns (uint256[] memory amounts)"
+];
+
+// Factory ABI
+export const FACTORY_ABI = [
+  "function getPair(address tokenA, address tokenB) external view returns (address pair)"
+];
+
+// Pair ABI (同时也是LP代币)
+export const PAIR_ABI = [
+  "function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+  "function token0() external view returns (address)",
+  "function token1() external view returns (address)",
+  "function price0CumulativeLast() external view returns (uint256)",
+  "function price1CumulativeLast() external view returns (uint256)",
+  "function totalSupply() external view returns (uint256)",
+  "function balanceOf(address account) external view returns (uint256)",
+  "function allowance(address owner, address spender) external view returns (uint256)",
+  "function approve(address spender, uint256 amount) external returns (bool)",
+  "function transfer(address to, uint256 amount) external returns (bool)",
+  "function name() external view returns (string)",
+  "function nonces(address owner) external view returns (uint256)",
+  "function DOMAIN_SEPARATOR() external view returns (bytes32)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "event Mint(address indexed sender, uint256 amount0, uint256 amount1)",
+  "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Sync(uint112 reserve0, uint112 reserve1)"
+];
+
+// Disperse批量转账合约 ABI (源码见 contracts/Disperse.sol)
+export const DISPERSE_ABI = [
+  "function disperseEther(address[] recipients, uint256[] values) external payable",
+  "function disperseToken(address token, address[] recipients, uint256[] values) external"
+];
+
+// 合约绑定
+export function erc20Contract(address: string, runner: ethers.ContractRunner): ethers.Contract {
+  return new ethers.Contract(address, ERC20_ABI, runner);
+}
+
+export function routerContract(address: string, runner: ethers.ContractRunner): ethers.Contract {
+  return new ethers.Contract(address, ROUTER_ABI, runner);
+}
+
+export function factoryContract(address: string, runner: ethers.ContractRunner): ethers.Contract {
+  return new ethers.Contract(address, FACTORY_ABI, runner);
+}
+
+export function pairContract(address: string, runner: ethers.ContractRunner): ethers.Contract {
+  return new ethers.Contract(address, PAIR_ABI, runner);
+}
+
+export function disperseContract(address: string, runner: ethers.ContractRunner): ethers.Contract {
+  return new ethers.Contract(address, DISPERSE_ABI, runner);
+}
+
+// 通过Router对应的Factory查找交易对地址，不存在时返回null
+export async function findPairAddress(
+  routerAddress: string,
+  tokenA: string,
+  tokenB: string,
+  runner: ethers.ContractRunner
+): Promise<string | null> {
+  const factoryAddress = await (routerContract(routerAddress, runner) as any).factory();
+  const factory = factoryContract(factoryAddress, runner) as unknown as IFactory;
+  const pairAddress = await factory.getPair(tokenA, tokenB);
+  return pairAddress === ethers.ZeroAddress ? null : pairAddress;
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// 批量分发OKB和ERC20代币 (disperse.app 风格)，一笔交易向多个地址转账
+contract Disperse {
+    function disperseEther(address[] calldata recipients, uint256[] calldata values) external payable {
+        require(recipients.length == values.length, "Disperse: LENGTH_MISMATCH");
+        uint256 total = 0;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            total += values[i];
+            (bool success, ) = recipients[i].call{value: values[i]}("");
+            require(success, "Disperse: ETH_TRANSFER_FAILED");
+        }
+        require(total == msg.value, "Disperse: VALUE_MISMATCH");
+    }
+
+    // 代币从调用者转出，调用前需要授权本合约
+    function disperseToken(address token, address[] calldata recipients, uint256[] calldata values) external {
+        require(recipients.length == values.length, "Disperse: LENGTH_MISMATCH");
+        for (uint256 i = 0; i < recipients.length; i++) {
+            (bool success, bytes memory data) = token.call(
+                abi.encodeWithSelector(0x23b872dd, msg.sender, recipients[i], values[i])
+            );
+            // 兼容不返回bool的代币
+            require(success && (data.length == 0 || abi.decode(data, (bool))), "Disperse: TRANSFER_FROM_FAILED");
+        }
+    }
+}
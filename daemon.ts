@@ -0,0 +1,391 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { getConfig } from './config.js';
+import { classifyError, describeError } from './errors.js';
+import { log, withLogContext } from './logger.js';
+import { addWalletLiquidity, getLiquidityPools, getPoolReserves, getWalletTokenBalances, validateConfig, type LiquidityPool } from './potato.js';
+import { getSpotPrice } from './price.js';
+import { getProvider } from './provider.js';
+import { getTransactionManager } from './transactions.js';
+import { openConfiguredWallets, type ConfiguredWallet } from './wallet-config.js';
+
+// 守护进程选项
+export interface DaemonOptions {
+  // 只检查并执行一次，不进入循环
+  once?: boolean;
+}
+
+// 解析后的cron表达式，每个字段为允许的取值集合
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // 日和周都不是*时，两者满足其一即可 (与cron一致)
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+// 单个钱包在一个交易对中的状态
+export interface DaemonWalletState {
+  // 已被定时计划或触发条件选中，等待条件满足且没有未确认交易时执行
+  due?: boolean;
+  // 上一次检查时tokenB余额是否足够一轮投入
+  funded?: boolean;
+  // 本次触发已失败的次数，未达到DAEMON_MAX_ATTEMPTS时保留待执行标记，下次检查时重试
+  failures?: number;
+  // 已广播但无法确认结果的交易，查到结果之前不开始新的一轮
+  unconfirmedTxHash?: string;
+  lastRoundAt?: string;
+  lastTxHash?: string;
+  lastError?: string;
+}
+
+export interface DaemonPoolState {
+  // 上一次检查时价格区间和gas上限是否满足
+  conditionsMet: boolean;
+  wallets: Record<string, DaemonWalletState>;
+}
+
+// 持久化的守护进程状态
+export interface DaemonState {
+  // 上一次检查定时计划的时间，之后到期的计划时间触发一轮
+  lastScheduleCheck: string;
+  rounds: number;
+  pools: Record<string, DaemonPoolState>;
+}
+
+// 执行条件检查结果
+export interface DaemonConditions {
+  met: boolean;
+  reasons: string[];
+}
+
+const CRON_FIELDS = [
+  { name: '分', min: 0, max: 59 },
+  { name: '时', min: 0, max: 23 },
+  { name: '日', min: 1, max: 31 },
+  { name: '月', min: 1, max: 12 },
+  { name: '周', min: 0, max: 7 }
+];
+
+function parseCronField(value: string, field: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+  for (const part of value.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`cron字段 ${field.name} 格式错误: ${part}`);
+    }
+    const start = match[1] === '*' ? field.min : parseInt(match[2]!);
+    const end = match[1] === '*' ? field.max : match[3] !== undefined ? parseInt(match[3]) : match[4] !== undefined ? field.max : start;
+    const step = match[4] !== undefined ? parseInt(match[4]) : 1;
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(`cron字段 ${field.name} 超出范围 ${field.min}-${field.max}: ${part}`);
+    }
+    for (let i = start; i <= end; i += step) {
+      values.add(i);
+    }
+  }
+  return values;
+}
+
+// 解析5字段cron表达式 (分 时 日 月 周)，支持 * 、数字、范围 a-b、步长 /n 和逗号列表
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`cron表达式需要5个字段 (分 时 日 月 周)，当前值: ${expression}`);
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseCronField(part, CRON_FIELDS[index]!)) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  // 周日可以写成0或7
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return { minutes, hours, days, months, weekdays, dayRestricted: parts[2] !== '*', weekdayRestricted: parts[4] !== '*' };
+}
+
+function cronMatches(cron: CronSchedule, date: Date): boolean {
+  if (!cron.minutes.has(date.getMinutes()) || !cron.hours.has(date.getHours()) || !cron.months.has(date.getMonth() + 1)) {
+    return false;
+  }
+  const dayMatch = cron.days.has(date.getDate());
+  const weekdayMatch = cron.weekdays.has(date.getDay());
+  if (cron.dayRestricted && cron.weekdayRestricted) {
+    return dayMatch || weekdayMatch;
+  }
+  return dayMatch && weekdayMatch;
+}
+
+// after之后 (不含) 的下一个计划时间，一年内没有匹配时抛出异常
+export function nextCronTime(cron: CronSchedule, after: Date): Date {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  for (let i = 0; i < 366 * 24 * 60; i++) {
+    date.setMinutes(date.getMinutes() + 1);
+    if (cronMatches(cron, date)) {
+      return date;
+    }
+  }
+  throw new Error('cron表达式在一年内没有匹配的时间');
+}
+
+// 读取状态文件，不存在时从当前时间开始 (不补执行启动前错过的计划)
+export function loadDaemonState(filePath: string, now: Date = new Date()): DaemonState {
+  if (!fs.existsSync(filePath)) {
+    return { lastScheduleCheck: now.toISOString(), rounds: 0, pools: {} };
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+// 先写临时文件再重命名，进程中途退出也不会留下不完整的状态文件
+export function saveDaemonState(filePath: string, state: DaemonState) {
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2) + '\n');
+  fs.renameSync(tempPath, filePath);
+}
+
+// 检查价格区间和gas上限
+export async function checkDaemonConditions(pool: LiquidityPool, provider: ethers.Provider): Promise<DaemonConditions> {
+  const { daemon } = getConfig();
+  const reasons: string[] = [];
+
+  if (daemon.priceMin > 0 || daemon.priceMax > 0) {
+    try {
+      const price = await getSpotPrice(pool, provider);
+      if ((daemon.priceMin > 0 && price < daemon.priceMin) || (daemon.priceMax > 0 && price > daemon.priceMax)) {
+        reasons.push(`价格 ${price.toFixed(6)} 不在区间 [${daemon.priceMin || '-'}, ${daemon.priceMax || '-'}] 内`);
+      }
+    } catch (error) {
+      reasons.push(`无法获取池子价格: ${(error as Error).message}`);
+    }
+  }
+
+  if (daemon.maxGasGwei > 0) {
+    const { gasPrice } = await provider.getFeeData();
+    if (gasPrice === null) {
+      reasons.push('无法获取gas价格');
+    } else if (gasPrice > ethers.parseUnits(daemon.maxGasGwei.toFixed(9), 'gwei')) {
+      reasons.push(`gas价格 ${ethers.formatUnits(gasPrice, 'gwei')} gwei 高于上限 ${daemon.maxGasGwei} gwei`);
+    }
+  }
+
+  return { met: reasons.length === 0, reasons };
+}
+
+// 钱包是否有已广播但未确认的交易: 本进程发送的交易由交易管理器记录，其他进程发送的通过节点的pending nonce判断
+export async function hasPendingTransaction(wallet: ethers.Wallet): Promise<boolean> {
+  if (getTransactionManager(wallet).pendingCount > 0) {
+    return true;
+  }
+  const provider = wallet.provider!;
+  const [pending, latest] = await Promise.all([
+    provider.getTransactionCount(wallet.address, 'pending'),
+    provider.getTransactionCount(wallet.address, 'latest')
+  ]);
+  return pending > latest;
+}
+
+// 记录一次失败：可重试的错误在未达到DAEMON_MAX_ATTEMPTS时保留待执行标记，下次检查时重试
+// 没有定时计划时触发条件只在变化时触发，失败后不重新标记就不会再执行
+function recordFailure(walletState: DaemonWalletState, tag: string, retryable: boolean) {
+  const { daemon } = getConfig();
+  walletState.failures = (walletState.failures ?? 0) + 1;
+  if (retryable && walletState.failures < daemon.maxAttempts) {
+    walletState.due = true;
+    log.info(`${tag} 🔁 下次检查时重试 (${walletState.failures}/${daemon.maxAttempts})`);
+  } else if (retryable) {
+    log.warn(`${tag} ⚠️  已失败 ${walletState.failures} 次，等待下一次触发`);
+  } else {
+    log.warn(`${tag} ⚠️  该错误重试无法解决，等待下一次触发`);
+  }
+}
+
+// 查询上一轮无法确认的交易，返回false表示仍未确认
+// 交易回退时按可重试的失败处理；交易消失 (被丢弃或被加速交易替换) 时无法判断是否已执行，等待下一次触发
+async function resolveUnconfirmedTransaction(wallet: ethers.Wallet, walletState: DaemonWalletState, tag: string): Promise<boolean> {
+  const hash = walletState.unconfirmedTxHash!;
+  const receipt = await wallet.provider!.getTransactionReceipt(hash);
+  if (receipt === null) {
+    if (await hasPendingTransaction(wallet)) {
+      log.info(`${tag} ⏳ 交易 ${hash} 仍未确认，本次跳过`);
+      return false;
+    }
+    walletState.lastError = `交易 ${hash} 未上链 (已被丢弃或替换)`;
+    log.warn(`${tag} ⚠️  ${walletState.lastError}，请在区块浏览器核对`);
+  } else if (receipt.status === 1) {
+    walletState.lastTxHash = hash;
+    delete walletState.lastError;
+    delete walletState.failures;
+    log.info(`${tag} ✅ 交易 ${hash} 已确认`);
+  } else {
+    walletState.lastError = `交易 ${hash} 执行失败 (区块 ${receipt.blockNumber})`;
+    log.error(`${tag} ❌ ${walletState.lastError}`);
+    recordFailure(walletState, tag, true);
+  }
+  delete walletState.unconfirmedTxHash;
+  return true;
+}
+
+// 钱包的两种代币余额是否都足够一轮投入 (与addWalletLiquidity使用相同的安全缓冲区，tokenA按池子储备折算)
+async function isWalletFunded(walletInfo: ConfiguredWallet, pool: LiquidityPool, provider: ethers.Provider): Promise<boolean> {
+  const reserves = await getPoolReserves(pool, provider);
+  const balances = await getWalletTokenBalances(walletInfo, [pool], [reserves]);
+  return balances.every(item => item.balance >= item.required);
+}
+
+// 检查一次定时计划和触发条件，执行到期的钱包；isStopping返回true后不再开始新的钱包
+export async function runDaemonTick(
+  state: DaemonState,
+  subWallets: ConfiguredWallet[],
+  pools: LiquidityPool[],
+  provider: ethers.Provider,
+  isStopping: () => boolean = () => false,
+  now: Date = new Date()
+) {
+  const { daemon } = getConfig();
+
+  const scheduleDue = daemon.schedule !== '' && nextCronTime(parseCron(daemon.schedule), new Date(state.lastScheduleCheck)) <= now;
+  state.lastScheduleCheck = now.toISOString();
+  if (scheduleDue) {
+    log.info(`⏰ 定时计划到期 (${daemon.schedule})`);
+  }
+
+  for (const pool of pools) {
+    const poolState = state.pools[pool.name] ??= { conditionsMet: false, wallets: {} };
+    const conditions = await checkDaemonConditions(pool, provider);
+    // 没有定时计划时，价格进入区间/gas降到上限以下 (条件从不满足变为满足) 触发一轮
+    const conditionsTriggered = daemon.schedule === '' && conditions.met && !poolState.conditionsMet;
+    poolState.conditionsMet = conditions.met;
+    if (conditionsTriggered) {
+      log.info(`🎯 ${pool.name} 执行条件满足，触发一轮`);
+    }
+
+    for (let i = 0; i < subWallets.length; i++) {
+      const walletInfo = subWallets[i]!;
+      const tag = `[钱包 ${i + 1}]`;
+      const walletState = poolState.wallets[walletInfo.address] ??= {};
+
+      const funded = await isWalletFunded(walletInfo, pool, provider);
+      const refilled = daemon.onRefill && funded && walletState.funded === false;
+      walletState.funded = funded;
+      if (refilled) {
+        log.info(`${tag} 💰 ${pool.tokenB.symbol}余额已补足，触发一轮 (${pool.name})`);
+      }
+      if (scheduleDue || conditionsTriggered || refilled) {
+        walletState.due = true;
+        delete walletState.failures;
+      }
+
+      // 上一轮的交易结果未知时先查询结果，确认之前不开始新的一轮，避免重复投入
+      if (walletState.unconfirmedTxHash !== undefined) {
+        const resolved = await resolveUnconfirmedTransaction(walletInfo.wallet, walletState, tag);
+        saveDaemonState(daemon.statePath, state);
+        if (!resolved) {
+          continue;
+        }
+      }
+
+      if (!walletState.due || !conditions.met || isStopping()) {
+        continue;
+      }
+      // 上一笔交易未确认时不开始新的一轮，保留待执行标记下次再检查
+      if (await hasPendingTransaction(walletInfo.wallet)) {
+        log.info(`${tag} ⏳ 有未确认的交易，本次跳过`);
+        continue;
+      }
+
+      walletState.due = false;
+      walletState.lastRoundAt = new Date().toISOString();
+      try {
+        const txHash = await withLogContext({ walletIndex: i + 1, wallet: walletInfo.address }, () => addWalletLiquidity(walletInfo, i, pool, {}));
+        if (typeof txHash !== 'string') {
+          throw new Error('返回了模拟运行结果，没有发送交易');
+        }
+        walletState.lastTxHash = txHash;
+        delete walletState.lastError;
+        delete walletState.failures;
+        log.info(`${tag} ✅ ${pool.name} 流动性添加成功，交易哈希: ${txHash}`);
+      } catch (error) {
+        const classified = classifyError(error);
+        walletState.lastError = classified.message;
+        log.error(`${tag} ❌ ${pool.name} 添加流动性失败: ${describeError(classified)}`);
+        if (classified.kind === 'unconfirmed' && classified.txHash !== null) {
+          walletState.unconfirmedTxHash = classified.txHash;
+          log.warn(`${tag} ⚠️  交易 ${classified.txHash} 结果未知，下次检查时先查询结果`);
+        } else {
+          recordFailure(walletState, tag, classified.retryable);
+        }
+      }
+      saveDaemonState(daemon.statePath, state);
+    }
+
+    if (!conditions.met && Object.values(poolState.wallets).some(wallet => wallet.due)) {
+      log.info(`⏸️  ${pool.name} 有待执行的钱包，但条件不满足: ${conditions.reasons.join('; ')}`);
+    }
+  }
+
+  state.rounds++;
+  saveDaemonState(daemon.statePath, state);
+}
+
+// 守护进程主函数：按DAEMON_CHECK_INTERVAL_MS循环检查，收到SIGINT/SIGTERM后等待进行中的交易完成再退出
+export async function daemonMain(options: DaemonOptions = {}) {
+  const { daemon } = getConfig();
+
+  log.info('验证配置...');
+  validateConfig();
+  if (daemon.schedule !== '') {
+    parseCron(daemon.schedule);
+  }
+
+  const provider = await getProvider();
+  const subWallets = await openConfiguredWallets(provider);
+  const pools = await getLiquidityPools(provider);
+  const state = loadDaemonState(daemon.statePath);
+
+  let stopping = false;
+  let wake: (() => void) | undefined;
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (stopping) {
+      log.info(`再次收到 ${signal}，立即退出`);
+      process.exit(1);
+    }
+    stopping = true;
+    log.info(`\n收到 ${signal}，等待进行中的交易完成后退出 (再次发送强制退出)...`);
+    wake?.();
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  log.info(`🤖 守护进程启动: ${subWallets.length} 个钱包，交易对 ${pools.map(pool => pool.name).join(', ')}`);
+  log.info(`  定时计划: ${daemon.schedule || '无 (只按触发条件执行)'}，检查间隔: ${daemon.checkIntervalMs / 1000} 秒，余额补足触发: ${daemon.onRefill ? '是' : '否'}`);
+
+  try {
+    while (!stopping) {
+      try {
+        await runDaemonTick(state, subWallets, pools, provider, () => stopping);
+      } catch (error) {
+        // 单次检查失败 (例如RPC暂时不可用) 不退出，下次继续
+        log.error('检查失败:', (error as Error).message);
+      }
+      if (options.once || stopping) {
+        break;
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, daemon.checkIntervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = undefined;
+    }
+  } finally {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+    saveDaemonState(daemon.statePath, state);
+  }
+
+  log.info(`守护进程已退出，状态已保存到 ${daemon.statePath}`);
+  return state;
+}
@@ -0,0 +1,73 @@
+import { ethers } from 'ethers';
+import { erc20Contract } from './contracts.js';
+import { log } from './logger.js';
+import { sendTransaction } from './transactions.js';
+
+// contracts/Disperse.sol 的编译结果 (solc 0.8.26, evmVersion paris, optimizer 200 runs)，用于一次性部署
+export const DISPERSE_BYTECODE = '0x6080604052348015600f57600080fd5b5061063c8061001f6000396000f3fe6080604052600436106100295760003560e01c8063c73a2d601461002e578063e63d38ed14610050575b600080fd5b34801561003a57600080fd5b5061004e61004936600461045f565b610063565b005b61004e61005e3660046104e5565b610239565b8281146100b35760405162461bcd60e51b8152602060048201526019602482015278088d2e6e0cae4e6ca7440988a9c8ea890be9a92a69a82a8869603b1b60448201526064015b60405180910390fd5b60005b8381101561023157600080876001600160a01b03166323b872dd338989878181106100e3576100e3610556565b90506020020160208101906100f8919061056c565b88888881811061010a5761010a610556565b6040516001600160a01b039586166024820152949093166044850152506020909102013560648201526084016040516020818303038152906040529060e01b6020820180516001600160e01b03838183161783525050505060405161016f919061058e565b6000604051808303816000865af19150503d80600081146101ac576040519150601f19603f3d011682016040523d82523d6000602084013e6101b1565b606091505b50915091508180156101db5750805115806101db5750808060200190518101906101db91906105bd565b6102275760405162461bcd60e51b815260206004820152601e60248201527f44697370657273653a205452414e534645525f46524f4d5f4641494c4544000060448201526064016100aa565b50506001016100b6565b505050505050565b8281146102845760405162461bcd60e51b8152602060048201526019602482015278088d2e6e0cae4e6ca7440988a9c8ea890be9a92a69a82a8869603b1b60448201526064016100aa565b6000805b848110156103a0578383828181106102a2576102a2610556565b90506020020135826102b491906105df565b915060008686838181106102ca576102ca610556565b90506020020160208101906102df919061056c565b6001600160a01b03168585848181106102fa576102fa610556565b9050602002013560405160006040518083038185875af1925050503d8060008114610341576040519150601f19603f3d011682016040523d82523d6000602084013e610346565b606091505b50509050806103975760405162461bcd60e51b815260206004820152601d60248201527f44697370657273653a204554485f5452414e534645525f4641494c454400000060448201526064016100aa565b50600101610288565b503481146103f05760405162461bcd60e51b815260206004820152601860248201527f44697370657273653a2056414c55455f4d49534d41544348000000000000000060448201526064016100aa565b5050505050565b80356001600160a01b038116811461040e57600080fd5b919050565b60008083601f84011261042557600080fd5b50813567ffffffffffffffff81111561043d57600080fd5b6020830191508360208260051b850101111561045857600080fd5b9250929050565b60008060008060006060868803121561047757600080fd5b610480866103f7565b9450602086013567ffffffffffffffff81111561049c57600080fd5b6104a888828901610413565b909550935050604086013567ffffffffffffffff8111156104c857600080fd5b6104d488828901610413565b969995985093965092949392505050565b600080600080604085870312156104fb57600080fd5b843567ffffffffffffffff81111561051257600080fd5b61051e87828801610413565b909550935050602085013567ffffffffffffffff81111561053e57600080fd5b61054a87828801610413565b95989497509550505050565b634e487b7160e01b600052603260045260246000fd5b60006020828403121561057e57600080fd5b610587826103f7565b9392505050565b6000825160005b818110156105af5760208186018101518583015201610595565b506000920191825250919050565b6000602082840312156105cf57600080fd5b8151801515811461058757600080fd5b8082018082111561060057634e487b7160e01b600052601160045260246000fd5b9291505056fea2646970667358221220a1a6827a1ee0401446b624ef11eab9ea517f53a3e9520c7c0e065ba68d3efa0264736f6c634300081a0033';
+
+// 检查批量分发合约是否可用：地址已配置且链上有合约代码
+export async function isDisperseAvailable(address: string, provider: ethers.Provider): Promise<boolean> {
+  if (!ethers.isAddress(address)) {
+    return false;
+  }
+  const code = await provider.getCode(address);
+  return code !== '0x';
+}
+
+// 部署Disperse合约，每条链只需部署一次，返回合约地址
+export async function deployDisperse(signer: ethers.Wallet): Promise<string> {
+  const tx = await sendTransaction(signer, { data: DISPERSE_BYTECODE });
+  log.info(`部署Disperse合约, 交易哈希: ${tx.hash}`);
+  const receipt = await tx.wait();
+  if (!receipt.contractAddress) {
+    throw new Error(`部署交易 ${receipt.hash} 没有创建合约`);
+  }
+  return receipt.contractAddress;
+}
+
+// 按gas上限拆分批次：整批估算超过上限时对半拆分，直到每批都在上限内
+export async function chunkByGas<T>(
+  items: T[],
+  estimate: (chunk: T[]) => Promise<bigint>,
+  maxGas: bigint
+): Promise<{ items: T[]; gasLimit: bigint }[]> {
+  if (items.length === 0) {
+    return [];
+  }
+
+  const gasLimit = await estimate(items);
+  if (gasLimit <= maxGas) {
+    return [{ items, gasLimit }];
+  }
+  if (items.length === 1) {
+    throw new Error(`单笔转账预计gas ${gasLimit} 超过批量gas上限 ${maxGas}`);
+  }
+
+  const middle = Math.ceil(items.length / 2);
+  return [
+    ...await chunkByGas(items.slice(0, middle), estimate, maxGas),
+    ...await chunkByGas(items.slice(middle), estimate, maxGas)
+  ];
+}
+
+// 授权Disperse合约转出本次需要分发的代币 (只授权所需数量)
+export async function approveDisperse(signer: ethers.Wallet, tokenAddress: string, disperseAddress: string, amount: bigint, decimals: number = 18) {
+  const contract = erc20Contract(tokenAddress, signer);
+  const currentAllowance = await (contract as any).allowance(signer.address, disperseAddress);
+  if (currentAllowance >= amount) {
+    log.info(`Disperse合约已有足够授权额度 ${ethers.formatUnits(currentAllowance, decimals)}，跳过授权`);
+    return null;
+  }
+
+  // 如果有旧的授权，先重置为0（某些代币需要）
+  if (currentAllowance > BigInt(0)) {
+    const resetTx = await sendTransaction(signer, await (contract as any).approve.populateTransaction(disperseAddress, 0));
+    await resetTx.wait();
+  }
+
+  const tx = await sendTransaction(signer, await (contract as any).approve.populateTransaction(disperseAddress, amount));
+  log.info(`授权Disperse合约 ${ethers.formatUnits(amount, decimals)} 代币, 交易哈希: ${tx.hash}`);
+  const receipt = await tx.wait();
+  return receipt.hash;
+}
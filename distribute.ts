@@ -1,231 +1,920 @@
 import { ethers } from 'ethers';
 import { randomBytes } from 'crypto';
-import * as dotenv from 'dotenv';
-
-// 加载环境变量
-dotenv.config();
-
-// 从环境变量读取配置
-const config = {
-  // 主钱包私钥
-  mainWalletPrivateKey: process.env.MAIN_WALLET_PRIVATE_KEY || '',
-  // 要创建的子钱包数量
-  numberOfWallets: parseInt(process.env.NUMBER_OF_WALLETS || '2'),
-  // 每个子钱包分配的OKB数量
-  okbPerWallet: parseFloat(process.env.OKB_PER_WALLET || '0.01'),
-  // 每个子钱包分配的USDT数量
-  usdtPerWallet: parseFloat(process.env.USDT_PER_WALLET || '3'),
-  // 代币合约地址
-  contracts: {
-    // OKB是X Layer的原生代币，不需要合约地址
-    usdt: process.env.USDT_CONTRACT || '0x1e4a5963abfd975d8c9021ce480b42188849d41d',
-    potatoSwapRouter: process.env.POTATO_SWAP_ROUTER || '0x881fb2f98c13d521009464e7d1cbf16e1b394e8e'
-  },
-  // RPC节点和链信息
-  rpcUrl: process.env.RPC_URL || 'https://rpc.xlayer.tech',
-  chainId: parseInt(process.env.CHAIN_ID || '196')
-};
+import { assertConfigured, getConfig, NATIVE_TOKEN } from './config.js';
+import { disperseContract, erc20Contract, findPairAddress } from './contracts.js';
+import { approveDisperse, chunkByGas, deployDisperse, isDisperseAvailable } from './disperse.js';
+import { BotError, describeError } from './errors.js';
+import { log, registerSecret, withLogContext } from './logger.js';
+import { getWalletConfigPath, openConfiguredWallets, walletConfigExists, type ConfiguredWallet } from './wallet-config.js';
+import { getProvider } from './provider.js';
+import { retryOperation } from './retry.js';
+import { getGasFees, getTransactionManager, maxGasCost, sendTransaction, signedFromRaw, TransactionFailedError, type SignedTx } from './transactions.js';
+import {
+  deriveSubWallets,
+  getDerivationPath,
+  getHdIndexRange,
+  getLegacyPrivateKeys,
+  getMnemonic,
+  getWalletStorePath,
+  saveToWalletStore,
+  type SubWallet
+} from './wallet-store.js';
+import { RunJournal, type JournalAsset, type TransferEntry, type WalletEntry } from './journal.js';
 
-// ERC20 ABI
-const ERC20_ABI = [
-  "function transfer(address to, uint256 amount) external returns (bool)",
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function balanceOf(address account) external view returns (uint256)",
-  "function allowance(address owner, address spender) external view returns (uint256)"
-];
-
-// 创建提供者
-const provider = new ethers.JsonRpcProvider(config.rpcUrl, {
-  chainId: config.chainId,
-  name: "X Layer"
-});
-
-// 定义钱包接口
-interface Wallet {
-  privateKey: string;
-  address: string;
-  wallet: ethers.Wallet;
+// 分发选项
+export interface DistributeOptions {
+  // 从中断任务的运行日志继续
+  resumePath?: string;
+  // 通过Disperse合约批量分发 (未指定时使用DISTRIBUTE_BATCH配置)
+  batch?: boolean;
+  // 补足模式：不创建新钱包，只向现有子钱包转入低于目标余额的差额
+  topUp?: boolean;
+}
+
+// 归集选项
+export interface CollectOptions {
+  // 只估算，不发送任何交易
+  dryRun?: boolean;
+  // 同时归集LIQUIDITY_PAIRS中各交易对的LP代币
+  includeLp?: boolean;
 }
 
 let mainWallet: ethers.Wallet;
 
-// 验证配置
-function validateConfig() {
-  const requiredFields = [
+// 验证配置 (requireWalletStore: 会生成新的子钱包，需要能保存它们)
+function validateConfig(requireWalletStore: boolean = false) {
+  const config = getConfig();
+  assertConfigured([
     { field: 'mainWalletPrivateKey', value: config.mainWalletPrivateKey },
     { field: 'contracts.usdt', value: config.contracts.usdt },
     { field: 'contracts.potatoSwapRouter', value: config.contracts.potatoSwapRouter }
-  ];
-
-  for (const { field, value } of requiredFields) {
-    if (!value || value.includes('Your') || value.includes('Address')) {
-      throw new Error(`请在.env文件中设置实际的 ${field} 地址，当前值: ${value}`);
-    }
-  }
+  ]);
 
   // 验证主钱包私钥格式
   if (!config.mainWalletPrivateKey.match(/^0x[0-9a-fA-F]{64}$/)) {
     throw new Error(`主钱包私钥格式不正确，应为64位十六进制字符串，以0x开头`);
   }
 
-  console.log('✅ 配置验证通过');
+  // 随机生成的子钱包只会写入加密钱包库，必须先设置密码 (助记词派生的钱包无需保存)
+  if (requireWalletStore && !getMnemonic() && !config.walletStorePassword) {
+    throw new Error('请在.env文件中设置SUB_WALLET_MNEMONIC，或设置WALLET_STORE_PASSWORD用于加密保存子钱包');
+  }
+
+  log.info('✅ 配置验证通过');
 }
 
 // 初始化主钱包
-function initializeMainWallet() {
-  mainWallet = new ethers.Wallet(config.mainWalletPrivateKey, provider);
-  console.log(`主钱包地址: ${mainWallet.address}`);
+async function initializeMainWallet() {
+  mainWallet = new ethers.Wallet(getConfig().mainWalletPrivateKey, await getProvider());
+  log.info(`主钱包地址: ${mainWallet.address}`);
 }
 
 // 批量创建子钱包
-async function createSubWallets(count: number): Promise<Wallet[]> {
-  const wallets: Wallet[] = [];
+async function createSubWallets(count: number): Promise<SubWallet[]> {
+  const provider = await getProvider();
+  const wallets: SubWallet[] = [];
+
+  // 配置了助记词时按HD路径确定性派生，可随时用同一助记词重新生成
+  const mnemonic = getMnemonic();
+  if (mnemonic) {
+    const { start } = getHdIndexRange();
+    const derived = deriveSubWallets(mnemonic, start, count, provider);
+    derived.forEach((wallet, i) => {
+      registerSecret(wallet.privateKey);
+      wallets.push({
+        privateKey: wallet.privateKey,
+        address: wallet.address,
+        wallet
+      });
+      log.info(`派生子钱包 ${i + 1} (${getDerivationPath()}/${start + i}): ${wallet.address}`);
+    });
+    return wallets;
+  }
+
   for (let i = 0; i < count; i++) {
     // 生成随机私钥
     const privateKey = ethers.hexlify(randomBytes(32));
     const wallet = new ethers.Wallet(privateKey, provider);
+    registerSecret(privateKey);
     
     wallets.push({
       privateKey,
       address: wallet.address,
       wallet
     });
-    console.log(`创建子钱包 ${i + 1}: ${wallet.address}`);
-    console.log(`私钥: ${wallet.privateKey}`);
+    log.info(`创建子钱包 ${i + 1}: ${wallet.address}`);
   }
+
+  // 私钥只加密保存到钱包库，不再输出到控制台
+  await saveToWalletStore(wallets.map(wallet => wallet.privateKey));
+  log.info(`🔐 子钱包已加密保存到 ${getWalletStorePath()}`);
   return wallets;
 }
 
-// 转账原生代币 (OKB)
-async function transferOKB(to: string, amount: number) {
+// 日志中的一笔转账交易 (批量分发时一笔交易覆盖多个子钱包)
+interface JournalStep {
+  journal: RunJournal;
+  asset: JournalAsset;
+  recipients: { index: number; address: string; amount: string }[];
+}
+
+// 已广播、等待确认的转账
+interface PendingTransfer {
+  txHash: string;
+  // 等待确认 (长时间未确认会自动加速)，返回最终上链的交易哈希
+  wait: () => Promise<string>;
+}
+
+// 为交易覆盖的每个子钱包写一条日志，已签名的原始交易只记录在第一条中
+function appendTransfer(step: JournalStep, fields: Pick<TransferEntry, 'status' | 'nonce' | 'txHash' | 'blockNumber' | 'error'>, raw?: string) {
+  step.recipients.forEach((recipient, i) => {
+    step.journal.append({
+      type: 'transfer',
+      index: recipient.index,
+      address: recipient.address,
+      asset: step.asset,
+      amount: recipient.amount,
+      ...fields,
+      ...(raw && i === 0 ? { raw } : {})
+    });
+  });
+}
+
+// 等待交易确认并写入日志，加速替换的交易也会先写入日志再广播
+async function confirmJournaled(step: JournalStep, signed: SignedTx, previous: SignedTx[] = []) {
+  let receipt: ethers.TransactionReceipt;
   try {
-    const tx = await mainWallet.sendTransaction({
+    receipt = await getTransactionManager(mainWallet).wait(signed, {
+      previous,
+      onReplace: replacement => {
+        appendTransfer(step, { status: 'signed', nonce: signed.nonce, txHash: replacement.hash }, replacement.raw);
+      }
+    });
+  } catch (error) {
+    // 只有交易回退或nonce被其他交易使用时才记为failed；等待中的RPC错误或超时保留sent状态，恢复时重新查询
+    if (error instanceof TransactionFailedError) {
+      appendTransfer(step, { status: 'failed', nonce: signed.nonce, txHash: error.hash, error: describeError(error) });
+    } else {
+      log.warn(`等待交易 ${signed.hash} 确认时出错，保留为已发送状态，可用 --resume 重新核对: ${describeError(error)}`);
+    }
+    throw error;
+  }
+
+  appendTransfer(step, { status: 'confirmed', nonce: signed.nonce, txHash: receipt.hash, blockNumber: receipt.blockNumber });
+  return receipt.hash;
+}
+
+// 先签名并记录到日志再广播，崩溃后可用同一笔已签名交易恢复
+async function sendJournaled(tx: ethers.TransactionRequest, step: JournalStep) {
+  const manager = getTransactionManager(mainWallet);
+  const signed = await manager.sign(tx);
+
+  appendTransfer(step, { status: 'signed', nonce: signed.nonce, txHash: signed.hash }, signed.raw);
+  await manager.broadcast(signed);
+  appendTransfer(step, { status: 'sent', nonce: signed.nonce, txHash: signed.hash });
+
+  return signed;
+}
+
+// 恢复时核对日志中未确认的转账，返回true表示该转账已完成无需重发
+// failed状态也按记录的交易哈希重新查询一遍，确认没有上链且nonce已被占用后才重发
+async function reconcileTransfer(journal: RunJournal, entry: TransferEntry): Promise<boolean> {
+  const provider = await getProvider();
+  if (entry.status === 'confirmed') {
+    return true;
+  }
+  if (!entry.txHash || entry.nonce === undefined) {
+    return false;
+  }
+
+  const step: JournalStep = { journal, asset: entry.asset, recipients: [{ index: entry.index, address: entry.address, amount: entry.amount }] };
+  const base = { type: 'transfer' as const, index: entry.index, address: entry.address, asset: entry.asset, amount: entry.amount, nonce: entry.nonce };
+
+  // 同一nonce可能签过多个版本 (加速替换)，任意一个上链都算完成；批量转账的原始交易记录在同批第一个钱包的日志中
+  const versions: SignedTx[] = [];
+  for (const item of journal.entries()) {
+    if (item.type === 'transfer' && item.asset === entry.asset && item.nonce === entry.nonce && item.raw && !versions.some(version => version.raw === item.raw)) {
+      versions.push(signedFromRaw(item.raw));
+    }
+  }
+
+  // 1. 已上链：直接以回执结果为准
+  for (const version of versions) {
+    const receipt = await provider.getTransactionReceipt(version.hash);
+    if (receipt) {
+      if (receipt.status === 1) {
+        journal.append({ ...base, txHash: version.hash, status: 'confirmed', blockNumber: receipt.blockNumber });
+        return true;
+      }
+      if (entry.status !== 'failed') {
+        journal.append({ ...base, txHash: version.hash, status: 'failed', error: '交易执行失败' });
+      }
+      return false;
+    }
+  }
+
+  // 2. nonce已被其他交易占用：原交易永远不会上链，可以安全重发
+  const minedNonce = await provider.getTransactionCount(mainWallet.address, 'latest');
+  if (minedNonce > entry.nonce) {
+    if (entry.status !== 'failed') {
+      journal.append({ ...base, txHash: entry.txHash, status: 'failed', error: 'nonce已被其他交易使用' });
+    }
+    return false;
+  }
+
+  // 3. 原交易仍可能有效：原样重新广播最新的已签名版本 (相同nonce，不会重复转账)
+  const latest = versions[versions.length - 1];
+  if (!latest) {
+    return false;
+  }
+
+  log.info(`重新广播未确认交易 ${latest.hash} (${entry.asset} → ${entry.address})`);
+  try {
+    await provider.broadcastTransaction(latest.raw);
+  } catch (error) {
+    // 节点已有该交易时会报错，继续等待确认即可
+    log.info(`  广播返回: ${(error as Error).message}`);
+  }
+  await confirmJournaled(step, latest, versions.slice(0, -1));
+  return true;
+}
+
+// 转账原生代币 (OKB)，广播后立即返回，不等待确认
+async function transferOKB(to: string, amount: number, step: JournalStep): Promise<PendingTransfer> {
+  try {
+    const signed = await sendJournaled({
       to,
       value: ethers.parseEther(amount.toString())
-    });
+    }, step);
     
-    console.log(`转账 ${amount} OKB 到 ${to}, 交易哈希: ${tx.hash}`);
-    await tx.wait(); // 等待交易确认
-    return tx.hash;
+    log.info(`转账 ${amount} OKB 到 ${to}, 交易哈希: ${signed.hash}`);
+    return { txHash: signed.hash, wait: () => confirmJournaled(step, signed) };
   } catch (error) {
-    console.error(`转账OKB到${to}失败:`, error);
+    log.error(`转账OKB到${to}失败: ${describeError(error)}`);
     throw error;
   }
 }
 
-// 转账ERC20代币 (USDT)
-async function transferERC20(contractAddress: string, to: string, amount: number, decimals: number = 18) {
+// 转账ERC20代币 (USDT)，广播后立即返回，不等待确认
+async function transferERC20(contractAddress: string, to: string, amount: number, decimals: number = 18, step: JournalStep): Promise<PendingTransfer> {
   try {
     // 创建合约实例
-    const contract = new ethers.Contract(contractAddress, ERC20_ABI, mainWallet);
+    const contract = erc20Contract(contractAddress, mainWallet);
     
     // 计算转账金额（考虑小数位）
     const value = ethers.parseUnits(amount.toString(), decimals);
     
-    const tx = await (contract as any).transfer(to, value);
+    const populated = await (contract as any).transfer.populateTransaction(to, value);
+    const signed = await sendJournaled(populated, step);
     
-    console.log(`转账 ${amount} 代币到 ${to}, 交易哈希: ${tx.hash}`);
-    await tx.wait(); // 等待交易确认
-    return tx.hash;
+    log.info(`转账 ${amount} 代币到 ${to}, 交易哈希: ${signed.hash}`);
+    return { txHash: signed.hash, wait: () => confirmJournaled(step, signed) };
   } catch (error) {
-    console.error(`转账ERC20到${to}失败:`, error);
+    log.error(`转账ERC20到${to}失败: ${describeError(error)}`);
     throw error;
   }
 }
 
-// 检查主钱包余额
-async function checkMainWalletBalance(): Promise<boolean> {
-  console.log('\n检查主钱包余额...');
+// 主钱包通过Disperse合约向多个地址转账OKB或USDT的交易
+function populateDisperse(disperseAddress: string, asset: JournalAsset, addresses: string[], amounts: bigint[]): Promise<ethers.ContractTransaction> {
+  const disperse = disperseContract(disperseAddress, mainWallet);
+  return asset === 'OKB'
+    ? (disperse as any).disperseEther.populateTransaction(addresses, amounts, { value: amounts.reduce((total, amount) => total + amount, BigInt(0)) })
+    : (disperse as any).disperseToken.populateTransaction(getConfig().contracts.usdt, addresses, amounts);
+}
+
+// 通过Disperse合约批量转账OKB或USDT，按gas上限拆分成若干笔交易，广播后立即返回
+async function transferBatch(disperseAddress: string, journal: RunJournal, asset: JournalAsset, recipients: { index: number; address: string; amount: number }[]): Promise<PendingTransfer[]> {
+  const config = getConfig();
+  const provider = await getProvider();
+  const decimals = asset === 'OKB' ? 18 : 6;
+
+  const values = new Map(recipients.map(item => [item.index, ethers.parseUnits(item.amount.toString(), decimals)]));
+  const sum = (items: typeof recipients) => items.reduce((total, item) => total + values.get(item.index)!, BigInt(0));
+  const populate = (items: typeof recipients) => populateDisperse(disperseAddress, asset, items.map(item => item.address), items.map(item => values.get(item.index)!));
+
+  // 代币由合约从主钱包转出，需要先授权 (等待授权确认后才能估算批量转账的gas)
+  if (asset === 'USDT') {
+    await approveDisperse(mainWallet, config.contracts.usdt, disperseAddress, sum(recipients), decimals);
+  }
+
+  const chunks = await chunkByGas(
+    recipients,
+    async items => provider.estimateGas({ ...await populate(items), from: mainWallet.address }),
+    BigInt(config.batchGasLimit)
+  );
+
+  const sent: PendingTransfer[] = [];
+  for (const chunk of chunks) {
+    const step: JournalStep = {
+      journal,
+      asset,
+      recipients: chunk.items.map(item => ({ index: item.index, address: item.address, amount: item.amount.toString() }))
+    };
+    const signed = await sendJournaled({ ...await populate(chunk.items), gasLimit: chunk.gasLimit }, step);
+
+    log.info(`批量转账 ${ethers.formatUnits(sum(chunk.items), decimals)} ${asset} 到 ${chunk.items.length} 个钱包, 交易哈希: ${signed.hash}`);
+    sent.push({ txHash: signed.hash, wait: () => confirmJournaled(step, signed) });
+  }
+  return sent;
+}
+
+// 主钱包发出计划中的转账需要的gas费用上限 (gasLimit × 费用上限)，recipients为每种资产的收款地址
+// 逐个转账时每笔按一次转给新地址的估算计算；批量模式按transferBatch相同的方式拆分，每笔批量交易按其gasLimit计算，
+// USDT批量转账在授权之前无法估算，改按逐个转账估算 (批量转账每个收款地址的gas不超过单独一笔转账)，并加上授权交易
+async function estimateTransferGasCost(recipients: Record<JournalAsset, string[]>, disperseAddress: string | null): Promise<bigint> {
+  const config = getConfig();
+  const provider = await getProvider();
+  const fees = await getGasFees(provider);
+  const usdtContract = erc20Contract(config.contracts.usdt, mainWallet);
+  const transferGas = (asset: JournalAsset): Promise<bigint> => retryOperation(() => asset === 'OKB'
+    ? provider.estimateGas({ from: mainWallet.address, to: ethers.Wallet.createRandom().address, value: BigInt(1) })
+    : (usdtContract as any).transfer.estimateGas(ethers.Wallet.createRandom().address, BigInt(1)));
+
+  let total = BigInt(0);
+  for (const asset of ['OKB', 'USDT'] as const) {
+    const addresses = recipients[asset];
+    if (addresses.length === 0) {
+      continue;
+    }
+    if (!disperseAddress) {
+      total += maxGasCost(fees, await transferGas(asset)) * BigInt(addresses.length);
+      continue;
+    }
+    try {
+      const chunks = await chunkByGas(
+        addresses,
+        async items => provider.estimateGas({ ...await populateDisperse(disperseAddress, asset, items, items.map(() => BigInt(1))), from: mainWallet.address }),
+        BigInt(config.batchGasLimit)
+      );
+      total += chunks.reduce((sum, chunk) => sum + maxGasCost(fees, chunk.gasLimit), BigInt(0));
+    } catch (error) {
+      if (asset === 'OKB') {
+        throw error;
+      }
+      const approveGas: bigint = await retryOperation(() => (usdtContract as any).approve.estimateGas(disperseAddress, BigInt(1)));
+      total += maxGasCost(fees, approveGas + (await transferGas(asset)) * BigInt(addresses.length));
+    }
+  }
+  return total;
+}
+
+// 目标数量减去当前余额，已达到目标时为0；差额向上取整到6位小数，避免极小数量转成科学计数法
+function getShortfall(target: number, balance: bigint, decimals: number): number {
+  const shortfall = ethers.parseUnits(target.toString(), decimals) - balance;
+  if (shortfall <= BigInt(0)) {
+    return 0;
+  }
+  const unit = BigInt(10) ** BigInt(decimals - 6);
+  return Number(ethers.formatUnits((shortfall + unit - BigInt(1)) / unit * unit, decimals));
+}
+
+// 补足模式：查询现有子钱包的余额，把每个钱包的分发数量换成距目标的差额，并输出预览
+async function planTopUp(wallets: ConfiguredWallet[]): Promise<ConfiguredWallet[]> {
+  const config = getConfig();
+  const provider = await getProvider();
+  const usdtContract = erc20Contract(config.contracts.usdt, provider);
+
+  log.info('\n查询子钱包当前余额...');
+  const balances: { okb: bigint; usdt: bigint }[] = await Promise.all(wallets.map(wallet => retryOperation(async () => ({
+    okb: await provider.getBalance(wallet.address),
+    usdt: await (usdtContract as any).balanceOf(wallet.address)
+  }))));
+
+  const planned = wallets.map((wallet, i) => ({
+    ...wallet,
+    okb: getShortfall(wallet.okb, balances[i]!.okb, 18),
+    usdt: getShortfall(wallet.usdt, balances[i]!.usdt, 6)
+  }));
+
+  log.info('\n📋 补足预览:');
+  log.table(planned.map((wallet, i) => ({
+    钱包: i + 1,
+    标签: wallet.label,
+    地址: wallet.address,
+    OKB余额: ethers.formatEther(balances[i]!.okb),
+    目标OKB: wallets[i]!.okb,
+    补足OKB: wallet.okb,
+    USDT余额: ethers.formatUnits(balances[i]!.usdt, 6),
+    目标USDT: wallets[i]!.usdt,
+    补足USDT: wallet.usdt
+  })));
+
+  const total = (asset: 'okb' | 'usdt', decimals: number) =>
+    planned.reduce((sum, wallet) => sum + ethers.parseUnits(wallet[asset].toString(), decimals), BigInt(0));
+  const count = planned.filter(wallet => wallet.okb > 0 || wallet.usdt > 0).length;
+  log.info(`补足合计: ${ethers.formatEther(total('okb', 18))} OKB / ${ethers.formatUnits(total('usdt', 6), 6)} USDT (${count}/${planned.length} 个钱包需要补足)`);
+
+  return planned;
+}
+
+// 检查主钱包余额是否足够支付本次需要分发的数量和发送转账的gas费用
+async function checkMainWalletBalance(requiredOkb: bigint, requiredUsdt: bigint, gasCost: bigint = BigInt(0)): Promise<boolean> {
+  log.info('\n检查主钱包余额...');
   
   try {
     // 检查OKB余额
-    const okbBalance = await mainWallet.provider!.getBalance(mainWallet.address);
-    const requiredOkb = ethers.parseEther((config.okbPerWallet * config.numberOfWallets).toString());
+    const okbBalance = await retryOperation(() => mainWallet.provider!.getBalance(mainWallet.address));
     
     // 检查USDT余额
-    const usdtContract = new ethers.Contract(config.contracts.usdt, ERC20_ABI, mainWallet);
-    const usdtBalance = await (usdtContract as any).balanceOf(mainWallet.address);
-    const requiredUsdt = ethers.parseUnits((config.usdtPerWallet * config.numberOfWallets).toString(), 6);
+    const usdtContract = erc20Contract(getConfig().contracts.usdt, mainWallet);
+    const usdtBalance: bigint = await retryOperation(() => (usdtContract as any).balanceOf(mainWallet.address));
 
     const okbBalanceFormatted = ethers.formatEther(okbBalance);
     const usdtBalanceFormatted = ethers.formatUnits(usdtBalance, 6);
 
-    console.log(`主钱包 (${mainWallet.address}):`);
-    console.log(`  OKB: ${okbBalanceFormatted} (需要: ${config.okbPerWallet * config.numberOfWallets})`);
-    console.log(`  USDT: ${usdtBalanceFormatted} (需要: ${config.usdtPerWallet * config.numberOfWallets})`);
+    log.info(`主钱包 (${mainWallet.address}):`);
+    log.info(`  OKB: ${okbBalanceFormatted} (需要: ${ethers.formatEther(requiredOkb + gasCost)}，其中转账 ${ethers.formatEther(requiredOkb)}，gas费用上限 ${ethers.formatEther(gasCost)})`);
+    log.info(`  USDT: ${usdtBalanceFormatted} (需要: ${ethers.formatUnits(requiredUsdt, 6)})`);
 
-    const okbSufficient = okbBalance >= requiredOkb;
+    const okbSufficient = okbBalance >= requiredOkb + gasCost;
     const usdtSufficient = usdtBalance >= requiredUsdt;
 
     if (!okbSufficient) {
-      console.log(`  ❌ OKB余额不足`);
+      log.info(`  ❌ OKB余额不足`);
       return false;
     } else {
-      console.log(`  ✅ OKB余额充足`);
+      log.info(`  ✅ OKB余额充足`);
     }
 
     if (!usdtSufficient) {
-      console.log(`  ❌ USDT余额不足`);
+      log.info(`  ❌ USDT余额不足`);
       return false;
     } else {
-      console.log(`  ✅ USDT余额充足`);
+      log.info(`  ✅ USDT余额充足`);
     }
 
     return true;
   } catch (error) {
-    console.error('主钱包余额检查失败:', (error as Error).message);
+    log.error(`主钱包余额检查失败: ${describeError(error)}`);
     return false;
   }
 }
 
-// 主函数
-async function main() {
+// 归集结果 (每个子钱包一行)
+interface CollectResult {
+  index: number;
+  address: string;
+  usdt: bigint;
+  // 各交易对的LP数量 (按交易对名称)
+  lp: Record<string, bigint>;
+  okb: bigint;
+  status: string;
+  failed: boolean;
+}
+
+// 交易对的LP代币
+interface LpToken {
+  name: string;
+  address: string;
+}
+
+// 估算交易的gas费用 (按gas策略的费用上限计算)，返回gasLimit和费用参数以便发送时复用
+async function estimateTxFee(tx: ethers.TransactionRequest) {
+  const provider = await getProvider();
+  const [gasLimit, fees] = await Promise.all([
+    provider.estimateGas(tx),
+    getGasFees(provider)
+  ]);
+  return { gasLimit, fees, fee: maxGasCost(fees, gasLimit) };
+}
+
+// 从子钱包归集ERC20代币 (USDT / LP)
+async function sweepERC20(from: ethers.Wallet, contractAddress: string, to: string, amount: bigint, decimals: number = 18) {
+  try {
+    const contract = erc20Contract(contractAddress, from);
+
+    const tx = await sendTransaction(from, await (contract as any).transfer.populateTransaction(to, amount));
+
+    log.info(`从 ${from.address} 归集 ${ethers.formatUnits(amount, decimals)} 代币到 ${to}, 交易哈希: ${tx.hash}`);
+    const receipt = await tx.wait(); // 等待交易确认
+    return receipt.hash;
+  } catch (error) {
+    log.error(`从${from.address}归集ERC20失败: ${describeError(error)}`);
+    throw error;
+  }
+}
+
+// 从子钱包归集剩余OKB，扣除精确估算的gas费用
+async function sweepOKB(from: ethers.Wallet, to: string) {
+  try {
+    const balance = await from.provider!.getBalance(from.address);
+    const { gasLimit, fees, fee } = await estimateTxFee({ from: from.address, to, value: BigInt(1) });
+    const value = balance - fee;
+
+    if (value <= BigInt(0)) {
+      log.info(`${from.address} 的OKB余额不足以支付gas，跳过`);
+      return { hash: null, value: BigInt(0) };
+    }
+
+    // 显式指定gasLimit和费用，实际扣费正好等于预留，不留下余额；余额已全部转出，无法加速
+    // EIP-1559交易的实际单价为 min(maxFeePerGas, baseFee + maxPriorityFeePerGas)，小费设为maxFeePerGas时单价固定为maxFeePerGas
+    // (高出baseFee的部分作为小费支付)；转入合约地址时gasUsed可能小于估算的gasLimit，差额会留在钱包中
+    const feeFields = fees.type === 2
+      ? { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxFeePerGas }
+      : { gasPrice: fees.gasPrice };
+    const tx = await sendTransaction(from, { to, value, gasLimit, ...feeFields }, { speedUp: false });
+
+    log.info(`从 ${from.address} 归集 ${ethers.formatEther(value)} OKB 到 ${to}, 交易哈希: ${tx.hash}`);
+    const receipt = await tx.wait(); // 等待交易确认
+    return { hash: receipt.hash, value };
+  } catch (error) {
+    log.error(`从${from.address}归集OKB失败: ${describeError(error)}`);
+    throw error;
+  }
+}
+
+// 查找LIQUIDITY_PAIRS中各交易对的LP代币地址，未创建的交易对跳过
+async function getLpTokens(): Promise<LpToken[]> {
+  const config = getConfig();
+  const provider = await getProvider();
+  const tokenAddress = (token: string) => token === NATIVE_TOKEN ? config.contracts.wokb : token;
+  const lpTokens: LpToken[] = [];
+  for (const pair of config.liquidityPairs) {
+    const address = await findPairAddress(config.contracts.potatoSwapRouter, tokenAddress(pair.tokenA), tokenAddress(pair.tokenB), provider);
+    if (address) {
+      lpTokens.push({ name: pair.name, address });
+    } else {
+      log.info(`⚠️  未找到${pair.name}配对池，跳过该交易对的LP归集`);
+    }
+  }
+  return lpTokens;
+}
+
+// 归集单个子钱包的资金到主钱包
+async function collectFromWallet(index: number, wallet: ethers.Wallet, lpTokens: LpToken[], dryRun: boolean): Promise<CollectResult> {
+  const config = getConfig();
+  const provider = await getProvider();
+  const result: CollectResult = { index, address: wallet.address, usdt: BigInt(0), lp: {}, okb: BigInt(0), status: '', failed: false };
+  const to = mainWallet.address;
+
+  // dry-run模式下累计前面几笔代币转账的gas，用于推算最终可归集的OKB
+  let pendingFees = BigInt(0);
+  const fees = dryRun ? await getGasFees(provider) : null;
+
+  // 1. 归集全部USDT
+  const usdtContract = erc20Contract(config.contracts.usdt, wallet);
+  result.usdt = await (usdtContract as any).balanceOf(wallet.address);
+  if (result.usdt > BigInt(0)) {
+    if (dryRun) {
+      const gasLimit = await (usdtContract as any).transfer.estimateGas(to, result.usdt);
+      pendingFees += maxGasCost(fees!, gasLimit);
+    } else {
+      await sweepERC20(wallet, config.contracts.usdt, to, result.usdt, 6);
+    }
+  }
+
+  // 2. 可选：归集各交易对的LP代币
+  for (const lpToken of lpTokens) {
+    const lpContract = erc20Contract(lpToken.address, wallet);
+    const lp: bigint = await (lpContract as any).balanceOf(wallet.address);
+    result.lp[lpToken.name] = lp;
+    if (lp > BigInt(0)) {
+      if (dryRun) {
+        const gasLimit = await (lpContract as any).transfer.estimateGas(to, lp);
+        pendingFees += maxGasCost(fees!, gasLimit);
+      } else {
+        await sweepERC20(wallet, lpToken.address, to, lp, 18);
+      }
+    }
+  }
+
+  // 3. 最后归集剩余OKB (扣除gas预留)
+  if (dryRun) {
+    const balance = await provider.getBalance(wallet.address);
+    const { fee } = await estimateTxFee({ from: wallet.address, to, value: BigInt(1) });
+    const value = balance - pendingFees - fee;
+    result.okb = value > BigInt(0) ? value : BigInt(0);
+    result.status = '模拟';
+  } else {
+    const { value } = await sweepOKB(wallet, to);
+    result.okb = value;
+    result.status = '✅ 完成';
+  }
+
+  return result;
+}
+
+// 归集主函数：将所有子钱包的资金转回主钱包，返回归集失败的钱包数量
+async function collectMain(options: CollectOptions = {}): Promise<number> {
+  const dryRun = options.dryRun === true;
+  const includeLp = options.includeLp === true;
+
+  log.info('验证配置...');
+  validateConfig();
+
+  log.info('初始化主钱包...');
+  await initializeMainWallet();
+
+  const subWallets = (await openConfiguredWallets(await getProvider())).map(item => item.wallet);
+
+  if (dryRun) {
+    log.info('🧪 dry-run模式：仅估算，不发送任何交易');
+  }
+
+  const lpTokens = includeLp ? await getLpTokens() : [];
+  for (const lpToken of lpTokens) {
+    log.info(`${lpToken.name} LP代币地址: ${lpToken.address}`);
+  }
+
+  log.info('\n开始归集子钱包资金...');
+  const results: CollectResult[] = [];
+  for (let i = 0; i < subWallets.length; i++) {
+    const wallet = subWallets[i]!;
+    log.info(`\n[钱包 ${i + 1}] ${wallet.address}`);
+
+    try {
+      results.push(await withLogContext({ walletIndex: i + 1, wallet: wallet.address }, () => collectFromWallet(i, wallet, lpTokens, dryRun)));
+    } catch (error) {
+      log.error(`[钱包 ${i + 1}] 归集失败: ${describeError(error)}`);
+      results.push({ index: i, address: wallet.address, usdt: BigInt(0), lp: {}, okb: BigInt(0), status: `❌ ${describeError(error)}`, failed: true });
+    }
+  }
+
+  log.info(`\n📋 归集汇总${dryRun ? ' (dry-run)' : ''}:`);
+  log.table(results.map(item => ({
+    钱包: item.index + 1,
+    地址: item.address,
+    USDT: ethers.formatUnits(item.usdt, 6),
+    ...Object.fromEntries(lpTokens.map(lpToken => [`${lpToken.name} LP`, ethers.formatEther(item.lp[lpToken.name] ?? BigInt(0))])),
+    OKB: ethers.formatEther(item.okb),
+    状态: item.status
+  })));
+
+  const totalUsdt = results.reduce((sum, item) => sum + item.usdt, BigInt(0));
+  const totalOkb = results.reduce((sum, item) => sum + item.okb, BigInt(0));
+  log.info(`合计 USDT: ${ethers.formatUnits(totalUsdt, 6)}, OKB: ${ethers.formatEther(totalOkb)}`);
+
+  const failureCount = results.filter(item => item.failed).length;
+  if (failureCount > 0) {
+    log.warn(`⚠️  ${failureCount} 个钱包归集失败`);
+  }
+  return failureCount;
+}
+
+// 将SUB_WALLET_PRIVATE_KEYS中的旧版明文私钥迁移到加密钱包库
+async function importKeysMain() {
+  if (!getConfig().walletStorePassword) {
+    throw new Error('请在.env文件中设置WALLET_STORE_PASSWORD，用于加密保存子钱包');
+  }
+
+  const privateKeys = getLegacyPrivateKeys();
+  if (privateKeys.length === 0) {
+    throw new Error('SUB_WALLET_PRIVATE_KEYS为空，没有可导入的私钥');
+  }
+
+  log.info(`开始导入 ${privateKeys.length} 个子钱包...`);
+  const added = await saveToWalletStore(privateKeys);
+  log.info(`✅ 新导入 ${added} 个钱包到 ${getWalletStorePath()} (已存在的地址已跳过)`);
+  log.info('⚠️  确认钱包库可用后，请从.env中删除SUB_WALLET_PRIVATE_KEYS');
+}
+
+// 部署Disperse合约 (每条链只需一次)，部署后在.env中设置DISPERSE_CONTRACT
+async function deployDisperseMain() {
+  log.info('验证配置...');
+  validateConfig();
+
+  log.info('初始化主钱包...');
+  await initializeMainWallet();
+
+  const address = await deployDisperse(mainWallet);
+  log.info(`✅ Disperse合约已部署: ${address}`);
+  log.info(`请在.env文件中设置 DISPERSE_CONTRACT=${address}`);
+}
+
+// 分发主函数
+async function distributeMain(options: DistributeOptions = {}) {
+  const config = getConfig();
+  const { resumePath } = options;
+  // 恢复任务时日志中已记录补足后的数量，无需重新计算
+  const topUp = options.topUp === true && !resumePath;
   try {
-    // 0. 验证配置
-    console.log('验证配置...');
-    validateConfig();
+    // 0. 验证配置 (补足模式不会创建新钱包)
+    log.info('验证配置...');
+    validateConfig(!topUp);
     
     // 1. 初始化主钱包
-    console.log('初始化主钱包...');
-    initializeMainWallet();
+    log.info('初始化主钱包...');
+    await initializeMainWallet();
+
+    // 批量模式需要已部署的Disperse合约，不可用时回退为逐个钱包转账
+    let disperseAddress: string | null = null;
+    if (options.batch ?? config.distributeBatch) {
+      if (await isDisperseAvailable(config.disperseContract, await getProvider())) {
+        disperseAddress = config.disperseContract;
+        log.info(`📦 批量分发模式，Disperse合约: ${disperseAddress}`);
+      } else {
+        log.info(`⚠️  Disperse合约不可用 (${config.disperseContract || '未设置DISPERSE_CONTRACT'})，回退为逐个钱包转账`);
+      }
+    }
+
+    // 新任务有钱包配置文件时，分发给文件中启用的钱包，每个钱包使用单独的数量
+    // 补足模式使用现有子钱包 (钱包配置文件或钱包库)，分发数量换成距目标余额的差额
+    let configured = !resumePath && (topUp || walletConfigExists()) ? await openConfiguredWallets(await getProvider()) : null;
+    if (configured && walletConfigExists()) {
+      log.info(`📄 按钱包配置文件 ${getWalletConfigPath()} 分发 (${configured.length} 个钱包)`);
+    }
+    if (configured && topUp) {
+      log.info(`🔄 补足模式: ${configured.length} 个现有子钱包`);
+      configured = await planTopUp(configured);
+      if (configured.every(wallet => wallet.okb <= 0 && wallet.usdt <= 0)) {
+        log.info('✅ 所有子钱包都已达到目标余额，无需补足');
+        return;
+      }
+    }
+
+    // 2. 打开运行日志 (新任务创建日志，--resume 时读取已有日志)
+    const journal = resumePath ? RunJournal.open(resumePath) : RunJournal.create(config.journalDir);
+    log.info(`📒 运行日志: ${journal.filePath}`);
+
+    let run = journal.run();
+    if (resumePath) {
+      if (!run) {
+        throw new Error('日志中没有任务信息，无法恢复');
+      }
+      if (journal.isDone()) {
+        log.info('✅ 该任务已全部完成，无需恢复');
+        return;
+      }
+      // 恢复时沿用原任务的分发数量，避免与当前.env不一致
+      log.info(`恢复任务 ${run.runId}: 每个钱包 ${run.okbPerWallet} OKB / ${run.usdtPerWallet} USDT (钱包单独设置的数量除外)`);
+    } else {
+      run = {
+        type: 'run',
+        runId: new Date().toISOString(),
+        okbPerWallet: config.okbPerWallet,
+        usdtPerWallet: config.usdtPerWallet,
+        numberOfWallets: configured ? configured.length : config.numberOfWallets
+      };
+      journal.append(run);
+    }
+
+    // 每个钱包的分发数量：日志中记录的单独数量优先，否则使用任务的全局数量
+    const amountsOf = (entry: { okb?: number; usdt?: number }) => ({
+      OKB: entry.okb ?? run.okbPerWallet,
+      USDT: entry.usdt ?? run.usdtPerWallet
+    });
+
+    // 3. 核对日志中未确认的转账，统计还需要分发的数量 (数量为0的跳过)
+    let walletEntries = journal.wallets();
+    const pending: { index: number; address: string; asset: JournalAsset; amount: number }[] = [];
+    const addPending = (entry: WalletEntry, asset: JournalAsset) => {
+      const amount = amountsOf(entry)[asset];
+      if (amount > 0) {
+        pending.push({ index: entry.index, address: entry.address, asset, amount });
+      }
+    };
+    for (const entry of walletEntries) {
+      for (const asset of ['OKB', 'USDT'] as const) {
+        const last = journal.lastTransfer(entry.index, asset);
+        const done = last ? await reconcileTransfer(journal, last) : false;
+        if (!done) {
+          addPending(entry, asset);
+        }
+      }
+    }
+
+    // 尚未创建的钱包也计入需要的余额
+    const planned = walletEntries.length > 0 ? [] : configured ?? Array.from({ length: run.numberOfWallets }, () => ({}));
+    const required = (asset: JournalAsset, decimals: number) => [
+      ...pending.filter(item => item.asset === asset).map(item => item.amount),
+      ...planned.map(item => amountsOf(item)[asset])
+    ].reduce((sum, amount) => sum + ethers.parseUnits(amount.toString(), decimals), BigInt(0));
+    const requiredOkb = required('OKB', 18);
+    const requiredUsdt = required('USDT', 6);
+    // 尚未创建的钱包按新地址估算gas
+    const recipients = (asset: JournalAsset) => [
+      ...pending.filter(item => item.asset === asset).map(item => item.address),
+      ...planned.filter(item => amountsOf(item)[asset] > 0).map(() => ethers.Wallet.createRandom().address)
+    ];
+    const gasCost = await estimateTransferGasCost({ OKB: recipients('OKB'), USDT: recipients('USDT') }, disperseAddress);
     
-    // 2. 检查主钱包余额
-    console.log('检查主钱包余额...');
-    const balanceValid = await checkMainWalletBalance();
+    // 4. 检查主钱包余额
+    log.info('检查主钱包余额...');
+    const balanceValid = await checkMainWalletBalance(requiredOkb, requiredUsdt, gasCost);
     
     if (!balanceValid) {
-      throw new Error('主钱包余额不足，请确保有足够的OKB和USDT余额');
+      throw new BotError('insufficient-balance', '主钱包余额不足，请确保有足够的OKB和USDT余额');
     }
     
-    // 3. 批量创建子钱包
-    console.log('\n开始创建子钱包...');
-    const subWallets = await createSubWallets(config.numberOfWallets);
+    // 5. 批量创建子钱包 (使用钱包配置文件或恢复任务时不创建新钱包)
+    if (walletEntries.length === 0) {
+      if (configured) {
+        configured.forEach((wallet, index) => {
+          journal.append({ type: 'wallet', index, address: wallet.address, label: wallet.label, okb: wallet.okb, usdt: wallet.usdt });
+        });
+      } else {
+        log.info('\n开始创建子钱包...');
+        const subWallets = await createSubWallets(run.numberOfWallets);
+        subWallets.forEach((wallet, index) => {
+          journal.append({ type: 'wallet', index, address: wallet.address });
+        });
+      }
+      walletEntries = journal.wallets();
+      for (const entry of walletEntries) {
+        addPending(entry, 'OKB');
+        addPending(entry, 'USDT');
+      }
+    }
     
-    // 4. 向每个子钱包分发OKB和USDT
-    console.log('\n开始分发代币...');
-    for (const wallet of subWallets) {
-      // 转账OKB
-      await transferOKB(wallet.address, config.okbPerWallet);
-      
-      // 转账USDT (假设USDT是6位小数)
-      await transferERC20(config.contracts.usdt, wallet.address, config.usdtPerWallet, 6);
-      
-      // 等待一下，避免交易拥堵
-      await new Promise(resolve => setTimeout(resolve, 5000));
+    // 6. 向每个子钱包分发OKB和USDT，已确认的转账会被跳过
+    //    主钱包本地分配nonce依次签名广播，不等待上一笔确认，全部发出后统一等待
+    log.info(`\n开始分发代币 (待执行 ${pending.length} 笔转账)...`);
+    const sent: PendingTransfer[] = [];
+    let sendError: unknown;
+    try {
+      if (disperseAddress) {
+        // 批量模式：每种资产合并成少量Disperse交易
+        for (const asset of ['OKB', 'USDT'] as const) {
+          const recipients = pending
+            .filter(item => item.asset === asset)
+            .map(item => ({ index: item.index, address: item.address, amount: item.amount }));
+          if (recipients.length > 0) {
+            sent.push(...await transferBatch(disperseAddress, journal, asset, recipients));
+          }
+        }
+      } else {
+        for (const entry of walletEntries) {
+          const items = pending.filter(item => item.index === entry.index);
+          if (items.length === 0) {
+            log.info(`钱包 ${entry.index + 1} (${entry.address}) 已完成，跳过`);
+            continue;
+          }
+
+          await withLogContext({ walletIndex: entry.index + 1, wallet: entry.address }, async () => {
+            // 转账OKB
+            const okb = items.find(item => item.asset === 'OKB');
+            if (okb) {
+              const step: JournalStep = { journal, asset: 'OKB', recipients: [{ index: entry.index, address: entry.address, amount: okb.amount.toString() }] };
+              sent.push(await transferOKB(entry.address, okb.amount, step));
+            }
+            
+            // 转账USDT (假设USDT是6位小数)
+            const usdt = items.find(item => item.asset === 'USDT');
+            if (usdt) {
+              const step: JournalStep = { journal, asset: 'USDT', recipients: [{ index: entry.index, address: entry.address, amount: usdt.amount.toString() }] };
+              sent.push(await transferERC20(config.contracts.usdt, entry.address, usdt.amount, 6, step));
+            }
+          });
+          
+          // 可选的广播间隔，避免节点限流
+          if (config.walletDelayMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, config.walletDelayMs));
+          }
+        }
+      }
+    } catch (error) {
+      // 已广播的转账仍需等待确认并写入日志
+      sendError = error;
+    }
+
+    log.info(`\n等待 ${sent.length} 笔转账确认...`);
+    const confirmations = await Promise.allSettled(sent.map(item => item.wait()));
+    const failedCount = confirmations.filter(result => result.status === 'rejected').length;
+    if (sendError) {
+      throw sendError;
+    }
+    if (failedCount > 0) {
+      throw new Error(`${failedCount} 笔转账未能确认，详见运行日志`);
     }
+
+    journal.append({ type: 'done' });
     
-    console.log('\n✅ 所有操作完成!');
-    console.log('\n📋 子钱包信息汇总:');
-    subWallets.forEach((wallet, index) => {
-      console.log(`钱包 ${index + 1}:`);
-      console.log(`  地址: ${wallet.address}`);
-      console.log(`  私钥: ${wallet.privateKey}`);
+    log.info('\n✅ 所有操作完成!');
+    log.info('\n📋 子钱包信息汇总:');
+    walletEntries.forEach(entry => {
+      log.info(`钱包 ${entry.index + 1}: ${entry.address}`);
     });
+    if (getMnemonic()) {
+      log.info(`子钱包可通过助记词和派生路径 ${getDerivationPath()}/i 重新生成`);
+    } else {
+      log.info(`私钥已加密保存在 ${getWalletStorePath()}`);
+    }
     
   } catch (error) {
-    console.error('操作失败:', error);
+    if (resumePath === undefined) {
+      log.error('💡 可使用 --resume <运行日志路径> 从中断处继续');
+    }
+    throw error;
   }
 }
 
-// 执行主函数
-main();
\ No newline at end of file
+export {
+  validateConfig,
+  initializeMainWallet,
+  createSubWallets,
+  reconcileTransfer,
+  transferOKB,
+  transferERC20,
+  transferBatch,
+  checkMainWalletBalance,
+  sweepERC20,
+  sweepOKB,
+  getLpTokens,
+  collectFromWallet,
+  distributeMain,
+  collectMain,
+  importKeysMain,
+  deployDisperseMain
+};
+export type { CollectResult, JournalStep, PendingTransfer };
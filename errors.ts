@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+
+// 错误分类，重试层据此判断是否值得重试
+export type ErrorKind =
+  | 'insufficient-balance'
+  | 'insufficient-allowance'
+  | 'slippage'
+  | 'deadline-expired'
+  | 'nonce-too-low'
+  | 'underpriced'
+  | 'rate-limited'
+  | 'timeout'
+  | 'network'
+  | 'unconfirmed'
+  | 'unknown';
+
+// 每类错误的显示名称，以及重试是否可能成功 (余额、授权、滑点等需要人工处理或重新计算的错误直接失败)
+const ERROR_KINDS: Record<ErrorKind, { label: string; retryable: boolean }> = {
+  'insufficient-balance': { label: '余额不足', retryable: false },
+  'insufficient-allowance': { label: '授权不足', retryable: false },
+  'slippage': { label: '滑点超限', retryable: false },
+  'deadline-expired': { label: '已超过deadline', retryable: false },
+  'nonce-too-low': { label: 'nonce过低', retryable: true },
+  'underpriced': { label: 'gas价格过低', retryable: true },
+  'rate-limited': { label: 'RPC限流', retryable: true },
+  'timeout': { label: '请求超时', retryable: true },
+  'network': { label: '网络错误', retryable: true },
+  // 交易已广播但无法确认结果：重试会用新nonce再发一笔，必须先人工核对
+  'unconfirmed': { label: '已广播未确认', retryable: false },
+  'unknown': { label: '未知错误', retryable: false }
+};
+
+// 已分类的错误，原始异常保存在cause中
+export class BotError extends Error {
+  readonly kind: ErrorKind;
+  readonly retryable: boolean;
+  // 合约回退原因 (如 UniswapV2Router: EXPIRED)，不是回退时为null
+  readonly revertReason: string | null;
+  // 已广播但无法确认的交易哈希 (unconfirmed)，用于之后查询结果
+  readonly txHash: string | null;
+
+  constructor(kind: ErrorKind, message: string, options: { cause?: unknown; revertReason?: string | null; txHash?: string | null } = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'BotError';
+    this.kind = kind;
+    this.retryable = ERROR_KINDS[kind].retryable;
+    this.revertReason = options.revertReason ?? null;
+    this.txHash = options.txHash ?? null;
+  }
+}
+
+// 路由器和代币合约的回退原因: 分类和说明 (按顺序匹配，较长的原因在前)
+const REVERT_REASONS: [string, ErrorKind, string][] = [
+  ['EXPIRED', 'deadline-expired', '打包时已超过deadline，交易在内存池中等待太久'],
+  ['INSUFFICIENT_A_AMOUNT', 'slippage', '按打包时的池子价格，tokenA的存入/取回数量低于最小值 (价格变动超过滑点容忍度)'],
+  ['INSUFFICIENT_B_AMOUNT', 'slippage', '按打包时的池子价格，tokenB的存入/取回数量低于最小值 (价格变动超过滑点容忍度)'],
+  ['INSUFFICIENT_OUTPUT_AMOUNT', 'slippage', '兑换得到的数量低于最小值 (价格变动超过滑点容忍度)'],
+  ['INSUFFICIENT_LIQUIDITY_MINTED', 'unknown', '存入数量太少，铸造的LP为0'],
+  ['INSUFFICIENT_LIQUIDITY_BURNED', 'unknown', '移除的LP太少，取回的代币为0'],
+  ['INSUFFICIENT_LIQUIDITY', 'unknown', '池子流动性不足'],
+  ['TRANSFER_FROM_FAILED', 'insufficient-allowance', '代币转入失败: 余额不足或未授权给路由器'],
+  ['ETH_TRANSFER_FAILED', 'unknown', 'OKB转出失败'],
+  ['INVALID_SIGNATURE', 'unknown', 'permit签名无效 (签名的nonce、deadline或额度与调用不一致)'],
+  ['ds-math-sub-underflow', 'insufficient-balance', '余额或授权额度不足'],
+  ['insufficient allowance', 'insufficient-allowance', '授权额度不足'],
+  ['exceeds balance', 'insufficient-balance', '余额不足']
+];
+
+// 节点和HTTP返回的错误信息 (各RPC节点措辞不同，按关键字匹配)
+const MESSAGE_PATTERNS: [RegExp, ErrorKind][] = [
+  [/nonce too low|nonce has already been used|nonce expired/i, 'nonce-too-low'],
+  [/underpriced|fee too low|max fee per gas less than block base fee/i, 'underpriced'],
+  [/insufficient funds/i, 'insufficient-balance'],
+  [/rate limit|too many requests/i, 'rate-limited'],
+  [/timeout|timed out/i, 'timeout']
+];
+
+// ethers错误码对应的分类
+const ETHERS_CODES: Record<string, ErrorKind> = {
+  INSUFFICIENT_FUNDS: 'insufficient-balance',
+  NONCE_EXPIRED: 'nonce-too-low',
+  REPLACEMENT_UNDERPRICED: 'underpriced',
+  TIMEOUT: 'timeout',
+  NETWORK_ERROR: 'network',
+  SERVER_ERROR: 'network'
+};
+
+// Node.js网络错误码 (axios请求失败时出现在error.code)
+const SOCKET_CODES: Record<string, ErrorKind> = {
+  ECONNABORTED: 'timeout',
+  ETIMEDOUT: 'timeout',
+  ECONNRESET: 'network',
+  ECONNREFUSED: 'network',
+  ENOTFOUND: 'network',
+  EAI_AGAIN: 'network'
+};
+
+// 从调用异常中解析合约回退原因 (如 UniswapV2Router: INSUFFICIENT_A_AMOUNT)
+export function decodeRevertReason(error: any): string {
+  if (error?.reason) {
+    return error.reason;
+  }
+
+  const data = error?.data ?? error?.error?.data ?? error?.info?.error?.data;
+  if (typeof data === 'string' && data.startsWith('0x08c379a0')) {
+    try {
+      return ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(data, 4))[0];
+    } catch {
+      // 无法解析时回退到原始错误信息
+    }
+  }
+
+  return error?.shortMessage || error?.message || String(error);
+}
+
+// 常见回退原因的说明
+export function explainRevert(reason: string | null, outOfGas: boolean): string | null {
+  if (outOfGas) {
+    return 'gas已全部用完，gasLimit设置过低';
+  }
+  if (!reason) {
+    return null;
+  }
+  return REVERT_REASONS.find(([pattern]) => reason.includes(pattern))?.[2] ?? null;
+}
+
+// 按错误码、HTTP状态和错误信息判断分类
+function getErrorKind(error: any, reason: string): ErrorKind {
+  const revert = REVERT_REASONS.find(([pattern]) => reason.includes(pattern));
+  if (revert) {
+    return revert[1];
+  }
+
+  // JSON-RPC错误码: -32011为X Layer节点繁忙，-32005为限流
+  const rpcCode = error?.error?.code ?? error?.info?.error?.code;
+  if (rpcCode === -32005) {
+    return 'rate-limited';
+  }
+  if (error?.code === 'UNKNOWN_ERROR' && rpcCode === -32011) {
+    return 'network';
+  }
+
+  const status = error?.response?.status ?? error?.info?.responseStatus;
+  if (status === 429 || (typeof status === 'string' && status.startsWith('429'))) {
+    return 'rate-limited';
+  }
+  if (status === 502 || status === 503 || status === 504) {
+    return 'network';
+  }
+
+  const byCode = ETHERS_CODES[error?.code] ?? SOCKET_CODES[error?.code];
+  if (byCode) {
+    return byCode;
+  }
+
+  return MESSAGE_PATTERNS.find(([pattern]) => pattern.test(reason))?.[1] ?? 'unknown';
+}
+
+// 把任意异常归类为BotError (已分类的原样返回)
+export function classifyError(error: unknown): BotError {
+  if (error instanceof BotError) {
+    return error;
+  }
+  const reason = decodeRevertReason(error);
+  const kind = getErrorKind(error, reason);
+  const isRevert = (error as any)?.code === 'CALL_EXCEPTION' || REVERT_REASONS.some(([pattern]) => reason.includes(pattern));
+  return new BotError(kind, reason, { cause: error, revertReason: isRevert ? reason : null });
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return classifyError(error).retryable;
+}
+
+export function getErrorLabel(kind: ErrorKind): string {
+  return ERROR_KINDS[kind].label;
+}
+
+// 日志和汇总中显示的错误信息: [分类] 原因
+export function describeError(error: unknown): string {
+  const classified = classifyError(error);
+  return `[${getErrorLabel(classified.kind)}] ${classified.message}`;
+}
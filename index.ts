@@ -0,0 +1,184 @@
+// 库入口：供其他工具以编程方式调用，导入时不会执行任何操作
+export { getConfig, loadConfig, reloadConfig, NATIVE_TOKEN, type BotConfig, type GasConfig, type GasMode, type DaemonConfig, type LogConfig, type LogLevel, type LogFormat, type RetryConfig, type ApprovalMode, type LiquidityPairConfig } from './config.js';
+export { createProvider, getProvider, checkRpcEndpoints, probeRpcEndpoint, type RpcHealth } from './provider.js';
+export {
+  ERC20_ABI,
+  ROUTER_ABI,
+  FACTORY_ABI,
+  PAIR_ABI,
+  DISPERSE_ABI,
+  erc20Contract,
+  routerContract,
+  factoryContract,
+  pairContract,
+  disperseContract,
+  findPairAddress,
+  type IERC20,
+  type IRouter,
+  type IFactory,
+  type IPair
+} from './contracts.js';
+export {
+  retryOperation,
+  isRpcNetworkError,
+  getRetryAfterMs,
+  getBackoffDelay,
+  getCircuitState,
+  resetCircuitBreakers,
+  RPC_ENDPOINT,
+  type RetryOptions
+} from './retry.js';
+export {
+  BotError,
+  classifyError,
+  isRetryableError,
+  decodeRevertReason,
+  explainRevert,
+  describeError,
+  getErrorLabel,
+  type ErrorKind
+} from './errors.js';
+export {
+  log,
+  getLogger,
+  createLogger,
+  getRunId,
+  withLogContext,
+  registerSecret,
+  redact,
+  type LogContext
+} from './logger.js';
+export {
+  openSubWallets,
+  loadSubWallets,
+  deriveSubWallets,
+  saveToWalletStore,
+  loadWalletStore,
+  type SubWallet
+} from './wallet-store.js';
+export {
+  parseWalletConfig,
+  loadWalletConfig,
+  openConfiguredWallets,
+  walletConfigExists,
+  type ConfiguredWallet,
+  type WalletConfigEntry,
+  type WalletConfigFile,
+  type WalletDefaults
+} from './wallet-config.js';
+export { RunJournal } from './journal.js';
+export { DISPERSE_BYTECODE, deployDisperse, isDisperseAvailable, chunkByGas, approveDisperse } from './disperse.js';
+export {
+  TransactionManager,
+  getTransactionManager,
+  sendTransaction,
+  getGasFees,
+  maxGasCost,
+  signedFromRaw,
+  TransactionFailedError,
+  type GasFees,
+  type SignedTx,
+  type SendOptions
+} from './transactions.js';
+export {
+  approveTokenForSwap,
+  getApprovalAmount,
+  supportsPermit,
+  signPermit,
+  resolvePool,
+  getLiquidityPools,
+  getPoolReserves,
+  getPairAmountFromRouter,
+  getPoolRatio,
+  getZapSwapAmount,
+  getOptimalAmounts,
+  swapExactIn,
+  rebalanceForLiquidity,
+  addLiquidity,
+  removeLiquidity,
+  validateWalletBalances,
+  checkWalletBalances,
+  getTokenBalance,
+  addWalletLiquidity,
+  addLiquidityMain,
+  removeLiquidityMain,
+  type LiquidityOptions,
+  type LiquidityRunSummary,
+  type WalletRunSummary,
+  type WalletBalanceCheck,
+  type WalletBalanceStatus,
+  type DryRunReport,
+  type LiquidityPool,
+  type PoolToken
+} from './potato.js';
+export {
+  getSpotPrice,
+  getTwapPrice,
+  getFeedPrice,
+  checkPoolPrice,
+  type PriceSource,
+  type PriceCheck
+} from './price.js';
+export {
+  createSubWallets,
+  transferOKB,
+  transferERC20,
+  transferBatch,
+  collectFromWallet,
+  distributeMain,
+  collectMain,
+  importKeysMain,
+  deployDisperseMain,
+  type DistributeOptions,
+  type CollectOptions,
+  type CollectResult
+} from './distribute.js';
+export {
+  findDeposits,
+  analyzePosition,
+  getPositionReports,
+  formatReportRow,
+  reportMain,
+  type ReportOptions,
+  type Deposit,
+  type PositionReport,
+  type PositionPnl
+} from './report.js';
+export {
+  parseCron,
+  nextCronTime,
+  loadDaemonState,
+  saveDaemonState,
+  checkDaemonConditions,
+  hasPendingTransaction,
+  runDaemonTick,
+  daemonMain,
+  type DaemonOptions,
+  type CronSchedule,
+  type DaemonState,
+  type DaemonPoolState,
+  type DaemonWalletState,
+  type DaemonConditions
+} from './daemon.js';
+export {
+  getApprovalTargets,
+  findOutstandingApprovals,
+  revokeMain,
+  type RevokeOptions,
+  type ApprovalTarget,
+  type OutstandingApproval,
+  type RevokeResult
+} from './revoke.js';
+export {
+  analyzeMain,
+  parseOfflineTransaction,
+  type AnalyzeOptions,
+  type TxInput,
+  type ReceiptInput,
+  type TokenInfo,
+  type DecodedCall,
+  type DecodedLog,
+  type DepositPrice,
+  type TxAnalysis
+} from './analyze.js';
+export { signMessage, processWallet, signMain } from './sign-agreement.js';
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+
+// 分发任务的资产类型
+export type JournalAsset = 'OKB' | 'USDT';
+
+// 转账步骤状态: signed(已签名未广播) → sent(已广播) → confirmed / failed
+export type TransferStatus = 'signed' | 'sent' | 'confirmed' | 'failed';
+
+export interface RunEntry {
+  type: 'run';
+  runId: string;
+  okbPerWallet: number;
+  usdtPerWallet: number;
+  numberOfWallets: number;
+}
+
+export interface WalletEntry {
+  type: 'wallet';
+  index: number;
+  address: string;
+  // 钱包配置文件中的标签和单独的分发数量，未记录时使用任务的全局数量
+  label?: string;
+  okb?: number;
+  usdt?: number;
+}
+
+export interface TransferEntry {
+  type: 'transfer';
+  index: number;
+  address: string;
+  asset: JournalAsset;
+  amount: string;
+  status: TransferStatus;
+  nonce?: number;
+  txHash?: string;
+  // 已签名的原始交易，恢复时可原样重新广播，保证不会重复转账
+  raw?: string;
+  blockNumber?: number;
+  error?: string;
+}
+
+export interface DoneEntry {
+  type: 'done';
+}
+
+export type JournalEntry = (RunEntry | WalletEntry | TransferEntry | DoneEntry) & { time?: string };
+
+// 追加写入的运行日志 (JSON Lines)，每一步执行前后都会落盘
+export class RunJournal {
+  readonly filePath: string;
+  private readonly items: JournalEntry[];
+
+  private constructor(filePath: string, items: JournalEntry[]) {
+    this.filePath = filePath;
+    this.items = items;
+  }
+
+  // 在journals/目录下创建新的日志文件
+  static create(dir: string = 'journals'): RunJournal {
+    fs.mkdirSync(dir, { recursive: true });
+    const runId = new Date().toISOString().replace(/[:.]/g, '-');
+    const filePath = path.resolve(dir, `distribute-${runId}.jsonl`);
+    fs.writeFileSync(filePath, '', { mode: 0o600 });
+    return new RunJournal(filePath, []);
+  }
+
+  // 打开已有日志，用于恢复中断的任务
+  static open(filePath: string): RunJournal {
+    const resolved = path.resolve(filePath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`日志文件不存在: ${resolved}`);
+    }
+
+    const items: JournalEntry[] = [];
+    const lines = fs.readFileSync(resolved, 'utf8').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!.trim();
+      if (!line) {
+        continue;
+      }
+      try {
+        items.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        // 崩溃时最后一行可能只写了一半，忽略即可；中间行损坏则无法安全恢复
+        if (i < lines.length - 1 && lines.slice(i + 1).some(rest => rest.trim() !== '')) {
+          throw new Error(`日志文件第 ${i + 1} 行损坏: ${resolved}`);
+        }
+      }
+    }
+    return new RunJournal(resolved, items);
+  }
+
+  // 追加一条记录并立即同步到磁盘
+  append(entry: JournalEntry) {
+    const record = { ...entry, time: new Date().toISOString() };
+    const fd = fs.openSync(this.filePath, 'a');
+    try {
+      fs.writeSync(fd, JSON.stringify(record) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.items.push(record);
+  }
+
+  entries(): readonly JournalEntry[] {
+    return this.items;
+  }
+
+  run(): RunEntry | undefined {
+    return this.items.find((entry): entry is RunEntry & { time?: string } => entry.type === 'run');
+  }
+
+  wallets(): WalletEntry[] {
+    return this.items.filter((entry): entry is WalletEntry & { time?: string } => entry.type === 'wallet');
+  }
+
+  // 某个钱包某种资产的最新转账状态
+  lastTransfer(index: number, asset: JournalAsset): TransferEntry | undefined {
+    for (let i = this.items.length - 1; i >= 0; i--) {
+      const entry = this.items[i]!;
+      if (entry.type === 'transfer' && entry.index === index && entry.asset === asset) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  isDone(): boolean {
+    return this.items.some(entry => entry.type === 'done');
+  }
+}
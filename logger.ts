@@ -0,0 +1,173 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Console } from 'console';
+import crypto from 'crypto';
+import path from 'path';
+import { Writable } from 'stream';
+import util from 'util';
+import winston from 'winston';
+import { getConfig, type LogConfig, type LogLevel } from './config.js';
+
+// 日志关联字段，同一次运行/同一个钱包的每一行日志都带有相同的值
+export interface LogContext {
+  runId?: string;
+  // 子钱包序号 (从1开始) 和地址
+  walletIndex?: number;
+  wallet?: string;
+}
+
+const LOG_FILE_NAME = 'potato-swap-bot.log';
+const REDACTED = '[REDACTED]';
+
+// 65字节签名 (r + s + v)
+const SIGNATURE_PATTERN = /0x[0-9a-fA-F]{130}\b/g;
+// 明确标出的私钥/助记词/密码，例如 "privateKey: 0x..."、"私钥=..."
+const LABELED_SECRET_PATTERN = /((?:private[_ ]?key|mnemonic|password|secret|私钥|助记词|密码)["']?\s*[:=：]\s*["']?)[^\s"',}]+/gi;
+// 日志附加字段中按名称整体隐藏的字段
+const SECRET_FIELDS = new Set(['privatekey', 'mnemonic', 'password', 'secret', 'signature']);
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+const secrets = new Set<string>();
+const runId = crypto.randomBytes(4).toString('hex');
+let logger: winston.Logger | undefined;
+
+// 本次运行的ID (进程启动时生成)
+export function getRunId(): string {
+  return runId;
+}
+
+// 在context下执行fn，期间 (包括其中所有异步调用) 输出的日志都带上这些字段，并发处理多个钱包时也不会混淆
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+// 登记需要从日志中隐藏的值 (私钥、助记词、密码)
+export function registerSecret(value: string | undefined) {
+  const secret = value?.trim();
+  if (!secret || secret.length < 8) {
+    return;
+  }
+  secrets.add(secret);
+  if (/^0x[0-9a-fA-F]+$/.test(secret)) {
+    secrets.add(secret.slice(2));
+  }
+}
+
+// 隐藏文本中已登记的密钥、签名和标出的私钥/密码
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of secrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result
+    .replace(SIGNATURE_PATTERN, REDACTED)
+    .replace(LABELED_SECRET_PATTERN, `$1${REDACTED}`);
+}
+
+function redactValue(key: string, value: unknown): unknown {
+  if (SECRET_FIELDS.has(key.toLowerCase())) {
+    return REDACTED;
+  }
+  if (typeof value === 'string') {
+    return redact(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue('', item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([field, item]) => [field, redactValue(field, item)]));
+  }
+  return value;
+}
+
+const redactFormat = winston.format(info => {
+  for (const key of Object.keys(info)) {
+    if (key !== 'level') {
+      info[key] = redactValue(key, info[key]);
+    }
+  }
+  return info;
+});
+
+// text格式: 时间 级别 [运行ID] [钱包序号 地址] 内容
+const textFormat = winston.format.printf(info => {
+  const tags = [`[${info.runId}]`];
+  if (info.wallet) {
+    const address = String(info.wallet);
+    tags.push(`[钱包${info.walletIndex !== undefined ? ` ${info.walletIndex}` : ''} ${address.slice(0, 6)}…${address.slice(-4)}]`);
+  }
+  return `${info.timestamp} ${info.level.toUpperCase().padEnd(5)} ${tags.join(' ')} ${info.message}`;
+});
+
+// 按配置创建日志器：控制台按LOG_FORMAT输出，日志文件固定为JSON并按大小轮转
+export function createLogger(config: LogConfig): winston.Logger {
+  const transports: winston.transport[] = [
+    new winston.transports.Console({
+      format: config.format === 'json' ? winston.format.json() : textFormat,
+      stderrLevels: ['error']
+    })
+  ];
+  if (config.dir) {
+    transports.push(new winston.transports.File({
+      filename: path.join(config.dir, LOG_FILE_NAME),
+      format: winston.format.json(),
+      maxsize: Math.round(config.maxSizeMb * 1024 * 1024),
+      maxFiles: config.maxFiles,
+      tailable: true
+    }));
+  }
+
+  return winston.createLogger({
+    level: config.level,
+    format: winston.format.combine(winston.format.timestamp(), redactFormat()),
+    transports
+  });
+}
+
+// 共享日志器，第一次使用时按配置创建 (winston的File传输会自动创建日志目录)
+export function getLogger(): winston.Logger {
+  if (!logger) {
+    const config = getConfig();
+    for (const secret of [config.mainWalletPrivateKey, config.walletStorePassword, config.subWalletMnemonic, ...config.subWalletPrivateKeys]) {
+      registerSecret(secret);
+    }
+    logger = createLogger(config.log);
+  }
+  return logger;
+}
+
+function write(level: LogLevel, args: unknown[], fields: Record<string, unknown> = {}) {
+  const target = getLogger();
+  if (!target.isLevelEnabled(level)) {
+    return;
+  }
+  target.log({ level, message: util.format(...args), runId, ...contextStorage.getStore(), ...fields });
+}
+
+// 把console.table的输出渲染为字符串
+function renderTable(rows: object[]): string {
+  let output = '';
+  const sink = new Writable({
+    write(chunk, _encoding, callback) {
+      output += chunk.toString();
+      callback();
+    }
+  });
+  new Console(sink).table(rows);
+  return output.trimEnd();
+}
+
+// 与console相同的调用方式，参数按util.format拼接为一行日志
+export const log = {
+  error: (...args: unknown[]) => write('error', args),
+  warn: (...args: unknown[]) => write('warn', args),
+  info: (...args: unknown[]) => write('info', args),
+  debug: (...args: unknown[]) => write('debug', args),
+  // 表格: text格式输出对齐的表格，json格式把每一行放在rows字段中
+  table: (rows: object[]) => {
+    if (getConfig().log.format === 'json') {
+      write('info', ['table'], { rows });
+    } else {
+      write('info', ['\n' + renderTable(rows)]);
+    }
+  }
+};
@@ -1,117 +1,86 @@
 import { ethers } from 'ethers';
-import { randomBytes } from 'crypto';
-import * as dotenv from 'dotenv';
-
-// 加载环境变量
-dotenv.config();
-
-// 从环境变量读取配置
-const config = {
-  // 子钱包数量
-  numberOfWallets: parseInt(process.env.NUMBER_OF_WALLETS || '2'),
-  // 每个子钱包需要的OKB数量
-  okbPerWallet: parseFloat(process.env.OKB_PER_WALLET || '0.08'),
-  // 每个子钱包需要的USDT数量
-  usdtPerWallet: parseFloat(process.env.USDT_PER_WALLET || '8'),
-  // 滑点容忍度 (百分比, 例如: 5 = 5%)
-  slippageTolerance: parseFloat(process.env.SLIPPAGE_TOLERANCE || '10'),
-  // 安全缓冲区 (百分比, 例如: 10 = 10%)
-  safetyBuffer: parseFloat(process.env.SAFETY_BUFFER || '10'),
-  // 每次添加流动性的USDT数量
-  usdtAmountPerLiquidity: parseFloat(process.env.USDT_AMOUNT_PER_LIQUIDITY || '3'),
-  // 代币合约地址
-  contracts: {
-    // OKB是X Layer的原生代币，不需要合约地址
-    usdt: process.env.USDT_CONTRACT || '0x1e4a5963abfd975d8c9021ce480b42188849d41d',
-    potatoSwapRouter: process.env.POTATO_SWAP_ROUTER || '0x881fb2f98c13d521009464e7d1cbf16e1b394e8e',
-    // WOKB (Wrapped OKB) 地址，用于查询池子比例
-    wokb: process.env.WOKB_CONTRACT || '0xe538905cf8410324e03a5a23c1c177a474d59b2b',
-    // WETH地址，用于价格计算
-    weth: process.env.WETH_CONTRACT || '0x5A77f1443D16ee5761d310e38b62f77f726bC71c'
-  },
-  // RPC节点和链信息
-  rpcUrl: process.env.RPC_URL || 'https://rpc.xlayer.tech',
-  chainId: parseInt(process.env.CHAIN_ID || '196'),
-  // 子钱包私钥
-  subWalletPrivateKeys: (process.env.SUB_WALLET_PRIVATE_KEYS || '').split(',').filter(key => key.trim() !== '')
-};
+import fs from 'fs';
+import { assertConfigured, getConfig, NATIVE_TOKEN, type LiquidityPairConfig } from './config.js';
+import { BotError, classifyError, decodeRevertReason, describeError, getErrorLabel, type ErrorKind } from './errors.js';
+import { erc20Contract, findPairAddress, pairContract, routerContract, type IERC20, type IPair } from './contracts.js';
+import { getRunId, log, withLogContext } from './logger.js';
+import { getProvider } from './provider.js';
+import { checkPoolPrice } from './price.js';
+import { retryOperation } from './retry.js';
+import { sendTransaction } from './transactions.js';
+import { getSubWalletSource, type SubWallet } from './wallet-store.js';
+import { getWalletConfigPath, loadWalletConfig, openConfiguredWallets, walletConfigExists, type ConfiguredWallet } from './wallet-config.js';
+
+// 流动性操作选项
+export interface LiquidityOptions {
+  // dry-run: 完整执行校验和报价流程，但所有交易只做eth_call/estimateGas模拟，不发送
+  dryRun?: boolean;
+  // 余额不足时先兑换补足 (未指定时使用AUTO_REBALANCE)
+  rebalance?: boolean;
+  // 运行汇总JSON的写入路径 (未指定时使用LIQUIDITY_SUMMARY_PATH)
+  summaryPath?: string;
+  // 只处理该汇总文件中未成功的钱包
+  retryFrom?: string;
+}
+
+// 子钱包余额分类: ready(余额充足) / unbalanced(单边不足但总价值足够，启用自动兑换时可以添加) / underfunded(余额不足) / errored(余额查询失败)
+type WalletBalanceStatus = 'ready' | 'unbalanced' | 'underfunded' | 'errored';
+
+// 钱包持有的一种代币 (所有交易对中同一代币合并计算) 和一轮添加流动性需要的数量
+interface TokenBalanceCheck extends PoolToken {
+  balance: bigint;
+  required: bigint;
+}
+
+interface WalletBalanceCheck {
+  wallet: ConfiguredWallet;
+  // 在钱包列表中的序号 (从0开始)
+  index: number;
+  status: WalletBalanceStatus;
+  balances?: TokenBalanceCheck[];
+  error?: string;
+}
+
+// 汇总中单个钱包的结果
+interface WalletRunSummary {
+  index: number;
+  label: string;
+  address: string;
+  balanceStatus: WalletBalanceStatus;
+  // succeeded: 所有交易对都成功, failed: 至少一个交易对失败, skipped: 余额不足或查询失败，未执行
+  status: 'succeeded' | 'failed' | 'skipped';
+  // 各代币的余额 (代币符号 → 数量)
+  balances?: Record<string, string>;
+  error?: string;
+  pools: { pool: string; success: boolean; txHash?: string; error?: string; errorKind?: ErrorKind }[];
+}
 
-// 类型化接口定义
-interface IERC20 {
-  transfer(to: string, amount: bigint): Promise<ethers.ContractTransactionResponse>;
-  approve(spender: string, amount: bigint): Promise<ethers.ContractTransactionResponse>;
-  balanceOf(account: string): Promise<bigint>;
-  allowance(owner: string, spender: string): Promise<bigint>;
-}
-
-interface IRouter {
-  addLiquidity(
-    tokenA: string,
-    tokenB: string,
-    amountADesired: bigint,
-    amountBDesired: bigint,
-    amountAMin: bigint,
-    amountBMin: bigint,
-    to: string,
-    deadline: number
-  ): Promise<ethers.ContractTransactionResponse>;
-  factory(): Promise<string>;
-}
-
-interface IFactory {
-  getPair(tokenA: string, tokenB: string): Promise<string>;
-}
-
-interface IPair {
-  getReserves(): Promise<[bigint, bigint, number]>;
-  token0(): Promise<string>;
-  token1(): Promise<string>;
-}
-
-// ERC20 ABI
-const ERC20_ABI = [
-  "function transfer(address to, uint256 amount) external returns (bool)",
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function balanceOf(address account) external view returns (uint256)",
-  "function allowance(address owner, address spender) external view returns (uint256)",
-  "function totalSupply() external view returns (uint256)",
-  "function decimals() external view returns (uint8)"
-];
-
-// UniswapV2 Router ABI (PotatoSwap兼容)
-const ROUTER_ABI = [
-  "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) external returns (uint256 amountA, uint256 amountB, uint256 liquidity)",
-  "function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline) external payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity)",
-  "function factory() external pure returns (address)",
-  "function quote(uint256 amountA, uint256 reserveA, uint256 reserveB) external pure returns (uint256 amountB)",
-  "function getAmountsOut(uint256 amountIn, address[] calldata path) external view returns (uint256[] memory amounts)"
-];
-
-// Factory ABI
-const FACTORY_ABI = [
-  "function getPair(address tokenA, address tokenB) external view returns (address pair)"
-];
-
-// Pair ABI
-const PAIR_ABI = [
-  "function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
-  "function token0() external view returns (address)",
-  "function token1() external view returns (address)"
-];
+// 添加流动性的运行汇总，写入JSON文件供调度程序告警和重试
+interface LiquidityRunSummary {
+  runId: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  total: number;
+  ready: number;
+  unbalanced: number;
+  underfunded: number;
+  errored: number;
+  succeeded: number;
+  failureCount: number;
+  // 未成功的钱包地址，可用 --retry <汇总路径> 只重试这些钱包
+  failedWallets: string[];
+  wallets: WalletRunSummary[];
+}
 
 // 验证配置
 function validateConfig() {
-  const requiredFields = [
+  const config = getConfig();
+  assertConfigured([
     { field: 'contracts.usdt', value: config.contracts.usdt },
     { field: 'contracts.potatoSwapRouter', value: config.contracts.potatoSwapRouter },
     { field: 'contracts.wokb', value: config.contracts.wokb }
-  ];
-
-  for (const { field, value } of requiredFields) {
-    if (!value || value.includes('Your') || value.includes('Address')) {
-      throw new Error(`请在.env文件中设置实际的 ${field} 地址，当前值: ${value}`);
-    }
-  }
+  ]);
 
   // 验证滑点配置
   if (config.slippageTolerance < 0 || config.slippageTolerance > 50) {
@@ -123,496 +92,1049 @@ function validateConfig() {
     throw new Error(`安全缓冲区必须在0-50%之间，当前值: ${config.safetyBuffer}%`);
   }
 
-  // 验证子钱包私钥
-  if (config.subWalletPrivateKeys.length === 0) {
-    throw new Error('请在.env文件中设置SUB_WALLET_PRIVATE_KEYS，用逗号分隔多个私钥');
+  // 验证移除比例配置
+  if (config.removeLiquidityPercent <= 0 || config.removeLiquidityPercent > 100) {
+    throw new Error(`移除流动性比例必须在0-100%之间，当前值: ${config.removeLiquidityPercent}%`);
   }
 
-  if (config.subWalletPrivateKeys.length !== config.numberOfWallets) {
-    throw new Error(`子钱包私钥数量(${config.subWalletPrivateKeys.length})与配置的钱包数量(${config.numberOfWallets})不匹配`);
-  }
+  // 有钱包配置文件时按文件校验每个钱包；使用助记词或加密钱包库时，由钱包库负责校验；否则校验旧版明文私钥
+  if (walletConfigExists()) {
+    const file = loadWalletConfig();
+    log.info(`📄 钱包配置文件: ${getWalletConfigPath()} (启用 ${file.wallets.filter(wallet => wallet.enabled).length}/${file.wallets.length} 个钱包)`);
+  } else if (getSubWalletSource() === 'legacy') {
+    if (config.subWalletPrivateKeys.length === 0) {
+      throw new Error('未找到子钱包，请设置SUB_WALLET_MNEMONIC，或运行distribute.ts生成钱包库，或在.env文件中设置SUB_WALLET_PRIVATE_KEYS');
+    }
 
-  // 验证每个私钥格式
-  for (let i = 0; i < config.subWalletPrivateKeys.length; i++) {
-    const privateKey = config.subWalletPrivateKeys[i]?.trim();
-    if (!privateKey?.match(/^0x[0-9a-fA-F]{64}$/)) {
-      throw new Error(`子钱包私钥 ${i + 1} 格式不正确，应为64位十六进制字符串，以0x开头`);
+    if (config.subWalletPrivateKeys.length !== config.numberOfWallets) {
+      throw new Error(`子钱包私钥数量(${config.subWalletPrivateKeys.length})与配置的钱包数量(${config.numberOfWallets})不匹配`);
+    }
+
+    // 验证每个私钥格式
+    for (let i = 0; i < config.subWalletPrivateKeys.length; i++) {
+      const privateKey = config.subWalletPrivateKeys[i]?.trim();
+      if (!privateKey?.match(/^0x[0-9a-fA-F]{64}$/)) {
+        throw new Error(`子钱包私钥 ${i + 1} 格式不正确，应为64位十六进制字符串，以0x开头`);
+      }
     }
   }
 
-  console.log('✅ 配置验证通过');
-  console.log(`📊 当前配置: 滑点容忍度=${config.slippageTolerance}%, 安全缓冲区=${config.safetyBuffer}%`);
+  log.info('✅ 配置验证通过');
+  log.info(`📊 当前配置: 滑点容忍度=${config.slippageTolerance}%, 安全缓冲区=${config.safetyBuffer}%`);
+  log.info(`📊 流动性交易对: ${config.liquidityPairs.map(pair => pair.name).join(', ')}`);
 }
 
-// 备用RPC端点列表
-const rpcUrls = [
-  'https://rpc.xlayer.tech',
-  'https://xlayerrpc.okx.com',
-  'https://endpoints.omniatech.io/v1/xlayer/mainnet/public'
-];
+// 检查子钱包余额，把每个钱包分为 ready(余额充足) / unbalanced(可通过兑换补足) / underfunded(余额不足) / errored(查询失败)
+// 需要的数量按配置的交易对计算，每个交易对的储备只读取一次
+async function checkWalletBalances(wallets: ConfiguredWallet[], pools: LiquidityPool[]): Promise<WalletBalanceCheck[]> {
+  const provider = await getProvider();
+  log.info('\n检查子钱包余额...');
+  const reserves = await Promise.all(pools.map(pool => retryOperation(() => getPoolReserves(pool, provider))));
+  const checks: WalletBalanceCheck[] = [];
 
-// 创建带故障转移的提供者
-function createProvider() {
-  for (const rpcUrl of rpcUrls) {
+  for (let i = 0; i < wallets.length; i++) {
+    const wallet = wallets[i]!;
     try {
-      console.log(`尝试连接RPC: ${rpcUrl}`);
-      return new ethers.JsonRpcProvider(rpcUrl, {
-        chainId: config.chainId,
-        name: "X Layer"
-      });
+      const balances = await getWalletTokenBalances(wallet, pools, reserves);
+
+      log.info(`钱包 ${i + 1} ${wallet.label} (${wallet.address}):`);
+      for (const item of balances) {
+        const sufficient = item.balance >= item.required;
+        log.info(`  ${item.symbol}: ${ethers.formatUnits(item.balance, item.decimals)} (需要: ${ethers.formatUnits(item.required, item.decimals)}) ${sufficient ? '✅' : `❌ ${item.symbol}余额不足`}`);
+      }
+
+      let status: WalletBalanceStatus = 'ready';
+      if (!balances.every(item => item.balance >= item.required)) {
+        status = canRebalanceBalances(wallet, pools, reserves, balances) ? 'unbalanced' : 'underfunded';
+      }
+      if (status === 'unbalanced') {
+        log.info(`  ⚖️  按池子价格折算总价值足够，可通过兑换补足 (--rebalance 或 AUTO_REBALANCE=true)`);
+      }
+
+      checks.push({ wallet, index: i, status, balances });
     } catch (error) {
-      console.log(`RPC ${rpcUrl} 连接失败，尝试下一个...`);
+      log.error(`钱包 ${i + 1} 余额检查失败: ${describeError(error)}`);
+      checks.push({ wallet, index: i, status: 'errored', error: describeError(error) });
     }
   }
-  throw new Error('所有RPC端点都不可用');
+
+  return checks;
+}
+
+// 检查子钱包余额，所有钱包余额都充足时返回true
+async function validateWalletBalances(wallets: ConfiguredWallet[], pools: LiquidityPool[]): Promise<boolean> {
+  const checks = await checkWalletBalances(wallets, pools);
+  return checks.every(check => check.status === 'ready');
 }
 
-const provider = createProvider();
 
-// 定义钱包接口
-interface Wallet {
-  privateKey: string;
+// 交易对中的一个代币 (原生OKB使用WOKB地址查找交易对)
+interface PoolToken {
   address: string;
-  wallet: ethers.Wallet;
+  symbol: string;
+  decimals: number;
+  native: boolean;
 }
 
-// 从环境变量加载子钱包
-async function loadSubWallets(): Promise<Wallet[]> {
-  const wallets: Wallet[] = [];
-  
-  for (let i = 0; i < config.subWalletPrivateKeys.length; i++) {
-    const privateKey = config.subWalletPrivateKeys[i]!.trim();
-    const wallet = new ethers.Wallet(privateKey, provider);
-    
-    wallets.push({
-      privateKey,
-      address: wallet.address,
-      wallet
-    });
-    console.log(`加载子钱包 ${i + 1}: ${wallet.address}`);
-  }
-  return wallets;
+// 解析后的流动性交易对
+interface LiquidityPool {
+  name: string;
+  tokenA: PoolToken;
+  tokenB: PoolToken;
+  pairAddress: string;
 }
 
-// 检查子钱包余额是否满足要求
-async function validateWalletBalances(wallets: Wallet[]): Promise<boolean> {
-  console.log('\n检查子钱包余额...');
-  let allValid = true;
-
-  for (let i = 0; i < wallets.length; i++) {
-    const wallet = wallets[i]!;
-    try {
-      // 检查OKB余额
-      const okbBalance = await wallet.wallet.provider!.getBalance(wallet.address);
-      const requiredOkb = ethers.parseEther(config.okbPerWallet.toString());
-      
-      // 检查USDT余额
-      const usdtContract = new ethers.Contract(config.contracts.usdt, ERC20_ABI, wallet.wallet) as unknown as IERC20;
-      const usdtBalance = await usdtContract.balanceOf(wallet.address);
-      const requiredUsdt = ethers.parseUnits(config.usdtPerWallet.toString(), 6);
+// 读取代币的symbol和decimals，原生OKB固定为18位
+async function resolvePoolToken(token: string, runner: ethers.ContractRunner): Promise<PoolToken> {
+  const config = getConfig();
+  if (token === NATIVE_TOKEN) {
+    return { address: config.contracts.wokb, symbol: 'OKB', decimals: 18, native: true };
+  }
 
-      const okbBalanceFormatted = ethers.formatEther(okbBalance);
-      const usdtBalanceFormatted = ethers.formatUnits(usdtBalance, 6);
+  const contract = erc20Contract(token, runner);
+  const [symbol, decimals] = await Promise.all([
+    (contract as any).symbol(),
+    (contract as any).decimals()
+  ]);
+  return { address: token, symbol, decimals: Number(decimals), native: false };
+}
 
-      console.log(`钱包 ${i + 1} (${wallet.address}):`);
-      console.log(`  OKB: ${okbBalanceFormatted} (需要: ${config.okbPerWallet})`);
-      console.log(`  USDT: ${usdtBalanceFormatted} (需要: ${config.usdtPerWallet})`);
+// 解析配置的交易对: 读取两个代币的精度并查找交易对地址 (tokens缓存已读取的代币，多个交易对中的同一代币只读取一次)
+async function resolvePool(
+  pair: LiquidityPairConfig,
+  runner: ethers.ContractRunner,
+  tokens: Map<string, Promise<PoolToken>> = new Map()
+): Promise<LiquidityPool> {
+  const config = getConfig();
+  const resolveToken = (token: string) => {
+    const key = token.toLowerCase();
+    if (!tokens.has(key)) {
+      tokens.set(key, resolvePoolToken(token, runner));
+    }
+    return tokens.get(key)!;
+  };
+  const [tokenA, tokenB] = await Promise.all([resolveToken(pair.tokenA), resolveToken(pair.tokenB)]);
 
-      const okbSufficient = okbBalance >= requiredOkb;
-      const usdtSufficient = usdtBalance >= requiredUsdt;
+  const pairAddress = await findPairAddress(config.contracts.potatoSwapRouter, tokenA.address, tokenB.address, runner);
+  if (!pairAddress) {
+    throw new Error(`未找到${tokenA.symbol}/${tokenB.symbol}配对池 (${pair.name})`);
+  }
 
-      if (!okbSufficient) {
-        console.log(`  ❌ OKB余额不足`);
-        allValid = false;
-      } else {
-        console.log(`  ✅ OKB余额充足`);
-      }
+  return { name: `${tokenA.symbol}/${tokenB.symbol}`, tokenA, tokenB, pairAddress };
+}
 
-      if (!usdtSufficient) {
-        console.log(`  ❌ USDT余额不足`);
-        allValid = false;
-      } else {
-        console.log(`  ✅ USDT余额充足`);
-      }
+// 解析LIQUIDITY_PAIRS中的所有交易对
+async function getLiquidityPools(runner: ethers.ContractRunner): Promise<LiquidityPool[]> {
+  const pools = [];
+  const tokens = new Map<string, Promise<PoolToken>>();
+  for (const pair of getConfig().liquidityPairs) {
+    pools.push(await resolvePool(pair, runner, tokens));
+  }
+  return pools;
+}
 
-    } catch (error) {
-      console.error(`钱包 ${i + 1} 余额检查失败:`, (error as Error).message);
-      allValid = false;
-    }
+// 读取钱包持有的代币数量 (原生OKB读取账户余额)
+async function getTokenBalance(wallet: ethers.Wallet, token: PoolToken): Promise<bigint> {
+  if (token.native) {
+    return wallet.provider!.getBalance(wallet.address);
   }
+  return (erc20Contract(token.address, wallet) as unknown as IERC20).balanceOf(wallet.address);
+}
 
-  return allValid;
+// 一轮添加流动性投入的tokenB数量: 钱包配置的投入量扣除安全缓冲区
+function getLiquidityAmountB(walletInfo: ConfiguredWallet, tokenB: PoolToken): bigint {
+  const config = getConfig();
+  const targetAmountB = walletInfo.liquidityUsdt * (100 - config.safetyBuffer) / 100;
+  return ethers.parseUnits(targetAmountB.toFixed(tokenB.decimals), tokenB.decimals);
 }
 
+// 同一代币在多个交易对中合并计算时使用的键 (原生OKB与WOKB地址相同，需要区分)
+function getTokenKey(token: PoolToken): string {
+  return token.native ? NATIVE_TOKEN : token.address.toLowerCase();
+}
 
-// 重试机制包装函数
-async function retryOperation<T>(operation: () => Promise<T>, maxRetries: number = 3, delay: number = 2000): Promise<T> {
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await operation();
-    } catch (error: any) {
-      const isLastAttempt = i === maxRetries - 1;
-      
-      // 检查是否是网络相关错误
-      if (error?.code === 'UNKNOWN_ERROR' && error?.error?.code === -32011) {
-        console.log(`网络错误，尝试重试 (${i + 1}/${maxRetries}): ${error.error.message}`);
-        
-        if (!isLastAttempt) {
-          console.log(`等待 ${delay}ms 后重试...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-      }
-      
-      // 其他错误或最后一次尝试，直接抛出
-      throw error;
+// 一轮添加流动性在交易对中需要的数量: tokenB按投入量，tokenA按池子储备折算
+function getPoolRequirement(
+  walletInfo: ConfiguredWallet,
+  pool: LiquidityPool,
+  { reserveA, reserveB }: { reserveA: bigint; reserveB: bigint }
+): { amountA: bigint; amountB: bigint } {
+  const amountB = getLiquidityAmountB(walletInfo, pool.tokenB);
+  return { amountA: reserveB > BigInt(0) ? (amountB * reserveA) / reserveB : BigInt(0), amountB };
+}
+
+// 钱包在所有交易对中各代币的余额和一轮需要的数量，原生OKB另加gas预留
+async function getWalletTokenBalances(
+  walletInfo: ConfiguredWallet,
+  pools: LiquidityPool[],
+  reserves: { reserveA: bigint; reserveB: bigint }[]
+): Promise<TokenBalanceCheck[]> {
+  const config = getConfig();
+  const items = new Map<string, TokenBalanceCheck>();
+  pools.forEach((pool, i) => {
+    const { amountA, amountB } = getPoolRequirement(walletInfo, pool, reserves[i]!);
+    for (const [token, amount] of [[pool.tokenA, amountA], [pool.tokenB, amountB]] as [PoolToken, bigint][]) {
+      const key = getTokenKey(token);
+      const item = items.get(key) ?? { ...token, balance: BigInt(0), required: token.native ? ethers.parseEther(config.gasReserveOkb.toString()) : BigInt(0) };
+      item.required += amount;
+      items.set(key, item);
     }
-  }
-  throw new Error('重试次数已用完');
+  });
+
+  const balances = [...items.values()];
+  await Promise.all(balances.map(async item => {
+    item.balance = await retryOperation(() => getTokenBalance(walletInfo.wallet, item));
+  }));
+  return balances;
 }
 
-// 批准代币用于流动性添加
-async function approveTokenForSwap(wallet: ethers.Wallet, tokenAddress: string, spender: string, amount: bigint, decimals: number = 18) {
-  return retryOperation(async () => {
-    const contract = new ethers.Contract(tokenAddress, ERC20_ABI, wallet);
-    
-    // 检查当前授权额度
-    const currentAllowance = await (contract as any).allowance(wallet.address, spender);
-    
-    // 获取代币的总供应量作为最大授权数量
-    const totalSupply = await (contract as any).totalSupply();
-    
-    console.log(`当前授权额度: ${ethers.formatUnits(currentAllowance, decimals)}, 需要: ${ethers.formatUnits(amount, decimals)}`);
-    console.log(`代币总供应量: ${ethers.formatUnits(totalSupply, decimals)}`);
-    
-    // 检查是否已经有足够的授权（总供应量的一半以上视为充分授权）
-    if (currentAllowance >= totalSupply / BigInt(2)) {
-      console.log(`代币 ${tokenAddress} 已有充分授权额度，跳过授权`);
-      return null;
+// 单边余额不足时，按各交易对的池子价格判断两种代币的总价值是否够一轮投入 (rebalanceForLiquidity可以兑换补足)；
+// 依次扣除每个交易对用掉的余额，多个交易对共用的代币不重复计算，原生OKB扣除gas预留
+function canRebalanceBalances(
+  walletInfo: ConfiguredWallet,
+  pools: LiquidityPool[],
+  reserves: { reserveA: bigint; reserveB: bigint }[],
+  balances: TokenBalanceCheck[]
+): boolean {
+  const gasReserve = ethers.parseEther(getConfig().gasReserveOkb.toString());
+  const remaining = new Map(balances.map(item => [getTokenKey(item), item.native ? item.balance - gasReserve : item.balance]));
+  const available = (token: PoolToken) => {
+    const balance = remaining.get(getTokenKey(token)) ?? BigInt(0);
+    return balance > BigInt(0) ? balance : BigInt(0);
+  };
+
+  return pools.every((pool, i) => {
+    const { reserveA, reserveB } = reserves[i]!;
+    if (reserveA === BigInt(0) || reserveB === BigInt(0)) {
+      return false;
     }
-    
-    // 如果有旧的授权，先重置为0（某些代币需要）
-    if (currentAllowance > 0) {
-      console.log(`重置旧授权额度...`);
-      const resetTx = await (contract as any).approve(spender, 0);
-      await resetTx.wait();
+    const { amountA, amountB } = getPoolRequirement(walletInfo, pool, reserves[i]!);
+    const availableA = available(pool.tokenA);
+    const availableB = available(pool.tokenB);
+
+    // 以tokenB计价比较，先用掉tokenB，不足部分按价格折算为tokenA扣除
+    const needed = (amountA * reserveB) / reserveA + amountB;
+    if ((availableA * reserveB) / reserveA + availableB < needed) {
+      return false;
     }
-    
-    // 使用代币总供应量作为授权额度
-    const tx = await (contract as any).approve(spender, totalSupply);
-    
-    console.log(`批准代币总供应量 ${ethers.formatUnits(totalSupply, decimals)} 给 ${spender}, 交易哈希: ${tx.hash}`);
-    await tx.wait(); // 等待交易确认
-    return tx.hash;
+    const spentB = availableB < needed ? availableB : needed;
+    remaining.set(getTokenKey(pool.tokenB), availableB - spentB);
+    remaining.set(getTokenKey(pool.tokenA), availableA - ((needed - spentB) * reserveA) / reserveB);
+    return true;
   });
 }
 
-// 使用DEX Router的getAmountsOut获取精确价格数据
-async function getOkbAmountFromRouter(wallet: ethers.Wallet, usdtAmount: bigint): Promise<bigint | null> {
+// 按tokenA/tokenB的顺序读取池子储备
+async function getPoolReserves(pool: LiquidityPool, runner: ethers.ContractRunner): Promise<{ reserveA: bigint; reserveB: bigint }> {
+  const pair = pairContract(pool.pairAddress, runner) as unknown as IPair;
+  const [reserve0, reserve1] = await pair.getReserves();
+  const token0 = await pair.token0();
+
+  if (token0.toLowerCase() === pool.tokenA.address.toLowerCase()) {
+    return { reserveA: reserve0, reserveB: reserve1 };
+  }
+  return { reserveA: reserve1, reserveB: reserve0 };
+}
+
+// dry-run模拟结果
+interface DryRunReport {
+  wouldRevert: boolean;
+  revertReason?: string;
+  needsApproval: boolean;
+  amountAMin: bigint;
+  amountBMin: bigint;
+  amountA?: bigint;
+  amountB?: bigint;
+  liquidity?: bigint;
+  gasLimit?: bigint;
+  gasCost?: bigint;
+}
+
+// 按APPROVAL_MODE计算本次授权额度
+function getApprovalAmount(amount: bigint): bigint {
+  const config = getConfig();
+  switch (config.approvalMode) {
+    case 'unlimited':
+      return ethers.MaxUint256;
+    case 'multiple':
+      return (amount * BigInt(Math.round(config.approvalMultiplier * 100))) / BigInt(100);
+    default:
+      return amount;
+  }
+}
+
+// 批准代币用于流动性添加 (已有额度不少于本次需要的数量时跳过)
+async function approveTokenForSwap(
+  wallet: ethers.Wallet,
+  tokenAddress: string,
+  spender: string,
+  amount: bigint,
+  decimals: number = 18,
+  options: LiquidityOptions = {}
+) {
+  const config = getConfig();
+  const contract = erc20Contract(tokenAddress, wallet);
+  
+  // 检查当前授权额度
+  const currentAllowance: bigint = await retryOperation(() => (contract as any).allowance(wallet.address, spender));
+  log.info(`当前授权额度: ${ethers.formatUnits(currentAllowance, decimals)}, 需要: ${ethers.formatUnits(amount, decimals)}`);
+  
+  if (currentAllowance >= amount) {
+    log.info(`代币 ${tokenAddress} 已有足够授权额度，跳过授权`);
+    return null;
+  }
+  
+  const approveAmount = getApprovalAmount(amount);
+  const approveLabel = approveAmount === ethers.MaxUint256 ? '无限额度' : ethers.formatUnits(approveAmount, decimals);
+  
+  // dry-run模式只估算授权交易的gas，不发送
+  if (options.dryRun) {
+    const approveGas = await retryOperation(() => (contract as any).approve.estimateGas(spender, approveAmount));
+    log.info(`🧪 [dry-run] 需要授权 ${tokenAddress} 给 ${spender} (${config.approvalMode}: ${approveLabel})，预计gas: ${approveGas}，跳过发送`);
+    return null;
+  }
+  
+  // 如果有旧的授权，先重置为0（某些代币需要）
+  if (currentAllowance > 0) {
+    log.info(`重置旧授权额度...`);
+    const resetTx = await sendTransaction(wallet, await (contract as any).approve.populateTransaction(spender, 0));
+    await resetTx.wait();
+  }
+  
+  const tx = await sendTransaction(wallet, await (contract as any).approve.populateTransaction(spender, approveAmount));
+  
+  log.info(`批准代币 ${approveLabel} 给 ${spender} (授权策略: ${config.approvalMode}), 交易哈希: ${tx.hash}`);
+  const receipt = await tx.wait(); // 等待交易确认 (长时间未确认会自动加速)
+  return receipt.hash;
+}
+
+// 使用DEX Router的getAmountsOut获取精确价格数据: 投入amountB个tokenB时需要的tokenA数量
+async function getPairAmountFromRouter(wallet: ethers.Wallet, pool: LiquidityPool, amountB: bigint): Promise<bigint | null> {
+  const config = getConfig();
+  const { tokenA, tokenB } = pool;
   try {
-    const routerContract = new ethers.Contract(config.contracts.potatoSwapRouter, ROUTER_ABI, wallet);
+    const router = routerContract(config.contracts.potatoSwapRouter, wallet);
     
-    console.log('🔍 尝试通过DEX Router getAmountsOut获取价格信息...');
+    log.info('🔍 尝试通过DEX Router getAmountsOut获取价格信息...');
     
-    // 方法1: 直接使用getAmountsOut进行USDT → WOKB的转换
-    // 路径: [USDT, WOKB] (因为addLiquidityETH最终使用的是OKB，而WOKB=OKB在价值上)
-    const path = [config.contracts.usdt, config.contracts.wokb];
+    // 方法1: 直接使用getAmountsOut进行tokenB → tokenA的转换
+    // 原生OKB使用WOKB地址 (addLiquidityETH最终使用的是OKB，而WOKB=OKB在价值上)
+    const path = [tokenB.address, tokenA.address];
     
     try {
-      const amounts = await routerContract.getAmountsOut(usdtAmount, path);
-      const okbAmount = amounts[1]; // 第二个元素是输出数量
+      const amounts = await (router as any).getAmountsOut(amountB, path);
+      const amountA = amounts[1]; // 第二个元素是输出数量
       
-      console.log(`✅ getAmountsOut结果:`);
-      console.log(`  输入USDT: ${ethers.formatUnits(usdtAmount, 6)}`);
-      console.log(`  输出WOKB: ${ethers.formatEther(okbAmount)}`);
-      console.log(`  路径: USDT → WOKB`);
-      console.log(`  计算价格: 1 OKB = ${(Number(ethers.formatUnits(usdtAmount, 6)) / Number(ethers.formatEther(okbAmount))).toFixed(2)} USDT`);
+      log.info(`✅ getAmountsOut结果:`);
+      log.info(`  输入${tokenB.symbol}: ${ethers.formatUnits(amountB, tokenB.decimals)}`);
+      log.info(`  输出${tokenA.symbol}: ${ethers.formatUnits(amountA, tokenA.decimals)}`);
+      log.info(`  路径: ${tokenB.symbol} → ${tokenA.symbol}`);
+      log.info(`  计算价格: 1 ${tokenA.symbol} = ${(Number(ethers.formatUnits(amountB, tokenB.decimals)) / Number(ethers.formatUnits(amountA, tokenA.decimals))).toFixed(2)} ${tokenB.symbol}`);
       
-      return okbAmount;
+      return amountA;
       
     } catch (routerError) {
-      console.log('⚠️  getAmountsOut失败，尝试查询池子储备:', (routerError as Error).message);
+      log.info('⚠️  getAmountsOut失败，尝试查询池子储备:', (routerError as Error).message);
     }
     
     // 方法2: 备用方案 - 直接查询池子储备计算价格
-    const factoryAddress = await routerContract.factory();
-    const factoryContract = new ethers.Contract(factoryAddress, FACTORY_ABI, wallet);
-    
-    // 查找USDT/WOKB配对
-    const pairAddress = await factoryContract.getPair(config.contracts.usdt, config.contracts.wokb);
-    
-    if (pairAddress === ethers.ZeroAddress) {
-      console.log('⚠️  未找到USDT/WOKB配对池');
-      return null;
-    }
-    
-    // 获取配对池储备
-    const pairContract = new ethers.Contract(pairAddress, PAIR_ABI, wallet);
-    const [reserve0, reserve1] = await pairContract.getReserves();
-    const token0 = await pairContract.token0();
-    
-    let usdtReserve, wokbReserve;
-    if (token0.toLowerCase() === config.contracts.usdt.toLowerCase()) {
-      usdtReserve = reserve0;
-      wokbReserve = reserve1;
-    } else {
-      usdtReserve = reserve1;
-      wokbReserve = reserve0;
-    }
+    const { reserveA, reserveB } = await getPoolReserves(pool, wallet);
     
     // 检查储备是否合理
-    if (wokbReserve < ethers.parseEther("0.1")) {
-      console.log('⚠️  WOKB池子储备过低，可能不是主要交易池');
+    if (reserveA < ethers.parseUnits('0.1', tokenA.decimals)) {
+      log.info(`⚠️  ${tokenA.symbol}池子储备过低，可能不是主要交易池`);
       return null;
     }
     
     // 使用路由器的quote函数计算精确数量  
-    const okbAmount = await routerContract.quote(usdtAmount, usdtReserve, wokbReserve);
+    const amountA = await (router as any).quote(amountB, reserveB, reserveA);
     
-    console.log(`✅ 池子Quote结果:`);
-    console.log(`  池子USDT储备: ${ethers.formatUnits(usdtReserve, 6)}`);
-    console.log(`  池子WOKB储备: ${ethers.formatEther(wokbReserve)}`);
-    console.log(`  投入USDT: ${ethers.formatUnits(usdtAmount, 6)}`);
-    console.log(`  需要OKB: ${ethers.formatEther(okbAmount)}`);
-    console.log(`  计算价格: 1 OKB = ${(Number(ethers.formatUnits(usdtAmount, 6)) / Number(ethers.formatEther(okbAmount))).toFixed(2)} USDT`);
+    log.info(`✅ 池子Quote结果:`);
+    log.info(`  池子${tokenB.symbol}储备: ${ethers.formatUnits(reserveB, tokenB.decimals)}`);
+    log.info(`  池子${tokenA.symbol}储备: ${ethers.formatUnits(reserveA, tokenA.decimals)}`);
+    log.info(`  投入${tokenB.symbol}: ${ethers.formatUnits(amountB, tokenB.decimals)}`);
+    log.info(`  需要${tokenA.symbol}: ${ethers.formatUnits(amountA, tokenA.decimals)}`);
+    log.info(`  计算价格: 1 ${tokenA.symbol} = ${(Number(ethers.formatUnits(amountB, tokenB.decimals)) / Number(ethers.formatUnits(amountA, tokenA.decimals))).toFixed(2)} ${tokenB.symbol}`);
     
-    return okbAmount;
+    return amountA;
     
   } catch (error) {
-    console.log('❌ DEX价格获取完全失败:', (error as Error).message);
+    log.info('❌ DEX价格获取完全失败:', (error as Error).message);
     return null;
   }
 }
 
-// 获取流动池当前价格比例的辅助函数 (USDT/WOKB池子) - 保留作为备用
-async function getPoolRatio(wallet: ethers.Wallet, usdtAddress: string): Promise<{okbReserve: bigint, usdtReserve: bigint} | null> {
+// 获取流动池当前储备的辅助函数 - 保留作为备用
+async function getPoolRatio(wallet: ethers.Wallet, pool: LiquidityPool): Promise<{ reserveA: bigint, reserveB: bigint } | null> {
   try {
-    // 直接使用独立的合约实例，避免 contract runner 问题
-    const routerContract = new ethers.Contract(config.contracts.potatoSwapRouter, ROUTER_ABI, wallet);
-    const factoryAddress = await (routerContract as any).factory();
-    const factoryContract = new ethers.Contract(
-      factoryAddress,
-      FACTORY_ABI,
-      wallet
-    ) as unknown as IFactory;
-    
-    // 查询WOKB/USDT池子比例（用于addLiquidityETH的价格参考）
-    const pairAddress = await factoryContract.getPair(config.contracts.wokb, usdtAddress);
-    
-    if (pairAddress === ethers.ZeroAddress) {
-      console.log('WOKB/USDT 流动池不存在，使用配置的默认比例');
-      return null;
-    }
-    
-    // 使用独立的 provider 实例来查询池子信息
-    const pairContract = new ethers.Contract(pairAddress, PAIR_ABI, wallet) as unknown as IPair;
-    
-    const [reserve0, reserve1] = await pairContract.getReserves();
-    const token0 = await pairContract.token0();
-    
-    // 确定WOKB和USDT在池子中的位置
-    let okbReserve, usdtReserve;
-    if (token0.toLowerCase() === config.contracts.wokb.toLowerCase()) {
-      okbReserve = reserve0;
-      usdtReserve = reserve1;
-    } else {
-      okbReserve = reserve1;
-      usdtReserve = reserve0;
-    }
-    
-    console.log(`池子储备量 - WOKB: ${ethers.formatEther(okbReserve)}, USDT: ${ethers.formatUnits(usdtReserve, 6)}`);
-    return { okbReserve, usdtReserve };
+    const reserves = await getPoolReserves(pool, wallet);
+    log.info(`池子储备量 - ${pool.tokenA.symbol}: ${ethers.formatUnits(reserves.reserveA, pool.tokenA.decimals)}, ${pool.tokenB.symbol}: ${ethers.formatUnits(reserves.reserveB, pool.tokenB.decimals)}`);
+    return reserves;
   } catch (error) {
-    console.log('获取池子信息失败，使用配置的默认比例:', (error as Error).message);
+    log.info('获取池子信息失败，使用配置的默认比例:', (error as Error).message);
     return null;
   }
 }
 
-// 在PotatoSwap添加流动性 (OKB/USDT)
-async function addLiquidityETH(
+// 整数平方根 (牛顿迭代)
+function sqrtBigInt(value: bigint): bigint {
+  if (value < BigInt(2)) {
+    return value;
+  }
+  let x = value;
+  let y = (x + BigInt(1)) / BigInt(2);
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / BigInt(2);
+  }
+  return x;
+}
+
+// 单边投入时应先兑换的数量：兑换后剩余部分与换得的代币正好符合兑换后的池子比例 (UniswapV2 0.3%手续费)
+function getZapSwapAmount(amountIn: bigint, reserveIn: bigint): bigint {
+  return (sqrtBigInt(reserveIn * (amountIn * BigInt(3988000) + reserveIn * BigInt(3988009))) - reserveIn * BigInt(1997)) / BigInt(1994);
+}
+
+// 通过路由器用amountIn个from代币兑换to代币，最小接收数量按getAmountsOut报价和滑点计算
+async function swapExactIn(
+  wallet: ethers.Wallet,
+  routerAddress: string,
+  from: PoolToken,
+  to: PoolToken,
+  amountIn: bigint
+): Promise<bigint> {
+  const config = getConfig();
+  const router = routerContract(routerAddress, wallet);
+  const path = [from.address, to.address];
+
+  const amounts = await (router as any).getAmountsOut(amountIn, path);
+  const expectedOut: bigint = amounts[1];
+  const amountOutMin = (expectedOut * BigInt(Math.floor((100 - config.slippageTolerance) * 100))) / BigInt(10000);
+  const deadline = Math.floor(Date.now() / 1000) + 600;
+
+  log.info(`🔄 兑换 ${ethers.formatUnits(amountIn, from.decimals)} ${from.symbol} → 预计 ${ethers.formatUnits(expectedOut, to.decimals)} ${to.symbol} (最少 ${ethers.formatUnits(amountOutMin, to.decimals)}, 滑点${config.slippageTolerance}%)`);
+
+  let request;
+  if (from.native) {
+    request = await (router as any).swapExactETHForTokens.populateTransaction(amountOutMin, path, wallet.address, deadline, { value: amountIn });
+  } else {
+    await approveTokenForSwap(wallet, from.address, routerAddress, amountIn, from.decimals);
+    const method = to.native ? 'swapExactTokensForETH' : 'swapExactTokensForTokens';
+    request = await (router as any)[method].populateTransaction(amountIn, amountOutMin, path, wallet.address, deadline);
+  }
+
+  const tx = await sendTransaction(wallet, request);
+  log.info(`兑换交易已发送, 交易哈希: ${tx.hash}`);
+  const receipt = await tx.wait();
+  log.info(`兑换成功, 交易哈希: ${receipt.hash}`);
+  return expectedOut;
+}
+
+// 余额不足以按目标数量添加流动性时，把多余一侧的代币兑换成缺少的一侧 (只兑换补足目标所需的部分)，
+// 返回兑换后可以添加的数量；原生OKB会保留gasReserveOkb用于支付gas
+async function rebalanceForLiquidity(
+  wallet: ethers.Wallet,
+  routerAddress: string,
+  pool: LiquidityPool,
+  amountA: bigint,
+  amountB: bigint,
+  options: LiquidityOptions = {}
+): Promise<{ amountA: bigint; amountB: bigint }> {
+  const config = getConfig();
+  const { tokenA, tokenB } = pool;
+  const gasReserve = ethers.parseEther(config.gasReserveOkb.toString());
+
+  const getAvailable = async (token: PoolToken) => {
+    const balance = await getTokenBalance(wallet, token);
+    const spendable = token.native ? balance - gasReserve : balance;
+    return spendable > BigInt(0) ? spendable : BigInt(0);
+  };
+  const minOf = (a: bigint, b: bigint) => (a < b ? a : b);
+
+  let availableA = await getAvailable(tokenA);
+  let availableB = await getAvailable(tokenB);
+  if (availableA >= amountA && availableB >= amountB) {
+    return { amountA, amountB };
+  }
+
+  // 按池子价格把缺口折算成多余一侧的数量，计算单边投入的最优兑换量
+  let { reserveA, reserveB } = await getPoolReserves(pool, wallet);
+  let from: PoolToken, to: PoolToken, amountIn: bigint;
+  if (availableA < amountA) {
+    const budgetB = minOf(availableB, amountB + ((amountA - availableA) * reserveB) / reserveA);
+    const excessB = budgetB - (availableA * reserveB) / reserveA;
+    [from, to, amountIn] = [tokenB, tokenA, excessB > BigInt(0) ? getZapSwapAmount(excessB, reserveB) : BigInt(0)];
+  } else {
+    const budgetA = minOf(availableA, amountA + ((amountB - availableB) * reserveA) / reserveB);
+    const excessA = budgetA - (availableB * reserveA) / reserveB;
+    [from, to, amountIn] = [tokenA, tokenB, excessA > BigInt(0) ? getZapSwapAmount(excessA, reserveA) : BigInt(0)];
+  }
+
+  if (amountIn <= BigInt(0)) {
+    log.info(`⚠️  ${pool.name} 两种代币都不足，无法通过兑换补足`);
+    return { amountA, amountB };
+  }
+
+  log.info(`⚖️  ${to.symbol}不足 (可用 ${ethers.formatUnits(to === tokenA ? availableA : availableB, to.decimals)}, 需要 ${ethers.formatUnits(to === tokenA ? amountA : amountB, to.decimals)})，先用${from.symbol}兑换补足`);
+  if (options.dryRun) {
+    log.info(`🧪 [dry-run] 需要兑换 ${ethers.formatUnits(amountIn, from.decimals)} ${from.symbol} → ${to.symbol}，跳过发送`);
+    return { amountA, amountB };
+  }
+
+  await swapExactIn(wallet, routerAddress, from, to, amountIn);
+
+  // 兑换后按实际余额和新的池子比例确定投入数量，不超过原目标
+  availableA = await getAvailable(tokenA);
+  availableB = await getAvailable(tokenB);
+  if (availableA >= amountA && availableB >= amountB) {
+    return { amountA, amountB };
+  }
+
+  ({ reserveA, reserveB } = await getPoolReserves(pool, wallet));
+  let adjustedA = minOf(amountA, availableA);
+  let adjustedB = (adjustedA * reserveB) / reserveA;
+  if (adjustedB > minOf(amountB, availableB)) {
+    adjustedB = minOf(amountB, availableB);
+    adjustedA = (adjustedB * reserveA) / reserveB;
+  }
+  log.info(`按兑换后的余额调整投入数量: ${tokenA.symbol} ${ethers.formatUnits(adjustedA, tokenA.decimals)}, ${tokenB.symbol} ${ethers.formatUnits(adjustedB, tokenB.decimals)}`);
+  return { amountA: adjustedA, amountB: adjustedB };
+}
+
+// 按路由器_addLiquidity的逻辑计算实际存入的数量：先以tokenA为准用quote计算tokenB，超过期望数量时改为以tokenB为准
+async function getOptimalAmounts(
+  router: ethers.Contract,
+  amountA: bigint,
+  amountB: bigint,
+  reserveA: bigint,
+  reserveB: bigint
+): Promise<{ amountA: bigint; amountB: bigint }> {
+  if (reserveA === BigInt(0) && reserveB === BigInt(0)) {
+    return { amountA, amountB };
+  }
+
+  const amountBOptimal: bigint = await (router as any).quote(amountA, reserveA, reserveB);
+  if (amountBOptimal <= amountB) {
+    return { amountA, amountB: amountBOptimal };
+  }
+  const amountAOptimal: bigint = await (router as any).quote(amountB, reserveB, reserveA);
+  return { amountA: amountAOptimal, amountB };
+}
+
+// 路由器添加流动性的调用参数: 交易对包含原生OKB时使用addLiquidityETH，否则使用addLiquidity
+interface AddLiquidityCall {
+  method: 'addLiquidity' | 'addLiquidityETH';
+  args: unknown[];
+  value: bigint;
+}
+
+function buildAddLiquidityCall(
+  pool: LiquidityPool,
+  amounts: { amountA: bigint; amountB: bigint; amountAMin: bigint; amountBMin: bigint },
+  to: string,
+  deadline: number
+): AddLiquidityCall {
+  const { tokenA, tokenB } = pool;
+  const { amountA, amountB, amountAMin, amountBMin } = amounts;
+
+  if (tokenA.native) {
+    return { method: 'addLiquidityETH', args: [tokenB.address, amountB, amountBMin, amountAMin, to, deadline], value: amountA };
+  }
+  if (tokenB.native) {
+    return { method: 'addLiquidityETH', args: [tokenA.address, amountA, amountAMin, amountBMin, to, deadline], value: amountB };
+  }
+  return { method: 'addLiquidity', args: [tokenA.address, tokenB.address, amountA, amountB, amountAMin, amountBMin, to, deadline], value: BigInt(0) };
+}
+
+// 在PotatoSwap添加流动性 (任意交易对)
+// 只重试只读的RPC调用，发送交易不重试：广播结果未知时再发会重复提交，确认等待在tx.wait中重试
+async function addLiquidity(
   wallet: ethers.Wallet, 
   routerAddress: string,
-  usdtAddress: string, 
-  usdtAmount: bigint,
-  okbAmount: bigint
-) {
-  return retryOperation(async () => {
-    // 只需要批准USDT，OKB作为原生代币不需要批准
-    await approveTokenForSwap(wallet, usdtAddress, routerAddress, usdtAmount, 6);
-    
-    // 添加最终验证：确认余额和授权都足够
-    console.log(`\n最终验证 - 准备添加流动性:`);
-    console.log(`  需要 OKB: ${ethers.formatEther(okbAmount)}`);
-    console.log(`  需要 USDT: ${ethers.formatUnits(usdtAmount, 6)}`);
-    
-    // 验证余额
-    const finalOkbBalance = await wallet.provider!.getBalance(wallet.address);
-    const usdtContract = new ethers.Contract(usdtAddress, ERC20_ABI, wallet);
-    const finalUsdtBalance = await (usdtContract as any).balanceOf(wallet.address);
-    
-    console.log(`  实际 OKB余额: ${ethers.formatEther(finalOkbBalance)}`);
-    console.log(`  实际 USDT余额: ${ethers.formatUnits(finalUsdtBalance, 6)}`);
+  pool: LiquidityPool,
+  amountA: bigint,
+  amountB: bigint,
+  options: LiquidityOptions = {}
+): Promise<string | DryRunReport> {
+  const config = getConfig();
+  const dryRun = options.dryRun === true;
+  const { tokenA, tokenB } = pool;
+  const tokens: [PoolToken, bigint][] = [[tokenA, amountA], [tokenB, amountB]];
+  // 只需要批准ERC20代币，OKB作为原生代币不需要批准
+  for (const [token, amount] of tokens) {
+    if (!token.native) {
+      await approveTokenForSwap(wallet, token.address, routerAddress, amount, token.decimals, options);
+    }
+  }
+  
+  // 添加最终验证：确认余额和授权都足够
+  log.info(`\n最终验证 - 准备添加流动性 (${pool.name}):`);
+  const problems: BotError[] = [];
+  let needsApproval = false;
+  for (const [token, amount] of tokens) {
+    const balance = await retryOperation(() => getTokenBalance(wallet, token));
+    log.info(`  需要 ${token.symbol}: ${ethers.formatUnits(amount, token.decimals)}, 实际余额: ${ethers.formatUnits(balance, token.decimals)}`);
+    if (balance < amount) {
+      problems.push(new BotError('insufficient-balance', `${token.symbol}余额不足: 需要${ethers.formatUnits(amount, token.decimals)}, 实际${ethers.formatUnits(balance, token.decimals)}`));
+    }
     
-    // 验证USDT授权
-    const finalUsdtAllowance = await (usdtContract as any).allowance(wallet.address, routerAddress);
-    console.log(`  USDT授权额度: ${ethers.formatUnits(finalUsdtAllowance, 6)}`);
+    if (token.native) {
+      continue;
+    }
     
-    // 检查是否一切就绪
-    if (finalOkbBalance < okbAmount) {
-      throw new Error(`OKB余额不足: 需要${ethers.formatEther(okbAmount)}, 实际${ethers.formatEther(finalOkbBalance)}`);
+    // 验证授权
+    const contract = erc20Contract(token.address, wallet);
+    const allowance: bigint = await retryOperation(() => (contract as any).allowance(wallet.address, routerAddress));
+    log.info(`  ${token.symbol}授权额度: ${ethers.formatUnits(allowance, token.decimals)}`);
+    if (allowance < amount) {
+      needsApproval = true;
+      problems.push(new BotError('insufficient-allowance', `${token.symbol}授权不足: 需要${ethers.formatUnits(amount, token.decimals)}, 实际${ethers.formatUnits(allowance, token.decimals)}`));
     }
-    if (finalUsdtBalance < usdtAmount) {
-      throw new Error(`USDT余额不足: 需要${ethers.formatUnits(usdtAmount, 6)}, 实际${ethers.formatUnits(finalUsdtBalance, 6)}`);
+  }
+  
+  // 检查是否一切就绪 (dry-run模式下只提示，交由模拟调用给出回退原因)
+  if (problems.length > 0) {
+    if (!dryRun) {
+      throw problems[0];
     }
-    // 检查USDT授权是否足够（需要获取总供应量进行比较）
-    const usdtTotalSupply = await (usdtContract as any).totalSupply();
-    if (finalUsdtAllowance < usdtAmount && finalUsdtAllowance < usdtTotalSupply / BigInt(2)) {
-      throw new Error(`USDT授权不足: 需要${ethers.formatUnits(usdtAmount, 6)}, 实际${ethers.formatUnits(finalUsdtAllowance, 6)}`);
+    problems.forEach(problem => log.info(`  ⚠️  [dry-run] ${problem.message}`));
+  }
+  
+  log.info(dryRun ? `🧪 [dry-run] 开始模拟添加流动性...` : `✅ 所有检查通过，开始添加流动性...`);
+  
+  // 创建路由器合约实例
+  const router = routerContract(routerAddress, wallet);
+  
+  // 发送前重新读取储备，按路由器_addLiquidity的逻辑计算实际会存入的数量，最小数量围绕它设置
+  const { reserveA, reserveB } = await retryOperation(() => getPoolReserves(pool, wallet));
+  const optimal = await retryOperation(() => getOptimalAmounts(router, amountA, amountB, reserveA, reserveB));
+  const slippageMultiplier = BigInt(Math.floor((100 - config.slippageTolerance) * 100));
+  const amountAMin = (optimal.amountA * slippageMultiplier) / BigInt(10000);
+  const amountBMin = (optimal.amountB * slippageMultiplier) / BigInt(10000);
+  
+  // 期望比例偏差: 期望数量的比例 (amountB/amountA) 与池子当前比例 (reserveB/reserveA) 的偏差，
+  // 多出的一侧不会存入，由路由器退回或不转出；按百分比保留4位小数的定点数计算，避免大额wei转Number丢失精度
+  const desired = amountB * reserveA;
+  const current = amountA * reserveB;
+  const ratioDeviation = reserveA > BigInt(0) && current > BigInt(0)
+    ? ethers.formatUnits((desired > current ? desired - current : current - desired) * BigInt(1000000) / current, 4)
+    : '0';
+  
+  log.info(`池子储备 ${tokenA.symbol}: ${ethers.formatUnits(reserveA, tokenA.decimals)}, ${tokenB.symbol}: ${ethers.formatUnits(reserveB, tokenB.decimals)}`);
+  log.info(`预计存入 ${tokenA.symbol}: ${ethers.formatUnits(optimal.amountA, tokenA.decimals)}, ${tokenB.symbol}: ${ethers.formatUnits(optimal.amountB, tokenB.decimals)}`);
+  log.info(`滑点容忍度: ${config.slippageTolerance}%, 期望比例偏差: ${ratioDeviation}%`);
+  log.info(`最小存入 ${tokenA.symbol}: ${ethers.formatUnits(amountAMin, tokenA.decimals)}, ${tokenB.symbol}: ${ethers.formatUnits(amountBMin, tokenB.decimals)}`);
+  
+  // 设置截止时间为10分钟后
+  const deadline = Math.floor(Date.now() / 1000) + 600;
+  const call = buildAddLiquidityCall(pool, { amountA, amountB, amountAMin, amountBMin }, wallet.address, deadline);
+  
+  if (dryRun) {
+    return retryOperation(() => simulateAddLiquidity(router, pool, call, { needsApproval, amountAMin, amountBMin }));
+  }
+  
+  // 交易对包含OKB时使用addLiquidityETH，OKB作为value发送
+  const tx = await sendTransaction(wallet, await (router as any)[call.method].populateTransaction(...call.args, { value: call.value }));
+  
+  log.info(`添加流动性交易已发送 (${call.method}), 交易哈希: ${tx.hash}`);
+  const receipt = await tx.wait(); // 等待交易确认 (长时间未确认会自动加速)
+  log.info(`添加流动性成功, 交易哈希: ${receipt.hash}`);
+  return receipt.hash;
+}
+
+// 用eth_call和estimateGas模拟添加流动性，返回预计铸造的LP、gas费用和回退原因
+async function simulateAddLiquidity(
+  router: ethers.Contract,
+  pool: LiquidityPool,
+  call: AddLiquidityCall,
+  base: Pick<DryRunReport, 'needsApproval' | 'amountAMin' | 'amountBMin'>
+): Promise<DryRunReport> {
+  const { tokenA, tokenB } = pool;
+  try {
+    const [first, second, liquidity] = await (router as any)[call.method].staticCall(...call.args, { value: call.value });
+    const gasLimit: bigint = await (router as any)[call.method].estimateGas(...call.args, { value: call.value });
+    const feeData = await router.runner!.provider!.getFeeData();
+    const gasCost = gasLimit * (feeData.gasPrice ?? BigInt(0));
+
+    // addLiquidityETH返回 (amountToken, amountETH)，OKB在tokenA一侧时需要交换顺序
+    const [amountA, amountB] = tokenA.native ? [second, first] : [first, second];
+
+    log.info(`🧪 [dry-run] 模拟成功:`);
+    log.info(`  预计铸造LP: ${ethers.formatEther(liquidity)}`);
+    log.info(`  实际存入 ${tokenA.symbol}: ${ethers.formatUnits(amountA, tokenA.decimals)}, ${tokenB.symbol}: ${ethers.formatUnits(amountB, tokenB.decimals)}`);
+    log.info(`  预计gas: ${gasLimit} (约 ${ethers.formatEther(gasCost)} OKB)`);
+
+    return { ...base, wouldRevert: false, amountA, amountB, liquidity, gasLimit, gasCost };
+  } catch (error) {
+    const revertReason = decodeRevertReason(error);
+    log.info(`🧪 [dry-run] 交易将会回退: ${revertReason}`);
+    if (base.needsApproval) {
+      log.info(`  (钱包尚未授权代币，实际运行时会先发送授权交易)`);
     }
-    
-    console.log(`✅ 所有检查通过，开始添加流动性...`);
-    
-    // 创建路由器合约实例
-    const router = new ethers.Contract(routerAddress, ROUTER_ABI, wallet);
-    
-    // 使用极保守的滑点策略 - 至少5%的缓冲
-    const conservativeSlippage = Math.max(config.slippageTolerance, 5); // 至少5%滑点保护
-    const slippageMultiplier = BigInt(100 - conservativeSlippage);
-    const usdtAmountMin = (usdtAmount * slippageMultiplier) / BigInt(100);
-    const okbAmountMin = (okbAmount * slippageMultiplier) / BigInt(100);
-    
-    console.log(`⚠️  使用超保守滑点: ${conservativeSlippage}% (配置${config.slippageTolerance}%)`);
-    console.log(`最小接收 USDT: ${ethers.formatUnits(usdtAmountMin, 6)}, OKB: ${ethers.formatEther(okbAmountMin)}`);
-    
-    // 设置截止时间为10分钟后
-    const deadline = Math.floor(Date.now() / 1000) + 600;
-    
-    // 使用addLiquidityETH函数，OKB作为ETH发送
-    const tx = await (router as any).addLiquidityETH(
-      usdtAddress,
-      usdtAmount,
-      usdtAmountMin,
-      okbAmountMin,
-      wallet.address,
-      deadline,
-      { value: okbAmount } // OKB作为value发送
-    );
-    
-    console.log(`添加流动性成功, 交易哈希: ${tx.hash}`);
-    await tx.wait(); // 等待交易确认
-    return tx.hash;
-  });
+    return { ...base, wouldRevert: true, revertReason };
+  }
+}
+
+// 交易对的LP代币合约
+function getLpPair(wallet: ethers.Wallet, pool: LiquidityPool): ethers.Contract {
+  return pairContract(pool.pairAddress, wallet);
+}
+
+// EIP-2612签名域 (与UniswapV2 LP代币一致，version为1)
+async function getPermitDomain(token: ethers.Contract): Promise<ethers.TypedDataDomain> {
+  return {
+    name: await (token as any).name(),
+    version: '1',
+    chainId: getConfig().chainId,
+    verifyingContract: await token.getAddress()
+  };
 }
 
-// 主函数
-async function main() {
+// 代币是否支持EIP-2612 permit: 合约的DOMAIN_SEPARATOR与按上面签名域计算的一致
+async function supportsPermit(token: ethers.Contract): Promise<boolean> {
   try {
-    // 0. 验证配置
-    console.log('验证配置...');
-    validateConfig();
-    
-    // 1. 加载子钱包
-    console.log('加载子钱包...');
-    const subWallets = await loadSubWallets();
-    
-    // 2. 检查子钱包余额
-    console.log('验证子钱包余额...');
-    const balancesValid = await validateWalletBalances(subWallets);
-    
-    if (!balancesValid) {
-      throw new Error('部分子钱包余额不足，请确保所有子钱包都有足够的OKB和USDT余额');
+    const [separator, domain] = await Promise.all([
+      (token as any).DOMAIN_SEPARATOR(),
+      getPermitDomain(token)
+    ]);
+    return separator === ethers.TypedDataEncoder.hashDomain(domain);
+  } catch {
+    return false;
+  }
+}
+
+// 生成EIP-2612 permit签名，免去单独的approve交易
+async function signPermit(wallet: ethers.Wallet, token: ethers.Contract, spender: string, value: bigint, deadline: number) {
+  const [domain, nonce] = await Promise.all([
+    getPermitDomain(token),
+    (token as any).nonces(wallet.address)
+  ]);
+  const types = {
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' }
+    ]
+  };
+
+  const signature = await wallet.signTypedData(domain, types, {
+    owner: wallet.address,
+    spender,
+    value,
+    nonce,
+    deadline
+  });
+  return ethers.Signature.from(signature);
+}
+
+// 从PotatoSwap移除流动性 (任意交易对，包含OKB时使用removeLiquidityETH)
+async function removeLiquidity(
+  wallet: ethers.Wallet,
+  routerAddress: string,
+  pool: LiquidityPool,
+  percent: number
+) {
+  const config = getConfig();
+  const { tokenA, tokenB } = pool;
+  const pair = getLpPair(wallet, pool);
+
+  // 读取LP余额并按比例计算要移除的数量
+  const lpBalance: bigint = await retryOperation(() => (pair as any).balanceOf(wallet.address));
+  if (lpBalance === BigInt(0)) {
+    log.info(`钱包 ${wallet.address} 没有${pool.name} LP代币，跳过`);
+    return null;
+  }
+  const liquidity = (lpBalance * BigInt(Math.round(percent * 100))) / BigInt(10000);
+
+  // 根据当前储备计算可取回的数量
+  const { reserveA, reserveB } = await retryOperation(() => getPoolReserves(pool, wallet));
+  const totalSupply: bigint = await retryOperation(() => (pair as any).totalSupply());
+
+  const expectedA = (liquidity * reserveA) / totalSupply;
+  const expectedB = (liquidity * reserveB) / totalSupply;
+
+  const slippageMultiplier = BigInt(Math.floor((100 - config.slippageTolerance) * 100));
+  const amountAMin = (expectedA * slippageMultiplier) / BigInt(10000);
+  const amountBMin = (expectedB * slippageMultiplier) / BigInt(10000);
+
+  log.info(`\n准备移除流动性 (${pool.name}):`);
+  log.info(`  LP余额: ${ethers.formatEther(lpBalance)}, 本次移除: ${ethers.formatEther(liquidity)} (${percent}%)`);
+  log.info(`  预计取回 ${tokenA.symbol}: ${ethers.formatUnits(expectedA, tokenA.decimals)}, ${tokenB.symbol}: ${ethers.formatUnits(expectedB, tokenB.decimals)}`);
+  log.info(`  最小接收 ${tokenA.symbol}: ${ethers.formatUnits(amountAMin, tokenA.decimals)}, ${tokenB.symbol}: ${ethers.formatUnits(amountBMin, tokenB.decimals)} (滑点${config.slippageTolerance}%)`);
+
+  // 记录移除前余额，用于统计实际取回数量
+  const aBefore = await retryOperation(() => getTokenBalance(wallet, tokenA));
+  const bBefore = await retryOperation(() => getTokenBalance(wallet, tokenB));
+
+  const router = routerContract(routerAddress, wallet);
+  const deadline = Math.floor(Date.now() / 1000) + 600;
+
+  // 交易对包含OKB时调用removeLiquidityETH，参数为 (token, liquidity, amountTokenMin, amountETHMin)
+  let method: string;
+  let args: unknown[];
+  if (tokenA.native || tokenB.native) {
+    const [token, tokenMin, okbMin] = tokenA.native ? [tokenB, amountBMin, amountAMin] : [tokenA, amountAMin, amountBMin];
+    method = 'removeLiquidityETH';
+    args = [token.address, liquidity, tokenMin, okbMin, wallet.address, deadline];
+  } else {
+    method = 'removeLiquidity';
+    args = [tokenA.address, tokenB.address, liquidity, amountAMin, amountBMin, wallet.address, deadline];
+  }
+
+  let tx;
+  const usePermit = config.removeWithPermit && await supportsPermit(pair);
+  if (config.removeWithPermit && !usePermit) {
+    log.info(`LP代币不支持permit，改用approve授权`);
+  }
+  if (usePermit) {
+    // 路由器按approveMax决定permit额度: 只有unlimited策略授权无限额度，否则正好是本次移除的数量，用完即清零
+    const approveMax = config.approvalMode === 'unlimited';
+    log.info(`使用permit签名授权LP代币...`);
+    const { v, r, s } = await retryOperation(() => signPermit(wallet, pair, routerAddress, approveMax ? ethers.MaxUint256 : liquidity, deadline));
+    tx = await sendTransaction(wallet, await (router as any)[`${method}WithPermit`].populateTransaction(...args, approveMax, v, r, s));
+  } else {
+    // LP代币需要先授权给路由器
+    await approveTokenForSwap(wallet, pool.pairAddress, routerAddress, liquidity, 18);
+    tx = await sendTransaction(wallet, await (router as any)[method].populateTransaction(...args));
+  }
+
+  log.info(`移除流动性交易已发送, 交易哈希: ${tx.hash}`);
+  const receipt = await tx.wait();
+
+  // OKB余额变化需要加回本次交易的gas费用
+  const received = async (token: PoolToken, before: bigint) => {
+    const after = await retryOperation(() => getTokenBalance(wallet, token));
+    return after - before + (token.native ? receipt.fee : BigInt(0));
+  };
+  const amountAReceived = await received(tokenA, aBefore);
+  const amountBReceived = await received(tokenB, bBefore);
+
+  log.info(`移除流动性成功: 取回 ${tokenA.symbol} ${ethers.formatUnits(amountAReceived, tokenA.decimals)}, ${tokenB.symbol} ${ethers.formatUnits(amountBReceived, tokenB.decimals)}`);
+  return { txHash: receipt.hash, liquidity, amountAReceived, amountBReceived };
+}
+
+// 输出dry-run汇总表
+function printDryRunSummary(
+  pool: LiquidityPool,
+  subWallets: SubWallet[],
+  results: PromiseSettledResult<{ walletIndex: number; success: boolean; report?: DryRunReport; error?: string }>[]
+) {
+  const { tokenA, tokenB } = pool;
+  log.info(`\n📋 dry-run汇总 (${pool.name}):`);
+  log.table(results.map((result, index) => {
+    const row = { 钱包: index + 1, 地址: subWallets[index]?.address ?? '' };
+    if (result.status === 'rejected') {
+      return { ...row, 结果: `❌ ${String(result.reason)}` };
     }
-    
-    console.log('✅ 所有子钱包余额充足，可以开始添加流动性');
-    
-    // 4. 每个子钱包在PotatoSwap添加流动性
-    console.log('\n开始添加流动性...');
+    const { report, error } = result.value;
+    if (!report) {
+      return { ...row, 结果: `❌ ${error}` };
+    }
+    return {
+      ...row,
+      预计LP: report.liquidity !== undefined ? ethers.formatEther(report.liquidity) : '-',
+      [`最小${tokenA.symbol}`]: ethers.formatUnits(report.amountAMin, tokenA.decimals),
+      [`最小${tokenB.symbol}`]: ethers.formatUnits(report.amountBMin, tokenB.decimals),
+      gas费用OKB: report.gasCost !== undefined ? ethers.formatEther(report.gasCost) : '-',
+      需要授权: report.needsApproval ? '是' : '否',
+      结果: report.wouldRevert ? `❌ 回退: ${report.revertReason}` : '✅ 成功'
+    };
+  }));
+}
+
+// 单个钱包在一个交易对中添加流动性：以tokenB为基准，按池子价格计算tokenA数量
+async function addWalletLiquidity(walletInfo: ConfiguredWallet, walletIndex: number, pool: LiquidityPool, options: LiquidityOptions) {
+  const config = getConfig();
+  const dryRun = options.dryRun === true;
+  const { tokenA, tokenB } = pool;
+  const tag = `[钱包 ${walletIndex + 1}]`;
+
+  log.info(`${tag} 开始添加流动性 (${pool.name})...`);
+  
+  // 获取流动池当前比例
+  await getPoolRatio(walletInfo.wallet, pool);
+  
+  // 🚀 新策略：以tokenB为基准，计算对应的tokenA数量
+  // 使用该钱包配置的流动性投入量，应用安全缓冲区
+  let amountB = getLiquidityAmountB(walletInfo, tokenB);
+  
+  // 🚀 使用DEX Router获取实时价格
+  log.info(`${tag} 🔍 获取DEX实时价格...`);
+  
+  // 尝试从DEX获取精确的tokenA数量 
+  const quotedAmountA = await getPairAmountFromRouter(walletInfo.wallet, pool, amountB);
+  
+  const quotedPrice = quotedAmountA && quotedAmountA > 0
+    ? Number(ethers.formatUnits(amountB, tokenB.decimals)) / Number(ethers.formatUnits(quotedAmountA, tokenA.decimals))
+    : null;
+  
+  // 与池子现价、TWAP和外部价格交叉校验，偏差过大或都不可用时放弃该钱包，不使用猜测的价格
+  await checkPoolPrice(pool, walletInfo.wallet.provider!, quotedPrice);
+  if (!quotedAmountA || quotedPrice === null) {
+    throw new Error(`无法获取${pool.name}的DEX报价，跳过该钱包`);
+  }
+  
+  log.info(`${tag} ✅ 使用DEX实时价格`);
+  let amountA = quotedAmountA;
+  log.info(`  📊 投入${tokenB.symbol}: ${ethers.formatUnits(amountB, tokenB.decimals)}`);
+  log.info(`  ⚖️  需要${tokenA.symbol}: ${ethers.formatUnits(amountA, tokenA.decimals)}`);
+  log.info(`  💱 DEX实时价格: 1 ${tokenA.symbol} = ${quotedPrice.toFixed(2)} ${tokenB.symbol}`);
+  log.info(`  🔗 交易对地址: ${pool.pairAddress}`);
+  
+  // 一侧余额不足时用另一侧兑换补足
+  if (options.rebalance ?? config.autoRebalance) {
+    ({ amountA, amountB } = await rebalanceForLiquidity(walletInfo.wallet, config.contracts.potatoSwapRouter, pool, amountA, amountB, options));
+  }
+  
+  // 验证钱包余额是否足够
+  for (const [token, amount] of [[tokenA, amountA], [tokenB, amountB]] as [PoolToken, bigint][]) {
+    const balance = await getTokenBalance(walletInfo.wallet, token);
+    if (balance < amount && !dryRun) {
+      throw new BotError('insufficient-balance', `${token.symbol}余额不足: 需要 ${ethers.formatUnits(amount, token.decimals)}, 当前 ${ethers.formatUnits(balance, token.decimals)}`);
+    }
+  }
+  
+  // 添加流动性 - 根据交易对选择addLiquidity或addLiquidityETH
+  return addLiquidity(
+    walletInfo.wallet,
+    config.contracts.potatoSwapRouter,
+    pool,
+    amountA,
+    amountB,
+    options
+  );
+}
+
+// 读取上次运行汇总中未成功的钱包地址
+function loadFailedWallets(summaryPath: string): Set<string> {
+  const summary = JSON.parse(fs.readFileSync(summaryPath, 'utf8')) as LiquidityRunSummary;
+  if (!Array.isArray(summary.failedWallets)) {
+    throw new Error(`${summaryPath} 不是有效的运行汇总文件`);
+  }
+  return new Set(summary.failedWallets.map(address => address.toLowerCase()));
+}
+
+// 输出并写入运行汇总
+function writeRunSummary(summary: LiquidityRunSummary, summaryPath: string) {
+  const failed = summary.wallets.filter(wallet => wallet.status !== 'succeeded' || wallet.balanceStatus !== 'ready');
+  log.info('\n📋 运行汇总:');
+  if (failed.length > 0) {
+    log.table(failed.map(wallet => {
+      const failedPool = wallet.pools.find(pool => !pool.success);
+      return {
+        钱包: wallet.index,
+        标签: wallet.label,
+        地址: wallet.address,
+        余额: wallet.balanceStatus,
+        结果: wallet.status,
+        错误类型: failedPool?.errorKind ? getErrorLabel(failedPool.errorKind) : '',
+        错误: wallet.error ?? failedPool?.error ?? ''
+      };
+    }));
+  }
+  log.info(`就绪 ${summary.ready}, 余额不足 ${summary.underfunded}, 查询失败 ${summary.errored}, 成功 ${summary.succeeded}/${summary.total}`);
+
+  if (summaryPath) {
+    fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2) + '\n');
+    log.info(`📄 运行汇总已写入: ${summaryPath}`);
+  }
+}
+
+// 添加流动性主函数：余额充足的钱包照常执行，余额不足或查询失败的钱包跳过并记入汇总
+async function addLiquidityMain(options: LiquidityOptions = {}): Promise<LiquidityRunSummary> {
+  const config = getConfig();
+  const dryRun = options.dryRun === true;
+  const startedAt = new Date().toISOString();
+
+  // 0. 验证配置
+  log.info('验证配置...');
+  validateConfig();
+  
+  // 1. 加载子钱包 (--retry 时只加载上次未成功的钱包)
+  log.info('加载子钱包...');
+  const provider = await getProvider();
+  let subWallets = await openConfiguredWallets(provider);
+  if (options.retryFrom) {
+    const failedWallets = loadFailedWallets(options.retryFrom);
+    subWallets = subWallets.filter(wallet => failedWallets.has(wallet.address.toLowerCase()));
+    log.info(`🔁 重试 ${options.retryFrom} 中未成功的钱包: ${subWallets.length} 个`);
+  }
+  
+  // 2. 读取交易对的代币精度和交易对地址，按交易对检查子钱包余额并分类
+  const pools = await getLiquidityPools(provider);
+  log.info('验证子钱包余额...');
+  const checks = await checkWalletBalances(subWallets, pools);
+  const ready = checks.filter(check => check.status === 'ready');
+  const unbalanced = checks.filter(check => check.status === 'unbalanced');
+  
+  // dry-run模拟所有钱包以查看具体结果，否则只处理余额充足的钱包；启用自动兑换时单边不足但总价值足够的钱包也会处理
+  const rebalance = options.rebalance ?? config.autoRebalance;
+  const isFunded = (check: WalletBalanceCheck) => check.status === 'ready' || (rebalance && check.status === 'unbalanced');
+  const runnable = dryRun ? checks : checks.filter(isFunded);
+  if (ready.length === checks.length) {
+    log.info('✅ 所有子钱包余额充足，可以开始添加流动性');
+  } else if (dryRun) {
+    log.info('⚠️  [dry-run] 部分子钱包余额不足，继续模拟以查看具体结果');
+  } else {
+    if (rebalance && unbalanced.length > 0) {
+      log.info(`⚖️  ${unbalanced.length} 个子钱包单边余额不足，将先兑换补足再添加流动性`);
+    }
+    if (runnable.length < checks.length) {
+      log.warn(`⚠️  ${checks.length - runnable.length} 个子钱包余额不足或查询失败，跳过；继续处理其余 ${runnable.length} 个钱包 (可运行 npm run distribute -- --top-up 补足差额)`);
+    }
+  }
+
+  if (dryRun) {
+    log.info('🧪 dry-run模式：所有交易仅模拟，不会发送');
+  }
+
+  const wallets: WalletRunSummary[] = checks.map(check => ({
+    index: check.index + 1,
+    label: check.wallet.label,
+    address: check.wallet.address,
+    balanceStatus: check.status,
+    status: runnable.includes(check) ? 'succeeded' : 'skipped',
+    ...(check.balances ? { balances: Object.fromEntries(check.balances.map(item => [item.symbol, ethers.formatUnits(item.balance, item.decimals)])) } : {}),
+    ...(check.error !== undefined ? { error: check.error } : {}),
+    pools: []
+  }));
+
+  // 3. 每个子钱包在PotatoSwap添加流动性，多个交易对依次处理
+  for (const pool of pools) {
+    log.info(`\n开始添加流动性 (${pool.name})...`);
     
     const liquidityPromises = [];
     const maxConcurrent = 3; // 限制并发数量以避免网络拥堵
     
     // 分批处理钱包以控制并发
-    for (let i = 0; i < subWallets.length; i += maxConcurrent) {
-      const batch = subWallets.slice(i, i + maxConcurrent);
+    for (let i = 0; i < runnable.length; i += maxConcurrent) {
+      const batch = runnable.slice(i, i + maxConcurrent);
       
-      const batchPromises = batch.map(async (walletInfo, index) => {
-        const globalIndex = i + index;
-        
+      const batchPromises = batch.map(async ({ wallet: walletInfo, index: walletIndex }) => {
         try {
-          console.log(`[钱包 ${globalIndex + 1}] 开始添加流动性...`);
-          
-          // routerContract 变量已移除，直接在 getPoolRatio 中创建
-          
-          // 获取流动池当前比例
-          const poolRatio = await getPoolRatio(
-            walletInfo.wallet,
-            config.contracts.usdt
+          const txHash = await withLogContext(
+            { walletIndex: walletIndex + 1, wallet: walletInfo.address },
+            () => addWalletLiquidity(walletInfo, walletIndex, pool, options)
           );
           
-          let okbAmount, usdtAmount;
-          
-          // 🚀 新策略：以USDT为基准，计算对应的WOKB数量
-          // 使用配置的固定USDT投入量，应用安全缓冲区
-          const targetUsdtAmount = config.usdtAmountPerLiquidity * (100 - config.safetyBuffer) / 100;
-          usdtAmount = ethers.parseUnits(targetUsdtAmount.toString(), 6);
-          
-          // 🚀 使用DEX Router获取实时价格
-          console.log(`[钱包 ${globalIndex + 1}] 🔍 获取DEX实时价格...`);
-          
-          // 尝试从DEX获取精确的OKB数量 
-          const quotedOkbAmount = await getOkbAmountFromRouter(walletInfo.wallet, usdtAmount);
-          
-          if (quotedOkbAmount && quotedOkbAmount > 0) {
-            console.log(`[钱包 ${globalIndex + 1}] ✅ 使用DEX实时价格`);
-            okbAmount = quotedOkbAmount;
-            
-            const dexPrice = Number(ethers.formatUnits(usdtAmount, 6)) / Number(ethers.formatEther(okbAmount));
-            console.log(`  📊 投入USDT: ${ethers.formatUnits(usdtAmount, 6)}`);
-            console.log(`  ⚖️  需要OKB: ${ethers.formatEther(okbAmount)}`);
-            console.log(`  💱 DEX实时价格: 1 OKB = ${dexPrice.toFixed(2)} USDT`);
-            console.log(`  🔗 使用正确的WOKB地址: ${config.contracts.wokb}`);
-            
-          } else {
-            console.log(`[钱包 ${globalIndex + 1}] ⚠️  DEX价格获取失败，使用参考价格`);
-            // 备用方案：使用验证的价格比例
-            const referencePrice = 168.44; // 基于成功交易0x79d24ee779fddd99f2d404ca06caacc1a37df075b04f4e9f4b8192c43ec6e902
-            const okbNeeded = Number(ethers.formatUnits(usdtAmount, 6)) / referencePrice;
-            okbAmount = ethers.parseEther(okbNeeded.toString());
-            
-            console.log(`  📊 投入USDT: ${ethers.formatUnits(usdtAmount, 6)}`);
-            console.log(`  ⚖️  需要OKB: ${ethers.formatEther(okbAmount)}`);
-            console.log(`  💱 参考价格: 1 OKB = ${referencePrice} USDT`);
-            console.log(`  🔗 基于成功交易: 0x79d24ee779fddd99f2d404ca06caacc1a37df075b04f4e9f4b8192c43ec6e902`);
-          }
-          
-          // 验证钱包余额是否足够
-          const okbBalance = await walletInfo.wallet.provider!.getBalance(walletInfo.wallet.address);
-          const usdtContract = new ethers.Contract(config.contracts.usdt, ERC20_ABI, walletInfo.wallet) as unknown as IERC20;
-          const usdtBalance = await usdtContract.balanceOf(walletInfo.wallet.address);
-          
-          if (okbBalance < okbAmount) {
-            throw new Error(`OKB余额不足: 需要 ${ethers.formatEther(okbAmount)}, 当前 ${ethers.formatEther(okbBalance)}`);
+          if (typeof txHash !== 'string') {
+            return {
+              walletIndex,
+              success: !txHash.wouldRevert,
+              report: txHash,
+              ...(txHash.revertReason ? { error: txHash.revertReason, errorKind: classifyError(txHash.revertReason).kind } : {})
+            };
           }
           
-          if (usdtBalance < usdtAmount) {
-            throw new Error(`USDT余额不足: 需要 ${ethers.formatUnits(usdtAmount, 6)}, 当前 ${ethers.formatUnits(usdtBalance, 6)}`);
-          }
-          
-          // 添加流动性 - 使用正确的addLiquidityETH函数
-          const txHash = await addLiquidityETH(
-            walletInfo.wallet,
-            config.contracts.potatoSwapRouter,
-            config.contracts.usdt,
-            usdtAmount,
-            okbAmount
-          );
-          
-          console.log(`[钱包 ${globalIndex + 1}] 流动性添加成功，交易哈希: ${txHash}`);
-          return { walletIndex: globalIndex, success: true, txHash };
+          log.info(`[钱包 ${walletIndex + 1}] 流动性添加成功，交易哈希: ${txHash}`);
+          return { walletIndex, success: true, txHash };
           
         } catch (error) {
-          console.error(`[钱包 ${globalIndex + 1}] 添加流动性失败:`, (error as Error).message);
-          return { walletIndex: globalIndex, success: false, error: (error as Error).message };
+          const classified = classifyError(error);
+          log.error(`[钱包 ${walletIndex + 1}] 添加流动性失败: ${describeError(classified)}`);
+          return { walletIndex, success: false, error: classified.message, errorKind: classified.kind };
         }
       });
       
@@ -621,24 +1143,150 @@ async function main() {
       liquidityPromises.push(...batchResults);
       
       // 批次间添加延迟
-      if (i + maxConcurrent < subWallets.length) {
-        console.log('等待下一批次...');
+      if (i + maxConcurrent < runnable.length) {
+        log.info('等待下一批次...');
         await new Promise(resolve => setTimeout(resolve, 2000));
       }
     }
     
+    // 记录每个钱包在该交易对的结果
+    liquidityPromises.forEach((result, position) => {
+      const wallet = wallets[runnable[position]!.index]!;
+      const outcome = result.status === 'fulfilled'
+        ? result.value
+        : { success: false, error: String(result.reason) };
+      wallet.pools.push({
+        pool: pool.name,
+        success: outcome.success,
+        ...('txHash' in outcome && outcome.txHash ? { txHash: outcome.txHash } : {}),
+        ...(outcome.error ? { error: outcome.error } : {}),
+        ...('errorKind' in outcome && outcome.errorKind ? { errorKind: outcome.errorKind } : {})
+      });
+      if (!outcome.success) {
+        wallet.status = 'failed';
+      }
+    });
+    
     // 统计结果
     const successCount = liquidityPromises.filter(result => 
       result.status === 'fulfilled' && result.value.success
     ).length;
     
-    console.log(`\n流动性添加完成: 成功 ${successCount}/${subWallets.length}`);
+    if (dryRun) {
+      printDryRunSummary(pool, runnable.map(check => check.wallet), liquidityPromises);
+    }
     
-    console.log('\n所有操作完成!');
-  } catch (error) {
-    console.error('操作失败:', error);
+    log.info(`\n${pool.name} 流动性添加${dryRun ? '模拟' : ''}完成: 成功 ${successCount}/${runnable.length}`);
   }
+  
+  // 5. 汇总：余额不足、查询失败和执行失败的钱包都计为未成功
+  const failedWallets = wallets.filter((wallet, i) => wallet.status !== 'succeeded' || !isFunded(checks[i]!));
+  const summary: LiquidityRunSummary = {
+    runId: getRunId(),
+    dryRun,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    total: wallets.length,
+    ready: ready.length,
+    unbalanced: unbalanced.length,
+    underfunded: checks.filter(check => check.status === 'underfunded').length,
+    errored: checks.filter(check => check.status === 'errored').length,
+    succeeded: wallets.length - failedWallets.length,
+    failureCount: failedWallets.length,
+    failedWallets: failedWallets.map(wallet => wallet.address),
+    wallets
+  };
+  writeRunSummary(summary, options.summaryPath ?? config.liquiditySummaryPath);
+
+  log.info('\n所有操作完成!');
+  return summary;
 }
 
-// 执行主函数
-main();
\ No newline at end of file
+// 移除流动性主函数
+async function removeLiquidityMain(options: LiquidityOptions = {}) {
+  const config = getConfig();
+
+  if (options.dryRun) {
+    throw new Error('remove模式暂不支持--dry-run');
+  }
+
+  log.info('验证配置...');
+  validateConfig();
+
+  log.info('加载子钱包...');
+  const provider = await getProvider();
+  const subWallets = await openConfiguredWallets(provider);
+  const pools = await getLiquidityPools(provider);
+
+  for (const pool of pools) {
+    const { tokenA, tokenB } = pool;
+    log.info(`\n开始移除流动性 (${pool.name}, 比例: ${config.removeLiquidityPercent}%)...`);
+
+    const results = [];
+    for (let i = 0; i < subWallets.length; i++) {
+      const walletInfo = subWallets[i]!;
+      try {
+        log.info(`[钱包 ${i + 1}] 开始移除流动性...`);
+        const result = await withLogContext({ walletIndex: i + 1, wallet: walletInfo.address }, () => removeLiquidity(
+          walletInfo.wallet,
+          config.contracts.potatoSwapRouter,
+          pool,
+          config.removeLiquidityPercent
+        ));
+        results.push({ walletIndex: i, address: walletInfo.address, success: true, result });
+      } catch (error) {
+        log.error(`[钱包 ${i + 1}] 移除流动性失败: ${describeError(error)}`);
+        results.push({ walletIndex: i, address: walletInfo.address, success: false, error: describeError(error) });
+      }
+    }
+
+    // 输出每个钱包取回的数量
+    log.info(`\n📋 移除流动性汇总 (${pool.name}):`);
+    let totalA = BigInt(0);
+    let totalB = BigInt(0);
+    for (const item of results) {
+      if (!item.success) {
+        log.info(`钱包 ${item.walletIndex + 1} (${item.address}): ❌ ${item.error}`);
+      } else if (!item.result) {
+        log.info(`钱包 ${item.walletIndex + 1} (${item.address}): 无LP，已跳过`);
+      } else {
+        totalA += item.result.amountAReceived;
+        totalB += item.result.amountBReceived;
+        log.info(`钱包 ${item.walletIndex + 1} (${item.address}): ${tokenA.symbol} ${ethers.formatUnits(item.result.amountAReceived, tokenA.decimals)}, ${tokenB.symbol} ${ethers.formatUnits(item.result.amountBReceived, tokenB.decimals)}, 交易哈希: ${item.result.txHash}`);
+      }
+    }
+
+    const successCount = results.filter(item => item.success).length;
+    log.info(`\n${pool.name} 流动性移除完成: 成功 ${successCount}/${subWallets.length}`);
+    log.info(`合计取回 ${tokenA.symbol}: ${ethers.formatUnits(totalA, tokenA.decimals)}, ${tokenB.symbol}: ${ethers.formatUnits(totalB, tokenB.decimals)}`);
+  }
+}
+
+export {
+  validateConfig,
+  validateWalletBalances,
+  checkWalletBalances,
+  approveTokenForSwap,
+  resolvePool,
+  getLiquidityPools,
+  getPoolReserves,
+  getPairAmountFromRouter,
+  getPoolRatio,
+  getZapSwapAmount,
+  getOptimalAmounts,
+  swapExactIn,
+  rebalanceForLiquidity,
+  addLiquidity,
+  simulateAddLiquidity,
+  getLpPair,
+  getApprovalAmount,
+  supportsPermit,
+  signPermit,
+  removeLiquidity,
+  getTokenBalance,
+  getWalletTokenBalances,
+  addWalletLiquidity,
+  addLiquidityMain,
+  removeLiquidityMain
+};
+export type { DryRunReport, LiquidityPool, LiquidityRunSummary, PoolToken, TokenBalanceCheck, WalletBalanceCheck, WalletBalanceStatus, WalletRunSummary };
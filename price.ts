@@ -0,0 +1,169 @@
+import { ethers } from 'ethers';
+import { getConfig } from './config.js';
+import { pairContract } from './contracts.js';
+import { classifyError } from './errors.js';
+import { log } from './logger.js';
+import type { LiquidityPool } from './potato.js';
+import { retryOperation } from './retry.js';
+
+// 单个价格来源的结果: price为1个tokenA值多少tokenB，不可用时为null
+export interface PriceSource {
+  name: string;
+  price: number | null;
+  error?: string;
+}
+
+// 价格校验结果: price为校验基准 (池子现价，不可用时取第一个可用来源)
+export interface PriceCheck {
+  price: number;
+  sources: PriceSource[];
+}
+
+const Q112 = BigInt(2) ** BigInt(112);
+const PRICE_FEED_ENDPOINT = 'price-feed'; // 外部价格接口与RPC节点分开熔断
+const PRICE_SCALE = BigInt(10) ** BigInt(36);
+
+function ratio(amountB: bigint, decimalsB: number, amountA: bigint, decimalsA: number): number {
+  return Number(ethers.formatUnits(amountB, decimalsB)) / Number(ethers.formatUnits(amountA, decimalsA));
+}
+
+async function isTokenAToken0(pair: ethers.Contract, pool: LiquidityPool): Promise<boolean> {
+  const token0: string = await (pair as any).token0();
+  return token0.toLowerCase() === pool.tokenA.address.toLowerCase();
+}
+
+// 池子现价 (按当前储备计算)
+export async function getSpotPrice(pool: LiquidityPool, runner: ethers.ContractRunner): Promise<number> {
+  const pair = pairContract(pool.pairAddress, runner);
+  const [reserve0, reserve1] = await (pair as any).getReserves();
+  const [reserveA, reserveB] = await isTokenAToken0(pair, pool) ? [reserve0, reserve1] : [reserve1, reserve0];
+  if (reserveA === BigInt(0) || reserveB === BigInt(0)) {
+    throw new Error('池子没有流动性');
+  }
+  return ratio(reserveB, pool.tokenB.decimals, reserveA, pool.tokenA.decimals);
+}
+
+// 读取某个区块时tokenA的累计价格 (UQ112x112)，并按当前储备补上最后一次更新之后经过的时间，与UniswapV2OracleLibrary一致
+async function readCumulativePrice(pair: ethers.Contract, aIsToken0: boolean, blockTag: number): Promise<{ cumulative: bigint; timestamp: number }> {
+  const [price0, price1, [reserve0, reserve1, timestampLast], block] = await Promise.all([
+    (pair as any).price0CumulativeLast({ blockTag }),
+    (pair as any).price1CumulativeLast({ blockTag }),
+    (pair as any).getReserves({ blockTag }),
+    pair.runner!.provider!.getBlock(blockTag)
+  ]);
+  if (!block) {
+    throw new Error(`区块 ${blockTag} 不存在`);
+  }
+
+  let cumulative: bigint = aIsToken0 ? price0 : price1;
+  const elapsed = (block.timestamp % 2 ** 32) - Number(timestampLast);
+  if (elapsed > 0 && reserve0 > BigInt(0) && reserve1 > BigInt(0)) {
+    const current = aIsToken0 ? (reserve1 * Q112) / reserve0 : (reserve0 * Q112) / reserve1;
+    cumulative += current * BigInt(elapsed);
+  }
+  return { cumulative, timestamp: block.timestamp };
+}
+
+// 最近windowBlocks个区块内的时间加权平均价格 (节点需要能查询窗口起点的历史状态)
+export async function getTwapPrice(pool: LiquidityPool, provider: ethers.Provider, windowBlocks: number): Promise<number> {
+  const pair = pairContract(pool.pairAddress, provider);
+  const aIsToken0 = await isTokenAToken0(pair, pool);
+  const latest = await provider.getBlockNumber();
+
+  const start = await readCumulativePrice(pair, aIsToken0, Math.max(0, latest - windowBlocks));
+  const end = await readCumulativePrice(pair, aIsToken0, latest);
+  const elapsed = end.timestamp - start.timestamp;
+  if (elapsed <= 0) {
+    throw new Error('时间窗口内没有经过时间');
+  }
+
+  // 累计价格之差 / 经过的秒数 = 平均的 (tokenB最小单位 / tokenA最小单位)，再换算精度
+  const rawPrice = ((end.cumulative - start.cumulative) * PRICE_SCALE) / (Q112 * BigInt(elapsed));
+  return Number(rawPrice) / Number(PRICE_SCALE) * 10 ** (pool.tokenA.decimals - pool.tokenB.decimals);
+}
+
+// 请求外部价格接口：网络错误和非2xx响应按错误分类抛出 (429限流和网关错误会重试，并遵守Retry-After)
+async function fetchFeed(url: string, timeoutMs: number): Promise<unknown> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) }).catch(error => {
+    // fetch把连接错误 (ECONNREFUSED等) 放在cause中
+    throw classifyError(error?.cause ?? error);
+  });
+  if (!response.ok) {
+    throw classifyError(Object.assign(new Error(`HTTP ${response.status}`), {
+      response: { status: response.status, headers: Object.fromEntries(response.headers) }
+    }));
+  }
+  return response.json();
+}
+
+// 外部价格接口，url中的{A}/{B}替换为代币符号，field为返回JSON中价格字段的路径 (例如 data.0.last)
+export async function getFeedPrice(pool: LiquidityPool, url: string, field: string, timeoutMs: number = 5000): Promise<number> {
+  const target = url.replace(/\{A\}/g, pool.tokenA.symbol).replace(/\{B\}/g, pool.tokenB.symbol);
+  let value: any = await retryOperation(() => fetchFeed(target, timeoutMs), { endpoint: PRICE_FEED_ENDPOINT });
+  for (const key of field.split('.')) {
+    value = value?.[key];
+  }
+  const price = Number(value);
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error(`字段 ${field} 不是有效价格: ${JSON.stringify(value)}`);
+  }
+  return price;
+}
+
+async function readSource(name: string, read: () => Promise<number>): Promise<PriceSource> {
+  try {
+    return { name, price: await read() };
+  } catch (error) {
+    return { name, price: null, error: (error as Error).message };
+  }
+}
+
+// 交叉校验交易对价格：路由器报价、池子现价、TWAP和外部价格 (可选) 与池子现价的偏差超过PRICE_MAX_DEVIATION，
+// 所有来源都不可用，或TWAP和外部价格都不可用 (未设置PRICE_ALLOW_SPOT_ONLY) 时抛出异常，由调用方跳过该钱包
+export async function checkPoolPrice(pool: LiquidityPool, provider: ethers.Provider, quotedPrice: number | null): Promise<PriceCheck> {
+  const config = getConfig();
+  const { tokenA, tokenB } = pool;
+
+  const sources: PriceSource[] = [
+    quotedPrice !== null
+      ? { name: '路由器报价', price: quotedPrice }
+      : { name: '路由器报价', price: null, error: 'getAmountsOut和quote均失败' },
+    await readSource('池子现价', () => getSpotPrice(pool, provider)),
+    await readSource(`TWAP(${config.priceTwapBlocks}区块)`, () => getTwapPrice(pool, provider, config.priceTwapBlocks))
+  ];
+  if (config.priceFeedUrl) {
+    sources.push(await readSource('外部价格', () => getFeedPrice(pool, config.priceFeedUrl, config.priceFeedField, config.rpcTimeoutMs)));
+  }
+
+  const available = sources.filter(source => source.price !== null) as (PriceSource & { price: number })[];
+  if (available.length === 0) {
+    throw new Error(`${pool.name} 所有价格来源都不可用: ${sources.map(source => `${source.name}: ${source.error}`).join('; ')}`);
+  }
+
+  // 添加流动性按池子储备比例存入，以池子现价为基准
+  const reference = sources[1]!.price ?? available[0]!.price;
+  const deviation = (price: number) => Math.abs(price / reference - 1) * 100;
+
+  log.info(`🔍 ${pool.name} 价格校验 (最大偏差 ${config.priceMaxDeviation}%):`);
+  for (const source of sources) {
+    log.info(source.price !== null
+      ? `  ${source.name}: 1 ${tokenA.symbol} = ${source.price.toFixed(6)} ${tokenB.symbol} (偏差 ${deviation(source.price).toFixed(2)}%)`
+      : `  ${source.name}: 不可用 (${source.error})`);
+  }
+
+  // 路由器报价和池子现价来自同一个池子，被操纵时一起偏移，需要TWAP或外部价格作为独立参照
+  const independent = sources.slice(2).filter(source => source.price !== null);
+  if (independent.length === 0) {
+    if (!config.priceAllowSpotOnly) {
+      throw new Error(`${pool.name} TWAP和外部价格都不可用，无法独立校验池子价格 (设置PRICE_ALLOW_SPOT_ONLY=true可只按池子价格校验)`);
+    }
+    log.warn(`⚠️  ${pool.name} TWAP和外部价格都不可用，只按池子价格校验，没有独立的价格参照 (PRICE_ALLOW_SPOT_ONLY=true)`);
+  }
+
+  const diverged = available.filter(source => deviation(source.price) > config.priceMaxDeviation);
+  if (diverged.length > 0) {
+    throw new Error(`${pool.name} 价格来源偏差超过${config.priceMaxDeviation}%: ${diverged.map(source => `${source.name} ${source.price.toFixed(6)} (偏差 ${deviation(source.price).toFixed(2)}%)`).join(', ')}，池子现价 ${reference.toFixed(6)}`);
+  }
+
+  return { price: reference, sources };
+}
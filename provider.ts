@@ -0,0 +1,115 @@
+import { ethers } from 'ethers';
+import { getConfig, type BotConfig } from './config.js';
+import { log } from './logger.js';
+
+// 单个RPC节点的健康检查结果
+export interface RpcHealth {
+  url: string;
+  healthy: boolean;
+  chainId?: number;
+  blockNumber?: number;
+  latencyMs?: number;
+  error?: string;
+}
+
+// 为单个节点创建提供者，固定网络以免节点不可用时ethers反复重试探测网络
+function createRpcProvider(url: string, chainId: number): ethers.JsonRpcProvider {
+  const network = new ethers.Network('X Layer', chainId);
+  return new ethers.JsonRpcProvider(url, network, { staticNetwork: network });
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`请求超时 (${timeoutMs}ms)`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// 探测RPC节点：链ID、最新区块和响应延迟
+export async function probeRpcEndpoint(url: string, chainId: number, timeoutMs: number = 5000): Promise<RpcHealth> {
+  const provider = createRpcProvider(url, chainId);
+  const startedAt = Date.now();
+
+  try {
+    const [remoteChainId, blockNumber] = await withTimeout(Promise.all([
+      provider.send('eth_chainId', []),
+      provider.send('eth_blockNumber', [])
+    ]), timeoutMs);
+    const latencyMs = Date.now() - startedAt;
+
+    if (Number(remoteChainId) !== chainId) {
+      return { url, healthy: false, chainId: Number(remoteChainId), latencyMs, error: `链ID不匹配: ${Number(remoteChainId)} (需要 ${chainId})` };
+    }
+    return { url, healthy: true, chainId, blockNumber: Number(blockNumber), latencyMs };
+  } catch (error) {
+    return { url, healthy: false, error: (error as Error).message };
+  } finally {
+    provider.destroy();
+  }
+}
+
+// 探测所有配置的节点，返回按延迟排序的健康节点 (落后最新区块过多的节点视为不健康)
+export async function checkRpcEndpoints(config: BotConfig = getConfig()): Promise<RpcHealth[]> {
+  const urls = [...new Set([config.rpcUrl, ...config.rpcFallbackUrls])];
+  const results = await Promise.all(urls.map(url => probeRpcEndpoint(url, config.chainId, config.rpcTimeoutMs)));
+
+  const latestBlock = Math.max(0, ...results.filter(item => item.healthy).map(item => item.blockNumber!));
+  for (const item of results) {
+    if (item.healthy && latestBlock - item.blockNumber! > config.rpcMaxBlockLag) {
+      item.healthy = false;
+      item.error = `落后最新区块 ${latestBlock - item.blockNumber!} 个`;
+    }
+  }
+
+  for (const item of results) {
+    if (item.healthy) {
+      log.info(`✅ RPC ${item.url}: 区块 ${item.blockNumber}, 延迟 ${item.latencyMs}ms`);
+    } else {
+      log.info(`❌ RPC ${item.url}: ${item.error}`);
+    }
+  }
+
+  return results.filter(item => item.healthy).sort((a, b) => a.latencyMs! - b.latencyMs!);
+}
+
+// 创建带故障转移的提供者：只使用通过健康检查的节点，多个节点时用FallbackProvider在请求失败时自动切换
+export async function createProvider(config: BotConfig = getConfig()): Promise<ethers.AbstractProvider> {
+  log.info('检查RPC节点...');
+  const healthy = await checkRpcEndpoints(config);
+  if (healthy.length === 0) {
+    throw new Error('所有RPC端点都不可用');
+  }
+
+  if (healthy.length === 1) {
+    log.info(`使用RPC: ${healthy[0]!.url}`);
+    return createRpcProvider(healthy[0]!.url, config.chainId);
+  }
+
+  log.info(`使用RPC: ${healthy.map(item => item.url).join(' → ')} (按延迟排序，失败时自动切换)`);
+  const network = new ethers.Network('X Layer', config.chainId);
+  return new ethers.FallbackProvider(
+    healthy.map((item, index) => ({
+      provider: createRpcProvider(item.url, config.chainId),
+      priority: index + 1,
+      weight: 1,
+      stallTimeout: config.rpcTimeoutMs
+    })),
+    network,
+    { quorum: 1 }
+  );
+}
+
+let sharedProvider: Promise<ethers.AbstractProvider> | undefined;
+
+// 所有子命令共用同一个提供者，第一次使用时检查节点并创建
+export function getProvider(): Promise<ethers.AbstractProvider> {
+  if (!sharedProvider) {
+    sharedProvider = createProvider().catch(error => {
+      // 创建失败时不缓存，下次调用重新检查
+      sharedProvider = undefined;
+      throw error;
+    });
+  }
+  return sharedProvider;
+}
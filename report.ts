@@ -0,0 +1,335 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { getConfig } from './config.js';
+import { pairContract } from './contracts.js';
+import { log } from './logger.js';
+import { getLiquidityPools, getPoolReserves, type LiquidityPool } from './potato.js';
+import { getProvider } from './provider.js';
+import { openConfiguredWallets } from './wallet-config.js';
+
+// 持仓报告选项
+export interface ReportOptions {
+  // 额外导出CSV/JSON文件
+  csvPath?: string;
+  jsonPath?: string;
+  // 从该区块开始查找LP铸造记录 (默认REPORT_FROM_BLOCK，未设置时为最近REPORT_LOOKBACK_BLOCKS个区块)
+  fromBlock?: number;
+}
+
+// 一次添加流动性 (从Mint事件恢复)
+export interface Deposit {
+  txHash: string;
+  blockNumber: number;
+  liquidity: bigint;
+  amountA: bigint;
+  amountB: bigint;
+}
+
+// 单个子钱包在一个交易对中的LP持仓
+export interface PositionReport {
+  index: number;
+  label: string;
+  address: string;
+  pool: LiquidityPool;
+  lpBalance: bigint;
+  // 占LP总量的比例 (百分比)
+  sharePercent: number;
+  // LP对应的池子资产
+  amountA: bigint;
+  amountB: bigint;
+  deposits: Deposit[];
+  // 当前持有的LP对应的投入数量 (按铸造的LP比例折算，已转出/移除的部分不计)
+  depositedA: bigint;
+  depositedB: bigint;
+  // 以下按当前池子价格折算为tokenB，没有找到投入记录时为null
+  value: number;
+  holdValue: number | null;
+  impermanentLoss: number | null;
+  fees: number | null;
+  pnl: number | null;
+}
+
+// 持仓盈亏分解 (单位为tokenB)
+export interface PositionPnl {
+  value: number;
+  holdValue: number;
+  impermanentLoss: number;
+  fees: number;
+  pnl: number;
+}
+
+// 按区块范围分段查询日志，避免超过节点的eth_getLogs范围限制
+export async function queryLogs(provider: ethers.Provider, filter: ethers.Filter, fromBlock: number, toBlock: number, range: number): Promise<ethers.Log[]> {
+  const logs: ethers.Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += range) {
+    const end = Math.min(start + range - 1, toBlock);
+    logs.push(...await provider.getLogs({ ...filter, fromBlock: start, toBlock: end }));
+  }
+  return logs;
+}
+
+// 查找每个地址的LP铸造记录：LP从零地址转入该地址的交易中，Pair的Mint事件记录了投入的两种代币数量
+// (Mint事件的sender是Router，需要通过同一交易中的LP Transfer事件对应到钱包；两种事件各按区块范围查询一次，不逐笔读取交易回执)
+export async function findDeposits(pool: LiquidityPool, addresses: string[], fromBlock: number): Promise<Map<string, Deposit[]>> {
+  const config = getConfig();
+  const provider = await getProvider();
+  const pairAddress = pool.pairAddress;
+  const pair = pairContract(pairAddress, provider);
+  const tokenAIsToken0 = (await (pair as any).token0()).toLowerCase() === pool.tokenA.address.toLowerCase();
+
+  const deposits = new Map<string, Deposit[]>(addresses.map(address => [address.toLowerCase(), []]));
+  if (addresses.length === 0) {
+    return deposits;
+  }
+
+  const transferTopic = pair.interface.getEvent('Transfer')!.topicHash;
+  const mintTopic = pair.interface.getEvent('Mint')!.topicHash;
+  const transferFilter = {
+    address: pairAddress,
+    topics: [
+      transferTopic,
+      ethers.zeroPadValue(ethers.ZeroAddress, 32),
+      addresses.map(address => ethers.zeroPadValue(address, 32))
+    ]
+  };
+  const mintFilter = {
+    address: pairAddress,
+    topics: [mintTopic, ethers.zeroPadValue(config.contracts.potatoSwapRouter, 32)]
+  };
+
+  const latestBlock = await provider.getBlockNumber();
+  const logs = await queryLogs(provider, transferFilter, fromBlock, latestBlock, config.logBlockRange);
+  if (logs.length === 0) {
+    return deposits;
+  }
+  // 只在有铸造记录的区块范围内查找Mint事件
+  const mintLogs = await queryLogs(provider, mintFilter, logs[0]!.blockNumber, logs.at(-1)!.blockNumber, config.logBlockRange);
+
+  for (const log of logs) {
+    const transfer = pair.interface.parseLog(log)!;
+    // Pair.mint先铸造LP (Transfer)，再发出Mint事件
+    const mintLog = mintLogs.find(item => item.transactionHash === log.transactionHash && item.index > log.index);
+    if (!mintLog) {
+      continue;
+    }
+
+    const mint = pair.interface.parseLog(mintLog)!;
+    const [amount0, amount1] = [mint.args.amount0 as bigint, mint.args.amount1 as bigint];
+    deposits.get((transfer.args.to as string).toLowerCase())?.push({
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      liquidity: transfer.args.value as bigint,
+      amountA: tokenAIsToken0 ? amount0 : amount1,
+      amountB: tokenAIsToken0 ? amount1 : amount0
+    });
+  }
+
+  return deposits;
+}
+
+// 计算持仓盈亏：与一直持有投入的代币 (HODL) 比较
+//   无常损失 = 不计手续费时恒定乘积做市的价值 - 持有价值
+//   手续费收益 = 实际LP价值 - 不计手续费时的价值
+// 每次投入按 k = A × B 单独计算，不计手续费时在价格P (1 tokenA = P tokenB) 下的价值为 2√(kP)
+export function analyzePosition(
+  pool: Pick<LiquidityPool, 'tokenA' | 'tokenB'>,
+  deposits: Deposit[],
+  lpBalance: bigint,
+  amountA: bigint,
+  amountB: bigint,
+  price: number
+): PositionPnl {
+  const toA = (amount: bigint) => Number(ethers.formatUnits(amount, pool.tokenA.decimals));
+  const toB = (amount: bigint) => Number(ethers.formatUnits(amount, pool.tokenB.decimals));
+  const minted = deposits.reduce((sum, deposit) => sum + deposit.liquidity, BigInt(0));
+  // 已转出或移除的LP不计入，按当前持有量占铸造总量的比例折算
+  const fraction = minted > BigInt(0) ? Math.min(1, Number(lpBalance) / Number(minted)) : 0;
+
+  let holdValue = 0;
+  let noFeeValue = 0;
+  for (const deposit of deposits) {
+    const depositA = toA(deposit.amountA);
+    const depositB = toB(deposit.amountB);
+    holdValue += fraction * (depositA * price + depositB);
+    noFeeValue += fraction * 2 * Math.sqrt(depositA * depositB * price);
+  }
+
+  // 转入的LP没有投入记录，只用铸造部分对应的价值计算盈亏
+  const value = toA(amountA) * price + toB(amountB);
+  const mintedValue = lpBalance > minted ? value * Number(minted) / Number(lpBalance) : value;
+  return {
+    value,
+    holdValue,
+    impermanentLoss: noFeeValue - holdValue,
+    fees: mintedValue - noFeeValue,
+    pnl: mintedValue - holdValue
+  };
+}
+
+// 读取单个交易对中所有子钱包的LP持仓和盈亏
+async function getPoolPositionReports(
+  pool: LiquidityPool,
+  wallets: { label: string; address: string }[],
+  fromBlock: number,
+  provider: ethers.Provider
+): Promise<PositionReport[]> {
+  const { tokenA, tokenB } = pool;
+  log.info(`\n${pool.name} LP代币地址: ${pool.pairAddress}`);
+
+  const pair = pairContract(pool.pairAddress, provider);
+  const [{ reserveA, reserveB }, totalSupply] = await Promise.all([
+    getPoolReserves(pool, provider),
+    (pair as any).totalSupply() as Promise<bigint>
+  ]);
+  const price = Number(ethers.formatUnits(reserveB, tokenB.decimals)) / Number(ethers.formatUnits(reserveA, tokenA.decimals));
+  log.info(`💱 池子价格: 1 ${tokenA.symbol} = ${price.toFixed(4)} ${tokenB.symbol}`);
+
+  log.info(`查找LP铸造记录 (从区块 ${fromBlock} 开始)...`);
+  const deposits = await findDeposits(pool, wallets.map(wallet => wallet.address), fromBlock);
+
+  const reports: PositionReport[] = [];
+  for (let i = 0; i < wallets.length; i++) {
+    const wallet = wallets[i]!;
+    const lpBalance: bigint = await (pair as any).balanceOf(wallet.address);
+    const walletDeposits = deposits.get(wallet.address.toLowerCase()) ?? [];
+
+    const amountA = totalSupply > BigInt(0) ? reserveA * lpBalance / totalSupply : BigInt(0);
+    const amountB = totalSupply > BigInt(0) ? reserveB * lpBalance / totalSupply : BigInt(0);
+    const minted = walletDeposits.reduce((sum, deposit) => sum + deposit.liquidity, BigInt(0));
+    const held = lpBalance < minted ? lpBalance : minted;
+    const basis = (amount: (deposit: Deposit) => bigint) =>
+      minted > BigInt(0) ? walletDeposits.reduce((sum, deposit) => sum + amount(deposit), BigInt(0)) * held / minted : BigInt(0);
+
+    const pnl = walletDeposits.length > 0 ? analyzePosition(pool, walletDeposits, lpBalance, amountA, amountB, price) : null;
+    reports.push({
+      index: i,
+      label: wallet.label,
+      address: wallet.address,
+      pool,
+      lpBalance,
+      sharePercent: totalSupply > BigInt(0) ? Number(lpBalance * BigInt(1e8) / totalSupply) / 1e6 : 0,
+      amountA,
+      amountB,
+      deposits: walletDeposits,
+      depositedA: basis(deposit => deposit.amountA),
+      depositedB: basis(deposit => deposit.amountB),
+      value: pnl?.value ?? Number(ethers.formatUnits(amountA, tokenA.decimals)) * price + Number(ethers.formatUnits(amountB, tokenB.decimals)),
+      holdValue: pnl?.holdValue ?? null,
+      impermanentLoss: pnl?.impermanentLoss ?? null,
+      fees: pnl?.fees ?? null,
+      pnl: pnl?.pnl ?? null
+    });
+  }
+
+  return reports;
+}
+
+// 查找铸造记录的起始区块：未指定且未设置REPORT_FROM_BLOCK时只查找最近REPORT_LOOKBACK_BLOCKS个区块
+async function resolveFromBlock(provider: ethers.Provider, fromBlock: number | undefined): Promise<number> {
+  const config = getConfig();
+  const configured = fromBlock ?? config.reportFromBlock;
+  if (configured !== null) {
+    return configured;
+  }
+  const latestBlock = await provider.getBlockNumber();
+  const start = Math.max(0, latestBlock - config.reportLookbackBlocks);
+  log.warn(`⚠️  未设置REPORT_FROM_BLOCK，只查找最近 ${config.reportLookbackBlocks} 个区块 (从 ${start} 开始) 的铸造记录；更早的投入请用 --from-block 指定首次添加流动性之前的区块`);
+  return start;
+}
+
+// 读取所有子钱包在配置的各交易对中的LP持仓和盈亏
+export async function getPositionReports(fromBlock?: number): Promise<PositionReport[]> {
+  const provider = await getProvider();
+  const pools = await getLiquidityPools(provider);
+  const wallets = await openConfiguredWallets(provider);
+  const startBlock = await resolveFromBlock(provider, fromBlock);
+
+  const reports: PositionReport[] = [];
+  for (const pool of pools) {
+    reports.push(...await getPoolPositionReports(pool, wallets, startBlock, provider));
+  }
+  return reports;
+}
+
+// 导出用的一行数据 (数量为十进制字符串，金额按tokenB计价并保留6位小数)
+export function formatReportRow(report: PositionReport) {
+  const { tokenA, tokenB } = report.pool;
+  const amount = (value: number | null) => value === null ? '' : value.toFixed(6);
+  return {
+    index: report.index + 1,
+    label: report.label,
+    address: report.address,
+    pool: report.pool.name,
+    lp: ethers.formatEther(report.lpBalance),
+    sharePercent: report.sharePercent.toFixed(6),
+    amountA: ethers.formatUnits(report.amountA, tokenA.decimals),
+    amountB: ethers.formatUnits(report.amountB, tokenB.decimals),
+    depositedA: ethers.formatUnits(report.depositedA, tokenA.decimals),
+    depositedB: ethers.formatUnits(report.depositedB, tokenB.decimals),
+    deposits: report.deposits.length,
+    value: amount(report.value),
+    holdValue: amount(report.holdValue),
+    impermanentLoss: amount(report.impermanentLoss),
+    fees: amount(report.fees),
+    pnl: amount(report.pnl)
+  };
+}
+
+type ReportRow = ReturnType<typeof formatReportRow>;
+
+const CSV_COLUMNS: (keyof ReportRow)[] = [
+  'index', 'label', 'address', 'pool', 'lp', 'sharePercent', 'amountA', 'amountB', 'depositedA', 'depositedB',
+  'deposits', 'value', 'holdValue', 'impermanentLoss', 'fees', 'pnl'
+];
+
+function toCsv(rows: ReportRow[]): string {
+  const escape = (value: unknown) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = rows.map(row => CSV_COLUMNS.map(column => escape(row[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+// 持仓报告主函数：输出表格，并按需导出CSV/JSON
+export async function reportMain(options: ReportOptions = {}) {
+  const reports = await getPositionReports(options.fromBlock);
+  const rows = reports.map(formatReportRow);
+
+  // 每个交易对一张表，列名使用实际的代币符号
+  for (const pool of new Set(reports.map(report => report.pool))) {
+    const { tokenA, tokenB } = pool;
+    log.info(`\n📋 ${pool.name} LP持仓报告:`);
+    log.table(rows.filter((_, i) => reports[i]!.pool === pool).map(row => ({
+      钱包: row.index,
+      标签: row.label,
+      地址: row.address,
+      LP: row.lp,
+      '份额(%)': row.sharePercent,
+      [tokenA.symbol]: row.amountA,
+      [tokenB.symbol]: row.amountB,
+      [`投入${tokenA.symbol}`]: row.depositedA,
+      [`投入${tokenB.symbol}`]: row.depositedB,
+      [`价值(${tokenB.symbol})`]: row.value,
+      [`无常损失(${tokenB.symbol})`]: row.impermanentLoss,
+      [`手续费(${tokenB.symbol})`]: row.fees,
+      [`盈亏(${tokenB.symbol})`]: row.pnl
+    })));
+  }
+
+  const missing = reports.filter(report => report.lpBalance > BigInt(0) && report.deposits.length === 0);
+  if (missing.length > 0) {
+    log.info(`⚠️  ${missing.length} 个持仓持有LP但未找到铸造记录 (LP可能是转入的，或早于查找的起始区块)，无法计算盈亏`);
+  }
+
+  if (options.csvPath) {
+    fs.writeFileSync(options.csvPath, toCsv(rows));
+    log.info(`📄 CSV已导出: ${options.csvPath}`);
+  }
+  if (options.jsonPath) {
+    fs.writeFileSync(options.jsonPath, JSON.stringify(rows, null, 2) + '\n');
+    log.info(`📄 JSON已导出: ${options.jsonPath}`);
+  }
+
+  return reports;
+}
@@ -0,0 +1,165 @@
+import { getConfig } from './config.js';
+import { classifyError, getErrorLabel, isRetryableError, type ErrorKind } from './errors.js';
+import { log } from './logger.js';
+
+// 重试配置，未指定的项使用RETRY_*环境变量的配置
+export interface RetryOptions {
+  // 最大尝试次数
+  maxRetries?: number;
+  // 第一次重试前的等待时间 (毫秒)，之后每次翻倍
+  delay?: number;
+  // 单次等待时间上限 (毫秒)
+  maxDelay?: number;
+  // 从第一次尝试起的最长总耗时 (毫秒)，0表示不限制
+  maxElapsed?: number;
+  // 随机抖动比例 (0-1)
+  jitter?: number;
+  // 熔断器按端点区分，默认为RPC节点
+  endpoint?: string;
+  // 判断错误是否值得重试，默认按错误分类 (网络错误、限流、超时、nonce过低、gas价格过低)
+  shouldRetry?: (error: any) => boolean;
+  // 每次重试前调用，用于输出日志
+  onRetry?: (error: any, attempt: number, maxRetries: number, delay: number) => void;
+}
+
+// 默认的熔断端点 (所有RPC请求共用)
+export const RPC_ENDPOINT = 'rpc';
+
+// 端点本身的故障，连续出现时触发熔断 (nonce、gas价格等交易本身的错误不计入)
+const ENDPOINT_ERRORS = new Set<ErrorKind>(['network', 'rate-limited', 'timeout']);
+
+interface CircuitState {
+  // 连续失败次数
+  failures: number;
+  // 熔断结束时间 (毫秒时间戳)，0表示未熔断
+  openUntil: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+// RPC节点返回的网络错误 (X Layer节点繁忙时返回 -32011)
+export function isRpcNetworkError(error: any): boolean {
+  return error?.code === 'UNKNOWN_ERROR' && error?.error?.code === -32011;
+}
+
+function logRetry(error: any, attempt: number, maxRetries: number, delay: number) {
+  const classified = classifyError(error);
+  log.info(`${getErrorLabel(classified.kind)}，尝试重试 (${attempt}/${maxRetries}): ${error?.error?.message ?? classified.message}`);
+  log.info(`等待 ${delay}ms 后重试...`);
+}
+
+// 从HTTP响应的Retry-After头读取服务端要求的等待时间 (秒数或HTTP日期)，axios和ethers的错误都支持
+export function getRetryAfterMs(error: any, now: number = Date.now()): number | null {
+  const headers = error?.response?.headers ?? error?.info?.response?.headers;
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// 第attempt次重试前的等待时间: 指数退避并加上随机抖动，服务端指定Retry-After时以其为准
+export function getBackoffDelay(attempt: number, delay: number, maxDelay: number, jitter: number, error?: any): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== null) {
+    return retryAfter;
+  }
+  const exponential = Math.min(maxDelay, delay * 2 ** (attempt - 1));
+  const spread = exponential * jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(exponential + spread));
+}
+
+function getCircuit(endpoint: string): CircuitState {
+  let circuit = circuits.get(endpoint);
+  if (!circuit) {
+    circuit = { failures: 0, openUntil: 0 };
+    circuits.set(endpoint, circuit);
+  }
+  return circuit;
+}
+
+// 端点的熔断状态，open为true时所有请求暂停到openUntil
+export function getCircuitState(endpoint: string = RPC_ENDPOINT): { failures: number; open: boolean; openUntil: number } {
+  const circuit = getCircuit(endpoint);
+  return { ...circuit, open: circuit.openUntil > Date.now() };
+}
+
+// 清除所有端点的失败计数和熔断状态
+export function resetCircuitBreakers() {
+  circuits.clear();
+}
+
+// 熔断期间等待到期，所有钱包的请求都在这里暂停
+async function waitForCircuit(endpoint: string) {
+  const circuit = getCircuit(endpoint);
+  const remaining = circuit.openUntil - Date.now();
+  if (remaining > 0) {
+    log.warn(`⛔ ${endpoint} 处于熔断状态，暂停 ${(remaining / 1000).toFixed(1)} 秒后再试...`);
+    await new Promise(resolve => setTimeout(resolve, remaining));
+  }
+}
+
+// 记录一次请求结果；连续失败达到阈值时熔断 (熔断到期后的试探请求再失败会立即重新熔断)
+function recordResult(endpoint: string, error: unknown | null) {
+  const config = getConfig().retry;
+  const circuit = getCircuit(endpoint);
+  if (error === null || !ENDPOINT_ERRORS.has(classifyError(error).kind)) {
+    circuit.failures = 0;
+    return;
+  }
+
+  circuit.failures++;
+  if (config.breakerThreshold > 0 && circuit.failures >= config.breakerThreshold && circuit.openUntil <= Date.now()) {
+    circuit.openUntil = Date.now() + config.breakerCooldownMs;
+    log.warn(`⛔ ${endpoint} 连续失败 ${circuit.failures} 次，熔断 ${config.breakerCooldownMs / 1000} 秒，暂停所有钱包的请求`);
+  }
+}
+
+// 重试机制包装函数
+export async function retryOperation<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const config = getConfig().retry;
+  const {
+    maxRetries = config.maxAttempts,
+    delay = config.baseDelayMs,
+    maxDelay = config.maxDelayMs,
+    maxElapsed = config.maxElapsedMs,
+    jitter = config.jitter,
+    endpoint = RPC_ENDPOINT,
+    shouldRetry = isRetryableError,
+    onRetry = logRetry
+  } = options;
+  const startedAt = Date.now();
+
+  for (let i = 0; i < maxRetries; i++) {
+    await waitForCircuit(endpoint);
+    try {
+      const result = await operation();
+      recordResult(endpoint, null);
+      return result;
+    } catch (error: any) {
+      recordResult(endpoint, error);
+      const isLastAttempt = i === maxRetries - 1;
+
+      if (!isLastAttempt && shouldRetry(error)) {
+        const wait = getBackoffDelay(i + 1, delay, maxDelay, jitter, error);
+        // 等待后会超过最长总耗时，不再重试
+        if (maxElapsed > 0 && Date.now() - startedAt + wait > maxElapsed) {
+          log.warn(`⚠️  重试总耗时将超过 ${maxElapsed}ms，停止重试`);
+          throw error;
+        }
+        onRetry(error, i + 1, maxRetries, wait);
+        await new Promise(resolve => setTimeout(resolve, wait));
+        continue;
+      }
+
+      // 其他错误或最后一次尝试，直接抛出
+      throw error;
+    }
+  }
+  throw new Error('重试次数已用完');
+}
@@ -0,0 +1,146 @@
+import { ethers } from 'ethers';
+import { getConfig } from './config.js';
+import { erc20Contract } from './contracts.js';
+import { log, withLogContext } from './logger.js';
+import { getLiquidityPools, type LiquidityPool } from './potato.js';
+import { getProvider } from './provider.js';
+import { retryOperation } from './retry.js';
+import { sendTransaction } from './transactions.js';
+import { openConfiguredWallets } from './wallet-config.js';
+
+// 撤销授权选项
+export interface RevokeOptions {
+  // 只检查并报告授权，不发送交易
+  dryRun?: boolean;
+}
+
+// 需要检查的授权: 代币 (交易对中的ERC20代币或LP代币) → 被授权方 (路由器或交易对)
+export interface ApprovalTarget {
+  token: string;
+  symbol: string;
+  decimals: number;
+  spender: string;
+  spenderName: string;
+}
+
+// 子钱包上未清零的授权，撤销后带上交易哈希或失败原因
+export interface OutstandingApproval extends ApprovalTarget {
+  allowance: bigint;
+  txHash?: string;
+  error?: string;
+}
+
+export interface RevokeResult {
+  index: number;
+  label: string;
+  address: string;
+  approvals: OutstandingApproval[];
+}
+
+// 所有交易对的ERC20代币和LP代币对路由器、交易对合约的授权 (同一代币在多个交易对中只检查一次)
+export function getApprovalTargets(pools: LiquidityPool[], routerAddress: string): ApprovalTarget[] {
+  const spenders = [
+    { spender: routerAddress, spenderName: '路由器' },
+    ...pools.map(pool => ({ spender: pool.pairAddress, spenderName: `${pool.name}交易对` }))
+  ];
+  const tokens = new Map<string, { token: string; symbol: string; decimals: number }>();
+  for (const pool of pools) {
+    for (const token of [pool.tokenA, pool.tokenB]) {
+      if (!token.native) {
+        tokens.set(token.address.toLowerCase(), { token: token.address, symbol: token.symbol, decimals: token.decimals });
+      }
+    }
+    tokens.set(pool.pairAddress.toLowerCase(), { token: pool.pairAddress, symbol: `${pool.name} LP`, decimals: 18 });
+  }
+
+  const targets: ApprovalTarget[] = [];
+  for (const token of tokens.values()) {
+    for (const spender of spenders) {
+      if (spender.spender.toLowerCase() !== token.token.toLowerCase()) {
+        targets.push({ ...token, ...spender });
+      }
+    }
+  }
+  return targets;
+}
+
+// 查询owner在各目标上剩余的授权额度，只返回不为0的
+export async function findOutstandingApprovals(owner: string, targets: ApprovalTarget[], runner: ethers.ContractRunner): Promise<OutstandingApproval[]> {
+  const allowances: bigint[] = await Promise.all(targets.map(target =>
+    retryOperation<bigint>(() => (erc20Contract(target.token, runner) as any).allowance(owner, target.spender))
+  ));
+  return targets
+    .map((target, index) => ({ ...target, allowance: allowances[index]! }))
+    .filter(approval => approval.allowance > BigInt(0));
+}
+
+function formatAllowance(approval: OutstandingApproval): string {
+  return approval.allowance === ethers.MaxUint256 ? '无限' : ethers.formatUnits(approval.allowance, approval.decimals);
+}
+
+// 将子钱包的授权逐个重置为0 (发送不重试，确认等待在tx.wait中重试)
+async function revokeApprovals(wallet: ethers.Wallet, approvals: OutstandingApproval[]) {
+  for (const approval of approvals) {
+    try {
+      const contract = erc20Contract(approval.token, wallet);
+      const tx = await sendTransaction(wallet, await (contract as any).approve.populateTransaction(approval.spender, 0));
+      approval.txHash = (await tx.wait()).hash;
+      log.info(`  ✅ 已撤销 ${approval.symbol} → ${approval.spenderName}, 交易哈希: ${approval.txHash}`);
+    } catch (error) {
+      approval.error = (error as Error).message;
+      log.error(`  ❌ 撤销 ${approval.symbol} → ${approval.spenderName} 失败: ${approval.error}`);
+    }
+  }
+}
+
+// 撤销所有子钱包对路由器和交易对的授权，报告哪些钱包仍有未清零的授权
+export async function revokeMain(options: RevokeOptions = {}) {
+  const config = getConfig();
+  const dryRun = options.dryRun === true;
+
+  const provider = await getProvider();
+  const subWallets = await openConfiguredWallets(provider);
+  const pools = await getLiquidityPools(provider);
+  const targets = getApprovalTargets(pools, config.contracts.potatoSwapRouter);
+
+  log.info(`检查 ${subWallets.length} 个子钱包的授权 (${targets.length} 项)...`);
+  if (dryRun) {
+    log.info('🧪 dry-run模式：只报告授权，不会发送撤销交易');
+  }
+
+  const results: RevokeResult[] = [];
+  for (let i = 0; i < subWallets.length; i++) {
+    const walletInfo = subWallets[i]!;
+    const approvals = await findOutstandingApprovals(walletInfo.address, targets, provider);
+    results.push({ index: i + 1, label: walletInfo.label, address: walletInfo.address, approvals });
+
+    if (approvals.length === 0) {
+      continue;
+    }
+    log.info(`[钱包 ${i + 1}] ${walletInfo.address} 有 ${approvals.length} 项授权: ${approvals.map(approval => `${approval.symbol} → ${approval.spenderName} (${formatAllowance(approval)})`).join(', ')}`);
+    if (!dryRun) {
+      await withLogContext({ walletIndex: i + 1, wallet: walletInfo.address }, () => revokeApprovals(walletInfo.wallet, approvals));
+    }
+  }
+
+  const withApprovals = results.filter(result => result.approvals.length > 0);
+  const failureCount = withApprovals.reduce((count, result) => count + result.approvals.filter(approval => approval.error).length, 0);
+
+  log.info('\n📋 授权撤销汇总:');
+  if (withApprovals.length === 0) {
+    log.info('所有子钱包都没有未清零的授权');
+  } else {
+    log.table(withApprovals.flatMap(result => result.approvals.map(approval => ({
+      钱包: result.index,
+      标签: result.label,
+      地址: result.address,
+      代币: approval.symbol,
+      被授权方: approval.spenderName,
+      授权额度: formatAllowance(approval),
+      结果: dryRun ? '未撤销 (dry-run)' : approval.error ? `❌ ${approval.error}` : '✅ 已撤销'
+    }))));
+  }
+  log.info(`\n${withApprovals.length}/${subWallets.length} 个钱包有未清零的授权${dryRun ? '' : `，撤销失败 ${failureCount} 项`}`);
+
+  return { results, failureCount };
+}
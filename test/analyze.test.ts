@@ -0,0 +1,118 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { chainEnv, startChain, type TestChain } from './helpers/chain.js';
+
+describe('analyze.ts (本地测试链)', () => {
+  let chain: TestChain;
+  let wallet: ethers.Wallet;
+  let outDir: string;
+  let analyze: typeof import('../analyze.js');
+  let addHash: string;
+  let revertedHash: string;
+
+  before(async () => {
+    chain = await startChain();
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'analyze-'));
+    Object.assign(process.env, await chainEnv(chain), { SLIPPAGE_TOLERANCE: '5' });
+    analyze = await import('../analyze.js');
+    const potato = await import('../potato.js');
+
+    wallet = new ethers.Wallet(chain.accountKeys[1]!, chain.provider);
+    await (await (chain.usdt as any).mint(wallet.address, ethers.parseUnits('100', 6))).wait();
+
+    // 一笔成功的添加流动性
+    const [pool] = await potato.getLiquidityPools(wallet) as [import('../potato.js').LiquidityPool];
+    const routerAddress = await chain.router.getAddress();
+    const usdtAmount = ethers.parseUnits('17', 6);
+    const okbAmount = (await potato.getPairAmountFromRouter(wallet, pool, usdtAmount))!;
+    addHash = await potato.addLiquidity(wallet, routerAddress, pool, okbAmount, usdtAmount) as string;
+
+    // 一笔deadline已过期的添加流动性 (指定gasLimit跳过估算，交易上链后回退)
+    const router = chain.router.connect(wallet) as any;
+    const expired = await router.addLiquidityETH(await chain.usdt.getAddress(), usdtAmount, 0, 0, wallet.address, 1, {
+      value: okbAmount,
+      gasLimit: 500000
+    });
+    revertedHash = expired.hash;
+    await expired.wait().catch(() => undefined);
+  });
+
+  after(async () => {
+    await chain.close();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('解析addLiquidityETH的调用、事件日志，并比较存入价格与池子价格', async () => {
+    const [analysis] = await analyze.analyzeMain(addHash) as [import('../analyze.js').TxAnalysis];
+
+    assert.equal(analysis.status, 'success');
+    assert.equal(analysis.call?.contract, '路由器');
+    assert.equal(analysis.call?.method, 'addLiquidityETH');
+    assert.match(analysis.call!.args.amountTokenDesired!, / USDT$/);
+    assert.match(analysis.call!.args.amountETHMin!, / OKB$/);
+
+    const events = analysis.logs.map(item => item.event);
+    for (const event of ['Transfer', 'Sync', 'Mint']) {
+      assert.ok(events.includes(event), `缺少${event}事件`);
+    }
+    const mint = analysis.logs.find(item => item.event === 'Mint')!;
+    assert.equal(mint.contract, 'OKB/USDT交易对');
+
+    const [deposit] = analysis.deposits;
+    assert.equal(deposit?.pool, 'OKB/USDT');
+    assert.ok(Math.abs(deposit!.depositPrice - 170) < 5);
+    assert.ok(Math.abs(deposit!.deviationPercent!) < 0.1);
+  });
+
+  it('失败的交易重放后给出回退原因和说明', async () => {
+    const [analysis] = await analyze.analyzeMain(revertedHash) as [import('../analyze.js').TxAnalysis];
+
+    assert.equal(analysis.status, 'reverted');
+    assert.equal(analysis.revertReason, 'UniswapV2Router: EXPIRED');
+    assert.match(analysis.explanation!, /deadline/);
+    assert.deepEqual(analysis.logs, []);
+  });
+
+  it('按钱包地址通过事件日志查找最近的机器人交易，最新的在前', async () => {
+    const analyses = await analyze.analyzeMain(wallet.address, { blocks: 50, limit: 2 });
+    // 失败的交易没有事件日志，不在结果中；添加流动性之前是授权USDT的交易
+    assert.equal(analyses[0]!.hash, addHash);
+    assert.equal(analyses[1]!.call?.method, 'approve');
+    assert.ok(!analyses.some(item => item.hash === revertedHash));
+  });
+
+  it('离线解析已签名交易和附带回执的交易JSON', async () => {
+    const usdtAddress = await chain.usdt.getAddress();
+    const approve = await (chain.usdt as any).approve.populateTransaction(await chain.router.getAddress(), ethers.parseUnits('5', 6));
+    const raw = await wallet.signTransaction({ ...approve, chainId: 196, nonce: 0, gasLimit: 60000, gasPrice: 1 });
+
+    const [signed] = await analyze.analyzeMain(raw) as [import('../analyze.js').TxAnalysis];
+    assert.equal(signed.status, 'unknown');
+    assert.equal(signed.from, wallet.address);
+    assert.equal(signed.call?.method, 'approve');
+    assert.equal(signed.call?.args.amount, '5.0 USDT');
+    assert.match(signed.call!.args.spender!, /\(路由器\)$/);
+
+    const tx = (await chain.provider.getTransaction(addHash))!;
+    const receipt = (await chain.provider.getTransactionReceipt(addHash))!;
+    const jsonPath = path.join(outDir, 'tx.json');
+    fs.writeFileSync(jsonPath, JSON.stringify({
+      to: tx.to,
+      data: tx.data,
+      value: tx.value.toString(),
+      receipt: { status: receipt.status, logs: receipt.logs.map(item => ({ address: item.address, topics: item.topics, data: item.data })) }
+    }));
+
+    const [offline] = await analyze.analyzeMain(jsonPath) as [import('../analyze.js').TxAnalysis];
+    assert.equal(offline.status, 'success');
+    assert.equal(offline.call?.method, 'addLiquidityETH');
+    const usdtTransfer = offline.logs.find(item => item.event === 'Transfer' && item.address === usdtAddress);
+    assert.match(usdtTransfer!.args.value!, / USDT$/);
+    // 离线时没有交易对的价格
+    assert.deepEqual(offline.deposits, []);
+  });
+});
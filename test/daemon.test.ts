@@ -0,0 +1,222 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { nextCronTime, parseCron } from '../daemon.js';
+import { chainEnv, startChain, type TestChain } from './helpers/chain.js';
+
+describe('parseCron / nextCronTime', () => {
+  it('按步长和范围计算下一个计划时间', () => {
+    const cron = parseCron('*/15 9-17 * * *');
+    assert.equal(nextCronTime(cron, new Date(2026, 0, 5, 10, 7, 30)).getTime(), new Date(2026, 0, 5, 10, 15).getTime());
+    assert.equal(nextCronTime(cron, new Date(2026, 0, 5, 10, 15)).getTime(), new Date(2026, 0, 5, 10, 30).getTime());
+    assert.equal(nextCronTime(cron, new Date(2026, 0, 5, 17, 50)).getTime(), new Date(2026, 0, 6, 9, 0).getTime());
+  });
+
+  it('工作日计划跳过周末，周日可以写成7', () => {
+    // 2026-01-09 是周五
+    assert.equal(nextCronTime(parseCron('0 9 * * 1-5'), new Date(2026, 0, 9, 12, 0)).getTime(), new Date(2026, 0, 12, 9, 0).getTime());
+    assert.equal(nextCronTime(parseCron('30 8 * * 7'), new Date(2026, 0, 9, 12, 0)).getTime(), new Date(2026, 0, 11, 8, 30).getTime());
+  });
+
+  it('格式错误时报错', () => {
+    assert.throws(() => parseCron('* * * *'), /需要5个字段/);
+    assert.throws(() => parseCron('60 * * * *'), /超出范围/);
+    assert.throws(() => parseCron('a * * * *'), /格式错误/);
+  });
+});
+
+describe('daemon.ts (本地测试链)', () => {
+  let chain: TestChain;
+  let wallet: ethers.Wallet;
+  let outDir: string;
+  let daemon: typeof import('../daemon.js');
+  let config: import('../config.js').BotConfig;
+  let pools: import('../potato.js').LiquidityPool[];
+  let subWallets: import('../wallet-config.js').ConfiguredWallet[];
+
+  before(async () => {
+    chain = await startChain();
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'daemon-'));
+    wallet = new ethers.Wallet(chain.accountKeys[0]!, chain.provider);
+
+    Object.assign(process.env, await chainEnv(chain), {
+      SUB_WALLET_PRIVATE_KEYS: wallet.privateKey,
+      WALLET_STORE_PATH: path.join(outDir, 'wallets.vault.json'),
+      DAEMON_STATE_PATH: path.join(outDir, 'daemon-state.json'),
+      PRICE_TWAP_BLOCKS: '1'
+    });
+    daemon = await import('../daemon.js');
+    config = (await import('../config.js')).getConfig();
+    pools = await (await import('../potato.js')).getLiquidityPools(chain.provider);
+    subWallets = await (await import('../wallet-config.js')).openConfiguredWallets(chain.provider);
+  });
+
+  after(async () => {
+    await chain.close();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('定时计划到期时添加流动性并保存状态', async () => {
+    await (await (chain.usdt as any).mint(wallet.address, ethers.parseUnits('100', 6))).wait();
+    config.daemon.schedule = '* * * * *';
+    const start = new Date();
+    const state = daemon.loadDaemonState(config.daemon.statePath, start);
+
+    // 同一分钟内再次检查不会到期
+    await daemon.runDaemonTick(state, subWallets, pools, chain.provider, () => false, start);
+    assert.equal(state.pools['OKB/USDT']!.wallets[wallet.address]!.lastRoundAt, undefined);
+
+    await daemon.runDaemonTick(state, subWallets, pools, chain.provider, () => false, new Date(start.getTime() + 120_000));
+    const walletState = state.pools['OKB/USDT']!.wallets[wallet.address]!;
+    assert.equal(walletState.due, false);
+    assert.match(walletState.lastTxHash!, /^0x[0-9a-f]{64}$/);
+    assert.ok(await (chain.pair as any).balanceOf(wallet.address) > 0n);
+
+    const saved = JSON.parse(fs.readFileSync(config.daemon.statePath, 'utf8'));
+    assert.equal(saved.rounds, 2);
+    assert.equal(saved.pools['OKB/USDT'].wallets[wallet.address].lastTxHash, walletState.lastTxHash);
+  });
+
+  it('有未确认交易的钱包不开始新的一轮，确认后继续', async () => {
+    const { sendTransaction } = await import('../transactions.js');
+    const state = daemon.loadDaemonState(config.daemon.statePath);
+    const walletState = state.pools['OKB/USDT']!.wallets[wallet.address]!;
+    walletState.due = true;
+    const lpBefore: bigint = await (chain.pair as any).balanceOf(wallet.address);
+
+    await chain.provider.send('miner_stop', []);
+    const pending = await sendTransaction(wallet, { to: chain.deployer.address, value: 1n });
+    try {
+      assert.equal(await daemon.hasPendingTransaction(wallet), true);
+      await daemon.runDaemonTick(state, subWallets, pools, chain.provider, () => false, new Date(state.lastScheduleCheck));
+      assert.equal(walletState.due, true);
+    } finally {
+      await chain.provider.send('miner_start', []);
+    }
+    await pending.wait();
+
+    await daemon.runDaemonTick(state, subWallets, pools, chain.provider, () => false, new Date(state.lastScheduleCheck));
+    assert.equal(walletState.due, false);
+    assert.ok(await (chain.pair as any).balanceOf(wallet.address) > lpBefore);
+  });
+
+  it('余额补足时触发一轮，gas价格高于上限时等待', async () => {
+    config.daemon.schedule = '';
+    const state = daemon.loadDaemonState(config.daemon.statePath);
+    const poolState = state.pools['OKB/USDT']!;
+    const walletState = poolState.wallets[wallet.address]!;
+    poolState.conditionsMet = true;
+    walletState.funded = false;
+
+    config.daemon.maxGasGwei = 1e-9;
+    try {
+      await daemon.runDaemonTick(state, subWallets, pools, chain.provider);
+      assert.equal(walletState.funded, true);
+      assert.equal(walletState.due, true);
+      assert.equal(poolState.conditionsMet, false);
+    } finally {
+      config.daemon.maxGasGwei = 0;
+    }
+
+    // 条件恢复后执行待执行的钱包
+    const lpBefore: bigint = await (chain.pair as any).balanceOf(wallet.address);
+    await daemon.runDaemonTick(state, subWallets, pools, chain.provider);
+    assert.equal(walletState.due, false);
+    assert.ok(await (chain.pair as any).balanceOf(wallet.address) > lpBefore);
+  });
+
+  it('没有定时计划时可重试的失败在之后的检查中重试，达到次数上限或不可重试时等待下一次触发', async () => {
+    config.daemon.schedule = '';
+    const state = daemon.loadDaemonState(config.daemon.statePath);
+    const poolState = state.pools['OKB/USDT']!;
+    const walletState = poolState.wallets[wallet.address]!;
+    // 条件已满足且余额充足，不会再有新的触发
+    poolState.conditionsMet = true;
+    walletState.funded = true;
+    walletState.due = true;
+
+    // 价格校验的偏差上限过小：重试无法解决，不再重试
+    const { priceMaxDeviation } = config;
+    config.priceMaxDeviation = 1e-9;
+    try {
+      await daemon.runDaemonTick(state, subWallets, pools, chain.provider);
+      assert.equal(walletState.failures, 1);
+      assert.equal(walletState.due, false);
+      assert.match(walletState.lastError!, /价格来源偏差/);
+    } finally {
+      config.priceMaxDeviation = priceMaxDeviation;
+    }
+
+    // 节点拒绝广播 (gas价格过低)：保留待执行标记，达到次数上限后停止
+    walletState.due = true;
+    delete walletState.failures;
+    const broadcast = chain.provider.broadcastTransaction.bind(chain.provider);
+    chain.provider.broadcastTransaction = async () => {
+      throw new Error('replacement transaction underpriced');
+    };
+    config.daemon.maxAttempts = 2;
+    config.retry.maxAttempts = 1;
+    try {
+      await daemon.runDaemonTick(state, subWallets, pools, chain.provider);
+      assert.equal(walletState.failures, 1);
+      assert.equal(walletState.due, true);
+
+      await daemon.runDaemonTick(state, subWallets, pools, chain.provider);
+      assert.equal(walletState.failures, 2);
+      assert.equal(walletState.due, false);
+    } finally {
+      chain.provider.broadcastTransaction = broadcast;
+      config.daemon.maxAttempts = 3;
+      config.retry.maxAttempts = 3;
+    }
+
+    // 重新触发后成功，清除失败次数
+    walletState.due = true;
+    const lpBefore: bigint = await (chain.pair as any).balanceOf(wallet.address);
+    await daemon.runDaemonTick(state, subWallets, pools, chain.provider);
+    assert.equal(walletState.due, false);
+    assert.equal(walletState.failures, undefined);
+    assert.ok(await (chain.pair as any).balanceOf(wallet.address) > lpBefore);
+  });
+
+  it('交易广播后结果未知时不重试，下次检查先查询结果再决定是否开始新的一轮', async () => {
+    config.daemon.schedule = '';
+    const state = daemon.loadDaemonState(config.daemon.statePath);
+    const poolState = state.pools['OKB/USDT']!;
+    const walletState = poolState.wallets[wallet.address]!;
+    poolState.conditionsMet = true;
+    walletState.funded = true;
+    walletState.due = true;
+
+    // 交易已转发给节点，但响应丢失 (502)
+    const broadcast = chain.provider.broadcastTransaction.bind(chain.provider);
+    let sent: string | undefined;
+    chain.provider.broadcastTransaction = async (raw: string) => {
+      const tx = await broadcast(raw);
+      sent = tx.hash;
+      throw Object.assign(new Error('Request failed with status code 502'), { response: { status: 502 } });
+    };
+    try {
+      await daemon.runDaemonTick(state, subWallets, pools, chain.provider);
+    } finally {
+      chain.provider.broadcastTransaction = broadcast;
+    }
+    assert.equal(walletState.unconfirmedTxHash, sent);
+    assert.equal(walletState.due, false);
+    assert.equal(walletState.failures, undefined);
+
+    // 下次检查先查询上一笔交易的结果，不开始新的一轮
+    const roundAt = walletState.lastRoundAt;
+    await daemon.runDaemonTick(state, subWallets, pools, chain.provider);
+    assert.equal(walletState.unconfirmedTxHash, undefined);
+    assert.equal(walletState.lastTxHash, sent);
+    assert.equal(walletState.lastError, undefined);
+    assert.equal(walletState.lastRoundAt, roundAt);
+
+    const saved = JSON.parse(fs.readFileSync(config.daemon.statePath, 'utf8'));
+    assert.equal(saved.pools['OKB/USDT'].wallets[wallet.address].unconfirmedTxHash, undefined);
+  });
+});
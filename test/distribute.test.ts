@@ -0,0 +1,219 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { RunJournal } from '../journal.js';
+import { DISPERSE_ABI } from '../contracts.js';
+import { DISPERSE_BYTECODE, chunkByGas, isDisperseAvailable } from '../disperse.js';
+import { chainEnv, startChain, type TestChain } from './helpers/chain.js';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('distribute.ts (本地测试链)', () => {
+  let chain: TestChain;
+  let journalDir: string;
+
+  before(async () => {
+    chain = await startChain();
+    journalDir = fs.mkdtempSync(path.join(os.tmpdir(), 'distribute-journal-'));
+
+    const factory = new ethers.ContractFactory(DISPERSE_ABI, DISPERSE_BYTECODE, chain.deployer);
+    const disperse = await factory.deploy();
+    await disperse.waitForDeployment();
+
+    // 子钱包从助记词派生 (索引100起，避开测试链预置账户)
+    Object.assign(process.env, await chainEnv(chain), {
+      MAIN_WALLET_PRIVATE_KEY: chain.deployer.privateKey,
+      NUMBER_OF_WALLETS: '2',
+      OKB_PER_WALLET: '0.05',
+      USDT_PER_WALLET: '7',
+      SUB_WALLET_MNEMONIC: MNEMONIC,
+      HD_WALLET_START_INDEX: '100',
+      JOURNAL_DIR: journalDir,
+      DISTRIBUTE_WALLET_DELAY_MS: '0',
+      DISPERSE_CONTRACT: await disperse.getAddress(),
+      // 只在需要的用例中创建该文件
+      WALLET_CONFIG_PATH: path.join(journalDir, 'wallets.config.json')
+    });
+  });
+
+  after(async () => {
+    await chain.close();
+    fs.rmSync(journalDir, { recursive: true, force: true });
+  });
+
+  it('向派生的子钱包分发OKB和USDT，并完整记录运行日志', async () => {
+    const distribute = await import('../distribute.js');
+    await distribute.distributeMain();
+
+    const addresses = [100, 101].map(index =>
+      ethers.HDNodeWallet.fromPhrase(MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).address
+    );
+    for (const address of addresses) {
+      assert.equal(await chain.provider.getBalance(address), ethers.parseEther('0.05'));
+      assert.equal(await (chain.usdt as any).balanceOf(address), ethers.parseUnits('7', 6));
+    }
+
+    const [journalFile] = fs.readdirSync(journalDir);
+    const journal = RunJournal.open(path.join(journalDir, journalFile!));
+    assert.ok(journal.isDone());
+    assert.deepEqual(journal.wallets().map(entry => entry.address), addresses);
+    for (const entry of journal.wallets()) {
+      assert.equal(journal.lastTransfer(entry.index, 'OKB')?.status, 'confirmed');
+      assert.equal(journal.lastTransfer(entry.index, 'USDT')?.status, 'confirmed');
+    }
+  });
+
+  it('恢复时按记录的交易哈希重新查询，等待出错但已上链的转账不会重发', async () => {
+    const distribute = await import('../distribute.js');
+    const [journalFile] = fs.readdirSync(journalDir);
+    const source = RunJournal.open(path.join(journalDir, journalFile!));
+    const confirmed = source.lastTransfer(0, 'OKB')!;
+    const signed = source.entries().find(entry => entry.type === 'transfer' && entry.txHash === confirmed.txHash && entry.raw)!;
+
+    // 模拟旧版本在等待确认时遇到RPC错误，把已广播的转账记为failed
+    const resumeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'distribute-resume-'));
+    try {
+      const journal = RunJournal.create(resumeDir);
+      journal.append(signed);
+      journal.append({ ...confirmed, status: 'failed', error: '[请求超时] timeout' });
+
+      assert.equal(await distribute.reconcileTransfer(journal, journal.lastTransfer(0, 'OKB')!), true);
+      assert.equal(journal.lastTransfer(0, 'OKB')?.status, 'confirmed');
+      assert.equal(journal.lastTransfer(0, 'OKB')?.txHash, confirmed.txHash);
+    } finally {
+      fs.rmSync(resumeDir, { recursive: true, force: true });
+    }
+  });
+
+  it('批量模式通过Disperse合约一笔交易分发给多个钱包', async () => {
+    const distribute = await import('../distribute.js');
+    process.env.HD_WALLET_START_INDEX = '110';
+    (await import('../config.js')).reloadConfig();
+    await distribute.distributeMain({ batch: true });
+
+    const addresses = [110, 111].map(index =>
+      ethers.HDNodeWallet.fromPhrase(MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).address
+    );
+    for (const address of addresses) {
+      assert.equal(await chain.provider.getBalance(address), ethers.parseEther('0.05'));
+      assert.equal(await (chain.usdt as any).balanceOf(address), ethers.parseUnits('7', 6));
+    }
+
+    const journalFile = fs.readdirSync(journalDir).filter(file => file.endsWith('.jsonl')).sort().at(-1)!;
+    const journal = RunJournal.open(path.join(journalDir, journalFile));
+    assert.ok(journal.isDone());
+    for (const asset of ['OKB', 'USDT'] as const) {
+      const [first, second] = journal.wallets().map(entry => journal.lastTransfer(entry.index, asset)!);
+      assert.equal(first!.status, 'confirmed');
+      assert.equal(second!.status, 'confirmed');
+      assert.equal(first!.txHash, second!.txHash);
+    }
+  });
+
+  it('按钱包配置文件分发，每个钱包使用单独的数量并跳过停用的钱包', async () => {
+    const distribute = await import('../distribute.js');
+    const configPath = process.env.WALLET_CONFIG_PATH!;
+    fs.writeFileSync(configPath, JSON.stringify({
+      defaults: { okb: 0.02, usdt: 3 },
+      wallets: [
+        { label: 'a', key: 'hd:120' },
+        { label: 'b', key: 'hd:121', enabled: false },
+        { label: 'c', key: 'hd:122', okb: 0.04, usdt: 0 }
+      ]
+    }));
+
+    try {
+      await distribute.distributeMain();
+    } finally {
+      fs.rmSync(configPath);
+    }
+
+    const [a, b, c] = [120, 121, 122].map(index =>
+      ethers.HDNodeWallet.fromPhrase(MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).address
+    );
+    assert.equal(await chain.provider.getBalance(a!), ethers.parseEther('0.02'));
+    assert.equal(await (chain.usdt as any).balanceOf(a!), ethers.parseUnits('3', 6));
+    assert.equal(await chain.provider.getBalance(b!), BigInt(0));
+    assert.equal(await chain.provider.getBalance(c!), ethers.parseEther('0.04'));
+    assert.equal(await (chain.usdt as any).balanceOf(c!), BigInt(0));
+
+    const journalFile = fs.readdirSync(journalDir).filter(file => file.endsWith('.jsonl')).sort().at(-1)!;
+    const journal = RunJournal.open(path.join(journalDir, journalFile));
+    assert.ok(journal.isDone());
+    assert.deepEqual(journal.wallets().map(entry => entry.label), ['a', 'c']);
+  });
+
+  it('补足模式只向现有子钱包转入低于目标余额的差额', async () => {
+    const distribute = await import('../distribute.js');
+    process.env.HD_WALLET_START_INDEX = '130';
+    (await import('../config.js')).reloadConfig();
+    const [a, b] = [130, 131].map(index =>
+      ethers.HDNodeWallet.fromPhrase(MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).address
+    );
+
+    // a: OKB不足、USDT已达到目标；b: OKB超过目标、没有USDT (用其他账户转入，避免占用主钱包的nonce)
+    const funder = new ethers.Wallet(chain.accountKeys[0]!, chain.provider);
+    await (await funder.sendTransaction({ to: a!, value: ethers.parseEther('0.02') })).wait();
+    await (await funder.sendTransaction({ to: b!, value: ethers.parseEther('0.06') })).wait();
+    await (await (chain.usdt.connect(funder) as any).mint(a!, ethers.parseUnits('7', 6))).wait();
+
+    await distribute.distributeMain({ topUp: true });
+
+    assert.equal(await chain.provider.getBalance(a!), ethers.parseEther('0.05'));
+    assert.equal(await (chain.usdt as any).balanceOf(a!), ethers.parseUnits('7', 6));
+    assert.equal(await chain.provider.getBalance(b!), ethers.parseEther('0.06'));
+    assert.equal(await (chain.usdt as any).balanceOf(b!), ethers.parseUnits('7', 6));
+
+    const journalFile = fs.readdirSync(journalDir).filter(file => file.endsWith('.jsonl')).sort().at(-1)!;
+    const journal = RunJournal.open(path.join(journalDir, journalFile));
+    assert.ok(journal.isDone());
+    assert.deepEqual(journal.wallets().map(entry => [entry.okb, entry.usdt]), [[0.03, 0], [0, 7]]);
+    assert.equal(journal.lastTransfer(0, 'OKB')?.amount, '0.03');
+    assert.equal(journal.lastTransfer(0, 'USDT'), undefined);
+    assert.equal(journal.lastTransfer(1, 'OKB'), undefined);
+
+    // 再次补足时所有钱包都已达到目标，不创建新的运行日志
+    await distribute.distributeMain({ topUp: true });
+    assert.equal(fs.readdirSync(journalDir).filter(file => file.endsWith('.jsonl')).sort().at(-1), journalFile);
+  });
+
+  it('归集后子钱包的OKB余额正好为0', async () => {
+    const distribute = await import('../distribute.js');
+    process.env.HD_WALLET_START_INDEX = '100';
+    (await import('../config.js')).reloadConfig();
+    const addresses = [100, 101].map(index =>
+      ethers.HDNodeWallet.fromPhrase(MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).address
+    );
+
+    assert.equal(await distribute.collectMain({ includeLp: true }), 0);
+
+    for (const address of addresses) {
+      assert.equal(await (chain.usdt as any).balanceOf(address), BigInt(0));
+      assert.equal(await chain.provider.getBalance(address), BigInt(0));
+    }
+  });
+
+  it('主钱包余额只够转账、不够gas费用时检查不通过', async () => {
+    const distribute = await import('../distribute.js');
+    const balance = await chain.provider.getBalance(chain.deployer.address);
+    assert.equal(await distribute.checkMainWalletBalance(balance, BigInt(0)), true);
+    assert.equal(await distribute.checkMainWalletBalance(balance, BigInt(0), BigInt(1)), false);
+  });
+
+  it('未部署合约的地址不可用于批量分发', async () => {
+    assert.equal(await isDisperseAvailable(ethers.Wallet.createRandom().address, chain.provider), false);
+    assert.equal(await isDisperseAvailable('', chain.provider), false);
+  });
+});
+
+describe('chunkByGas', () => {
+  it('整批超过gas上限时对半拆分', async () => {
+    const items = [1, 2, 3, 4, 5];
+    const chunks = await chunkByGas(items, async chunk => BigInt(21000 + chunk.length * 30000), BigInt(100000));
+    assert.deepEqual(chunks.map(chunk => chunk.items), [[1, 2], [3], [4, 5]]);
+    assert.ok(chunks.every(chunk => chunk.gasLimit <= BigInt(100000)));
+  });
+});
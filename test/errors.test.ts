@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { BotError, classifyError, decodeRevertReason, describeError, isRetryableError } from '../errors.js';
+import { retryOperation } from '../retry.js';
+
+// 模拟节点返回的Error(string)回退数据
+function revertData(reason: string): string {
+  return ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+}
+
+describe('errors.ts', () => {
+  it('解析路由器的回退原因并归类', () => {
+    const expired = { code: 'CALL_EXCEPTION', data: revertData('UniswapV2Router: EXPIRED') };
+    assert.equal(decodeRevertReason(expired), 'UniswapV2Router: EXPIRED');
+
+    const classified = classifyError(expired);
+    assert.equal(classified.kind, 'deadline-expired');
+    assert.equal(classified.revertReason, 'UniswapV2Router: EXPIRED');
+    assert.equal(classified.retryable, false);
+
+    assert.equal(classifyError({ code: 'CALL_EXCEPTION', reason: 'UniswapV2Router: INSUFFICIENT_B_AMOUNT' }).kind, 'slippage');
+    assert.equal(classifyError({ info: { error: { data: revertData('TransferHelper: TRANSFER_FROM_FAILED') } } }).kind, 'insufficient-allowance');
+    assert.equal(classifyError(new Error('execution reverted: ds-math-sub-underflow')).kind, 'insufficient-balance');
+  });
+
+  it('按ethers错误码、JSON-RPC错误码、HTTP状态和错误信息归类', () => {
+    const cases: [unknown, string][] = [
+      [{ code: 'INSUFFICIENT_FUNDS', message: 'insufficient funds for intrinsic transaction cost' }, 'insufficient-balance'],
+      [{ code: 'NONCE_EXPIRED', message: 'nonce has already been used' }, 'nonce-too-low'],
+      [new Error('nonce too low: next nonce 5, tx nonce 3'), 'nonce-too-low'],
+      [{ code: 'REPLACEMENT_UNDERPRICED', message: 'replacement fee too low' }, 'underpriced'],
+      [new Error('transaction underpriced'), 'underpriced'],
+      [{ code: 'UNKNOWN_ERROR', error: { code: -32011, message: 'node busy' } }, 'network'],
+      [{ code: 'UNKNOWN_ERROR', error: { code: -32005, message: 'limit exceeded' } }, 'rate-limited'],
+      [{ message: 'Request failed with status code 429', response: { status: 429 } }, 'rate-limited'],
+      [{ message: 'Request failed with status code 502', response: { status: 502 } }, 'network'],
+      [{ code: 'ECONNABORTED', message: 'timeout of 10000ms exceeded' }, 'timeout'],
+      [{ code: 'TIMEOUT', message: 'timeout' }, 'timeout'],
+      [new Error('something else'), 'unknown']
+    ];
+    for (const [error, kind] of cases) {
+      assert.equal(classifyError(error).kind, kind, JSON.stringify(error) ?? String(error));
+    }
+  });
+
+  it('已分类的错误保持原样，显示时带上分类名称', () => {
+    const error = new BotError('insufficient-balance', 'USDT余额不足: 需要10, 实际5');
+    assert.equal(classifyError(error), error);
+    assert.equal(describeError(error), '[余额不足] USDT余额不足: 需要10, 实际5');
+    assert.equal(isRetryableError(error), false);
+    assert.equal(isRetryableError({ response: { status: 503 } }), true);
+  });
+
+  it('retryOperation默认只重试临时错误', async () => {
+    let attempts = 0;
+    const result = await retryOperation(async () => {
+      attempts++;
+      if (attempts < 3) {
+        throw { code: 'UNKNOWN_ERROR', error: { code: -32005, message: 'rate limit' } };
+      }
+      return 'ok';
+    }, { delay: 1, onRetry: () => undefined });
+    assert.equal(result, 'ok');
+    assert.equal(attempts, 3);
+
+    attempts = 0;
+    await assert.rejects(retryOperation(async () => {
+      attempts++;
+      throw { code: 'CALL_EXCEPTION', reason: 'UniswapV2Router: INSUFFICIENT_A_AMOUNT' };
+    }, { delay: 1 }), { reason: 'UniswapV2Router: INSUFFICIENT_A_AMOUNT' });
+    assert.equal(attempts, 1);
+  });
+});
@@ -0,0 +1,162 @@
+import { ethers } from 'ethers';
+import ganache from 'ganache';
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// solc没有类型声明，通过require加载
+const require = createRequire(import.meta.url);
+const solc = require('solc');
+
+const CONTRACTS_DIR = path.resolve(process.cwd(), 'test', 'contracts');
+const CHAIN_ID = 196;
+
+interface Artifact {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+}
+
+export interface TestChain {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  deployer: ethers.Wallet;
+  // 预先充值了OKB的测试账户私钥 (不含deployer)
+  accountKeys: string[];
+  usdt: ethers.Contract;
+  wokb: ethers.Contract;
+  factory: ethers.Contract;
+  router: ethers.Contract;
+  pair: ethers.Contract;
+  artifacts: Record<string, Artifact>;
+  close(): Promise<void>;
+}
+
+// 编译test/contracts下的合约，结果按源码哈希缓存到系统临时目录
+function compileContracts(): Record<string, Artifact> {
+  const files = fs.readdirSync(CONTRACTS_DIR).filter(file => file.endsWith('.sol')).sort();
+  const sources: Record<string, { content: string }> = {};
+  const hash = createHash('sha256');
+  for (const file of files) {
+    const content = fs.readFileSync(path.join(CONTRACTS_DIR, file), 'utf8');
+    sources[file] = { content };
+    hash.update(file).update(content);
+  }
+
+  const cachePath = path.join(os.tmpdir(), `potato-swap-bot-contracts-${hash.digest('hex').slice(0, 16)}.json`);
+  if (fs.existsSync(cachePath)) {
+    return JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+  }
+
+  const input = {
+    language: 'Solidity',
+    sources,
+    settings: {
+      evmVersion: 'paris',
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } }
+    }
+  };
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors || []).filter((error: any) => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((error: any) => error.formattedMessage).join('\n'));
+  }
+
+  const artifacts: Record<string, Artifact> = {};
+  for (const file of Object.keys(output.contracts)) {
+    for (const [name, contract] of Object.entries<any>(output.contracts[file])) {
+      artifacts[name] = { abi: contract.abi, bytecode: '0x' + contract.evm.bytecode.object };
+    }
+  }
+  fs.writeFileSync(cachePath, JSON.stringify(artifacts));
+  return artifacts;
+}
+
+async function deploy(artifact: Artifact, signer: ethers.Wallet, ...args: unknown[]): Promise<ethers.Contract> {
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer);
+  const contract = await factory.deploy(...args);
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+// 启动本地测试链，部署USDT(6位)/WOKB/Factory/Router，并按 1 OKB = 170 USDT 初始化USDT/WOKB池子
+export async function startChain(): Promise<TestChain> {
+  const artifacts = compileContracts();
+
+  // 使用即时出块：定时出块 (miner.blockTime) 时ganache的eth_estimateGas在有待打包交易时会偶发卡死
+  const server = ganache.server({
+    logging: { quiet: true },
+    chain: { chainId: CHAIN_ID, hardfork: 'shanghai' },
+    wallet: { deterministic: true, totalAccounts: 10 }
+  });
+  await server.listen(0, '127.0.0.1');
+  const address = server.address() as { port: number };
+  const url = `http://127.0.0.1:${address.port}`;
+
+  // 关闭ethers对相同RPC请求的250ms缓存，否则连续部署时会拿到过期的nonce
+  const provider = new ethers.JsonRpcProvider(url, { chainId: CHAIN_ID, name: 'X Layer' }, { staticNetwork: true, pollingInterval: 50, cacheTimeout: -1 });
+  // ganache按最新区块的时间戳估算gas，实际打包时时间戳可能已经前进一秒，交易对_update会额外写入累计价格 (约4.5万gas)，
+  // 按估算值发送的交易会因gas不足回退，这里给估算结果加上固定余量
+  const estimateGas = provider.estimateGas.bind(provider);
+  provider.estimateGas = async tx => (await estimateGas(tx)) + BigInt(60000);
+  const keys = Object.values(server.provider.getInitialAccounts()).map(account => account.secretKey);
+  const deployer = new ethers.Wallet(keys[0]!, provider);
+
+  const usdt = await deploy(artifacts.MockERC20!, deployer, 'Tether USD', 'USDT', 6);
+  const wokb = await deploy(artifacts.WOKB!, deployer);
+  const factory = await deploy(artifacts.UniswapV2Factory!, deployer);
+  const router = await deploy(artifacts.UniswapV2Router!, deployer, await factory.getAddress(), await wokb.getAddress());
+
+  // 初始流动性: 17000 USDT + 100 OKB
+  const routerAddress = await router.getAddress();
+  await (await (usdt as any).mint(deployer.address, ethers.parseUnits('1000000', 6))).wait();
+  await (await (usdt as any).approve(routerAddress, ethers.MaxUint256)).wait();
+  await (await (router as any).addLiquidityETH(
+    await usdt.getAddress(),
+    ethers.parseUnits('17000', 6),
+    0,
+    0,
+    deployer.address,
+    Math.floor(Date.now() / 1000) + 3600,
+    { value: ethers.parseEther('100') }
+  )).wait();
+
+  const pairAddress = await (factory as any).getPair(await usdt.getAddress(), await wokb.getAddress());
+  const pair = new ethers.Contract(pairAddress, artifacts.UniswapV2Pair!.abi, deployer);
+
+  return {
+    url,
+    provider,
+    deployer,
+    accountKeys: keys.slice(1),
+    usdt,
+    wokb,
+    factory,
+    router,
+    pair,
+    artifacts,
+    async close() {
+      provider.destroy();
+      await server.close();
+    }
+  };
+}
+
+// 指向测试链合约的环境变量，需在动态导入被测脚本之前设置
+export async function chainEnv(chain: TestChain): Promise<Record<string, string>> {
+  return {
+    RPC_URL: chain.url,
+    // 测试中不连接公共备用节点
+    RPC_FALLBACK_URLS: '',
+    // 测试中不写日志文件
+    LOG_DIR: '',
+    // 新部署的测试链没有TWAP窗口需要的历史，也不连接外部价格接口
+    PRICE_ALLOW_SPOT_ONLY: 'true',
+    CHAIN_ID: String(CHAIN_ID),
+    USDT_CONTRACT: await chain.usdt.getAddress(),
+    WOKB_CONTRACT: await chain.wokb.getAddress(),
+    POTATO_SWAP_ROUTER: await chain.router.getAddress()
+  };
+}
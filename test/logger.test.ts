@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// 日志文件是异步写入的，等到满足条件或超时
+async function waitFor<T>(read: () => T | undefined, timeoutMs: number = 3000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = read();
+    if (value !== undefined) {
+      return value;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error('等待日志写入超时');
+}
+
+describe('logger.ts', () => {
+  let outDir: string;
+  let logger: typeof import('../logger.js');
+
+  // 读取JSON日志文件中包含marker的行
+  const readLines = (marker: string, count: number) => waitFor(() => {
+    const file = path.join(outDir, 'potato-swap-bot.log');
+    const lines = fs.existsSync(file)
+      ? fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line)).filter(line => line.message.includes(marker))
+      : [];
+    return lines.length >= count ? lines : undefined;
+  });
+
+  before(async () => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-'));
+    Object.assign(process.env, { LOG_DIR: outDir, LOG_LEVEL: 'info', LOG_FORMAT: 'json' });
+    logger = await import('../logger.js');
+  });
+
+  after(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('并发执行时每行日志带有各自钱包的关联字段', async () => {
+    const task = (walletIndex: number, wallet: string) => logger.withLogContext({ walletIndex, wallet }, async () => {
+      for (let step = 0; step < 3; step++) {
+        logger.log.info(`并发测试 钱包${walletIndex} 步骤${step}`);
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+    });
+    await Promise.all([task(1, '0x' + '1'.repeat(40)), task(2, '0x' + '2'.repeat(40))]);
+
+    const lines = await readLines('并发测试', 6);
+    for (const line of lines) {
+      assert.equal(line.runId, logger.getRunId());
+      assert.ok(line.message.includes(`钱包${line.walletIndex}`));
+      assert.equal(line.wallet, '0x' + String(line.walletIndex).repeat(40));
+    }
+  });
+
+  it('隐藏私钥和签名，保留交易哈希', async () => {
+    const privateKey = '0x' + 'ab'.repeat(32);
+    const signature = '0x' + 'cd'.repeat(65);
+    const txHash = '0x' + 'ef'.repeat(32);
+    logger.registerSecret(privateKey);
+
+    logger.log.info(`脱敏测试 ${privateKey} ${privateKey.slice(2)} 签名: ${signature} 交易哈希: ${txHash} password=hunter22`);
+    logger.log.error('脱敏测试 错误:', { privateKey: '0x1234', nested: { note: `key ${privateKey}` } });
+
+    const [info, error] = await readLines('脱敏测试', 2);
+    assert.equal(info.message, `脱敏测试 [REDACTED] [REDACTED] 签名: [REDACTED] 交易哈希: ${txHash} password=[REDACTED]`);
+    assert.equal(info.level, 'info');
+    assert.equal(error.level, 'error');
+    assert.ok(!error.message.includes(privateKey.slice(2)));
+    assert.ok(!error.message.includes('0x1234'));
+  });
+
+  it('低于LOG_LEVEL的日志不输出', async () => {
+    logger.log.debug('级别测试 debug');
+    logger.log.warn('级别测试 warn');
+
+    const lines = await readLines('级别测试', 1);
+    assert.deepEqual(lines.map(line => line.level), ['warn']);
+  });
+
+  it('日志文件超过大小后轮转，只保留LOG_MAX_FILES个', async () => {
+    const rotateDir = path.join(outDir, 'rotate');
+    const rotating = logger.createLogger({ level: 'info', format: 'json', dir: rotateDir, maxSizeMb: 0.001, maxFiles: 2 });
+    for (let i = 0; i < 30; i++) {
+      rotating.info(`轮转测试 ${i} ${'x'.repeat(100)}`);
+      await new Promise(resolve => setTimeout(resolve, 2));
+    }
+
+    const files = await waitFor(() => {
+      const names = fs.existsSync(rotateDir) ? fs.readdirSync(rotateDir).sort() : [];
+      return names.length === 2 ? names : undefined;
+    });
+    assert.deepEqual(files, ['potato-swap-bot.log', 'potato-swap-bot1.log']);
+    rotating.close();
+  });
+});
@@ -0,0 +1,342 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { chainEnv, startChain, type TestChain } from './helpers/chain.js';
+
+describe('potato.ts (本地测试链)', () => {
+  let chain: TestChain;
+  let wallet: ethers.Wallet;
+  let potato: typeof import('../potato.js');
+  let pool: import('../potato.js').LiquidityPool;
+
+  before(async () => {
+    chain = await startChain();
+    Object.assign(process.env, await chainEnv(chain), { SLIPPAGE_TOLERANCE: '5' });
+    potato = await import('../potato.js');
+
+    // 准备一个持有OKB和USDT的子钱包
+    wallet = new ethers.Wallet(chain.accountKeys[0]!, chain.provider);
+    await (await (chain.usdt as any).mint(wallet.address, ethers.parseUnits('100', 6))).wait();
+
+    // 默认交易对 OKB/USDT
+    [pool] = await potato.getLiquidityPools(wallet) as [typeof pool];
+  });
+
+  after(async () => {
+    await chain.close();
+  });
+
+  it('approveTokenForSwap 默认只授权需要的数量，额度足够时跳过', async () => {
+    const usdtAddress = await chain.usdt.getAddress();
+    const routerAddress = await chain.router.getAddress();
+
+    const txHash = await potato.approveTokenForSwap(wallet, usdtAddress, routerAddress, ethers.parseUnits('5', 6), 6);
+    assert.match(txHash!, /^0x[0-9a-f]{64}$/);
+    assert.equal(await (chain.usdt as any).allowance(wallet.address, routerAddress), ethers.parseUnits('5', 6));
+
+    const second = await potato.approveTokenForSwap(wallet, usdtAddress, routerAddress, ethers.parseUnits('3', 6), 6);
+    assert.equal(second, null);
+  });
+
+  it('approveTokenForSwap 按APPROVAL_MODE授权倍数或无限额度', async () => {
+    const { getConfig } = await import('../config.js');
+    const config = getConfig();
+    const usdtAddress = await chain.usdt.getAddress();
+    const routerAddress = await chain.router.getAddress();
+    try {
+      config.approvalMode = 'multiple';
+      assert.equal(potato.getApprovalAmount(ethers.parseUnits('10', 6)), ethers.parseUnits('30', 6));
+      await potato.approveTokenForSwap(wallet, usdtAddress, routerAddress, ethers.parseUnits('10', 6), 6);
+      assert.equal(await (chain.usdt as any).allowance(wallet.address, routerAddress), ethers.parseUnits('30', 6));
+
+      config.approvalMode = 'unlimited';
+      await potato.approveTokenForSwap(wallet, usdtAddress, routerAddress, ethers.parseUnits('40', 6), 6);
+      assert.equal(await (chain.usdt as any).allowance(wallet.address, routerAddress), ethers.MaxUint256);
+    } finally {
+      config.approvalMode = 'exact';
+    }
+  });
+
+  it('默认交易对为OKB/USDT，代币精度从合约读取', () => {
+    assert.equal(pool.name, 'OKB/USDT');
+    assert.equal(pool.tokenA.native, true);
+    assert.equal(pool.tokenB.decimals, 6);
+    assert.equal(pool.pairAddress, chain.pair.target);
+  });
+
+  it('getPairAmountFromRouter 通过getAmountsOut报价', async () => {
+    const usdtAmount = ethers.parseUnits('17', 6);
+    const expected = (await (chain.router as any).getAmountsOut(usdtAmount, [
+      await chain.usdt.getAddress(),
+      await chain.wokb.getAddress()
+    ]))[1];
+
+    const okbAmount = await potato.getPairAmountFromRouter(wallet, pool, usdtAmount);
+    assert.equal(okbAmount, expected);
+  });
+
+  it('getPairAmountFromRouter 在getAmountsOut失败时回退到池子储备quote', async () => {
+    await (await (chain.router as any).setAmountsOutDisabled(true)).wait();
+    try {
+      // 池子比例 17000 USDT : 100 OKB，quote不含手续费
+      const okbAmount = await potato.getPairAmountFromRouter(wallet, pool, ethers.parseUnits('17', 6));
+      assert.equal(okbAmount, ethers.parseEther('0.1'));
+    } finally {
+      await (await (chain.router as any).setAmountsOutDisabled(false)).wait();
+    }
+  });
+
+  it('addLiquidity 对包含OKB的交易对使用addLiquidityETH并获得LP', async () => {
+    const usdtAmount = ethers.parseUnits('17', 6);
+    const okbAmount = ethers.parseEther('0.1');
+    const lpBefore: bigint = await (chain.pair as any).balanceOf(wallet.address);
+
+    const txHash = await potato.addLiquidity(
+      wallet,
+      await chain.router.getAddress(),
+      pool,
+      okbAmount,
+      usdtAmount
+    );
+    assert.equal(typeof txHash, 'string');
+
+    const receipt = await chain.provider.getTransactionReceipt(txHash as string);
+    assert.equal(receipt?.status, 1);
+    const lpAfter: bigint = await (chain.pair as any).balanceOf(wallet.address);
+    assert.ok(lpAfter > lpBefore);
+  });
+
+  it('removeLiquidity 按比例撤出LP并取回OKB和USDT', async () => {
+    const lpBefore: bigint = await (chain.pair as any).balanceOf(wallet.address);
+
+    const result = await potato.removeLiquidity(
+      wallet,
+      await chain.router.getAddress(),
+      pool,
+      50
+    );
+
+    assert.ok(result);
+    assert.equal(result.liquidity, lpBefore / 2n);
+    assert.ok(result.amountAReceived > 0n);
+    assert.ok(result.amountBReceived > 0n);
+    assert.equal(await (chain.pair as any).balanceOf(wallet.address), lpBefore - result.liquidity);
+  });
+
+  it('removeLiquidity 使用permit签名时不留下LP授权，不支持permit的代币回退为approve', async () => {
+    const { getConfig } = await import('../config.js');
+    const config = getConfig();
+    const routerAddress = await chain.router.getAddress();
+
+    assert.equal(await potato.supportsPermit(chain.pair), true);
+    assert.equal(await potato.supportsPermit(chain.usdt), false);
+
+    config.removeWithPermit = true;
+    try {
+      const result = await potato.removeLiquidity(wallet, routerAddress, pool, 50);
+      assert.ok(result);
+      assert.equal(await (chain.pair as any).allowance(wallet.address, routerAddress), 0n);
+    } finally {
+      config.removeWithPermit = false;
+    }
+  });
+
+  it('ERC20/ERC20交易对使用addLiquidity和removeLiquidity', async () => {
+    const { loadConfig } = await import('../config.js');
+    const routerAddress = await chain.router.getAddress();
+    const usdtAddress = await chain.usdt.getAddress();
+
+    // 部署18位精度的WETH并按 1 WETH = 2500 USDT 建池
+    const factory = new ethers.ContractFactory(chain.artifacts.MockERC20!.abi, chain.artifacts.MockERC20!.bytecode, chain.deployer);
+    const weth = await factory.deploy('Wrapped Ether', 'WETH', 18);
+    await weth.waitForDeployment();
+    const wethAddress = await weth.getAddress();
+    await (await (weth as any).mint(chain.deployer.address, ethers.parseEther('10'))).wait();
+    await (await (weth as any).mint(wallet.address, ethers.parseEther('1'))).wait();
+    await (await (weth as any).approve(routerAddress, ethers.MaxUint256)).wait();
+    await (await (chain.router as any).addLiquidity(
+      wethAddress,
+      usdtAddress,
+      ethers.parseEther('10'),
+      ethers.parseUnits('25000', 6),
+      0,
+      0,
+      chain.deployer.address,
+      Math.floor(Date.now() / 1000) + 3600
+    )).wait();
+
+    const [pairConfig] = loadConfig({ ...process.env, WETH_CONTRACT: wethAddress, LIQUIDITY_PAIRS: 'WETH/USDT' }).liquidityPairs;
+    const wethPool = await potato.resolvePool(pairConfig!, wallet);
+    assert.equal(wethPool.name, 'WETH/USDT');
+    assert.equal(wethPool.tokenA.decimals, 18);
+    assert.equal(wethPool.tokenB.decimals, 6);
+
+    const usdtAmount = ethers.parseUnits('25', 6);
+    const wethAmount = await potato.getPairAmountFromRouter(wallet, wethPool, usdtAmount);
+    assert.ok(wethAmount);
+
+    const txHash = await potato.addLiquidity(wallet, routerAddress, wethPool, wethAmount, usdtAmount);
+    const receipt = await chain.provider.getTransactionReceipt(txHash as string);
+    assert.equal(receipt?.status, 1);
+
+    const lp = potato.getLpPair(wallet, wethPool);
+    assert.ok(await (lp as any).balanceOf(wallet.address) > 0n);
+
+    const result = await potato.removeLiquidity(wallet, routerAddress, wethPool, 100);
+    assert.ok(result);
+    assert.ok(result.amountAReceived > 0n);
+    assert.ok(result.amountBReceived > 0n);
+    assert.equal(await (lp as any).balanceOf(wallet.address), 0n);
+  });
+
+  it('addLiquidity 按储备计算最优数量设置最小值，期望比例偏离池子时不再回退', async () => {
+    const routerAddress = await chain.router.getAddress();
+    const { reserveA, reserveB } = await potato.getPoolReserves(pool, wallet);
+    const usdtAmount = ethers.parseUnits('17', 6);
+    // 多给10%的OKB：按期望数量的95%计算最小值时会触发 INSUFFICIENT_A_AMOUNT
+    const okbAmount = (usdtAmount * reserveA / reserveB) * 110n / 100n;
+
+    const optimal = await potato.getOptimalAmounts(chain.router, okbAmount, usdtAmount, reserveA, reserveB);
+    assert.equal(optimal.amountB, usdtAmount);
+    assert.equal(optimal.amountA, usdtAmount * reserveA / reserveB);
+
+    const report = await potato.addLiquidity(wallet, routerAddress, pool, okbAmount, usdtAmount, { dryRun: true }) as import('../potato.js').DryRunReport;
+    assert.equal(report.wouldRevert, false);
+    assert.equal(report.amountA, optimal.amountA);
+    assert.equal(report.amountAMin, optimal.amountA * 9500n / 10000n);
+
+    const txHash = await potato.addLiquidity(wallet, routerAddress, pool, okbAmount, usdtAmount);
+    const receipt = await chain.provider.getTransactionReceipt(txHash as string);
+    assert.equal(receipt?.status, 1);
+  });
+
+  it('getZapSwapAmount 兑换后剩余部分与换得数量符合新的池子比例', () => {
+    const reserveIn = ethers.parseUnits('17000', 6);
+    const reserveOut = ethers.parseEther('100');
+    const amountIn = ethers.parseUnits('340', 6);
+
+    const swapAmount = potato.getZapSwapAmount(amountIn, reserveIn);
+    const amountOut = (swapAmount * 997n * reserveOut) / (reserveIn * 1000n + swapAmount * 997n);
+    const left = Number(amountIn - swapAmount) / Number(amountOut);
+    const ratio = Number(reserveIn + swapAmount) / Number(reserveOut - amountOut);
+    assert.ok(Math.abs(left / ratio - 1) < 1e-6);
+  });
+
+  it('rebalanceForLiquidity OKB不足时先用USDT兑换补足再添加流动性', async () => {
+    const routerAddress = await chain.router.getAddress();
+    const poor = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, chain.provider);
+    await (await chain.deployer.sendTransaction({ to: poor.address, value: ethers.parseEther('0.02') })).wait();
+    await (await (chain.usdt as any).mint(poor.address, ethers.parseUnits('100', 6))).wait();
+
+    const usdtAmount = ethers.parseUnits('17', 6);
+    const okbAmount = (await potato.getPairAmountFromRouter(poor, pool, usdtAmount))!;
+    const { amountA, amountB } = await potato.rebalanceForLiquidity(poor, routerAddress, pool, okbAmount, usdtAmount);
+
+    // 兑换后接近目标数量，且OKB仍保留了gas费用 (GAS_RESERVE_OKB默认0.005)
+    assert.ok(amountA <= okbAmount && amountA > okbAmount * 98n / 100n);
+    assert.ok(amountB <= usdtAmount && amountB > usdtAmount * 98n / 100n);
+    assert.ok(await chain.provider.getBalance(poor.address) >= amountA + ethers.parseEther('0.005'));
+    assert.ok(await (chain.usdt as any).balanceOf(poor.address) < ethers.parseUnits('100', 6));
+
+    const txHash = await potato.addLiquidity(poor, routerAddress, pool, amountA, amountB);
+    const receipt = await chain.provider.getTransactionReceipt(txHash as string);
+    assert.equal(receipt?.status, 1);
+  });
+
+  it('addLiquidityMain 跳过余额不足的钱包，写入运行汇总并可只重试未成功的钱包', async () => {
+    const { getConfig } = await import('../config.js');
+    const config = getConfig();
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'potato-summary-'));
+    const summaryPath = path.join(outDir, 'summary.json');
+    const poor = ethers.Wallet.createRandom();
+    await (await (chain.usdt as any).mint(wallet.address, ethers.parseUnits('10', 6))).wait();
+
+    Object.assign(process.env, { TEST_RICH_KEY: wallet.privateKey, TEST_POOR_KEY: poor.privateKey });
+    fs.writeFileSync(path.join(outDir, 'wallets.config.json'), JSON.stringify({
+      defaults: { okb: 0.05, usdt: 5, liquidityUsdt: 2 },
+      wallets: [{ label: 'rich', key: 'env:TEST_RICH_KEY' }, { label: 'poor', key: 'env:TEST_POOR_KEY' }]
+    }));
+    // addLiquidityMain通过共用的提供者发送交易，与测试链的提供者一样给估算gas加上余量 (原因见helpers/chain.ts)
+    const provider = await (await import('../provider.js')).getProvider();
+    const estimateGas = provider.estimateGas.bind(provider);
+    provider.estimateGas = async tx => (await estimateGas(tx)) + BigInt(60000);
+
+    const walletConfigPath = config.walletConfigPath;
+    try {
+      config.walletConfigPath = path.join(outDir, 'wallets.config.json');
+      const summary = await potato.addLiquidityMain({ summaryPath });
+
+      assert.equal(summary.total, 2);
+      assert.equal(summary.ready, 1);
+      assert.equal(summary.underfunded, 1);
+      assert.equal(summary.failureCount, 1);
+      assert.deepEqual(summary.failedWallets, [poor.address]);
+      const [rich, skipped] = summary.wallets as [import('../potato.js').WalletRunSummary, import('../potato.js').WalletRunSummary];
+      assert.equal(rich.status, 'succeeded');
+      assert.match(rich.pools[0]!.txHash!, /^0x[0-9a-f]{64}$/);
+      assert.equal(skipped.balanceStatus, 'underfunded');
+      assert.equal(skipped.status, 'skipped');
+      assert.deepEqual(skipped.pools, []);
+      assert.deepEqual(JSON.parse(fs.readFileSync(summaryPath, 'utf8')), summary);
+
+      // 重试时只处理上次未成功的钱包
+      const retry = await potato.addLiquidityMain({ summaryPath: path.join(outDir, 'retry.json'), retryFrom: summaryPath });
+      assert.equal(retry.total, 1);
+      assert.deepEqual(retry.failedWallets, [poor.address]);
+    } finally {
+      config.walletConfigPath = walletConfigPath;
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+
+  it('addLiquidityMain 启用自动兑换时处理单边不足但总价值足够的钱包', async () => {
+    const { getConfig } = await import('../config.js');
+    const config = getConfig();
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'potato-rebalance-'));
+    // 只有OKB、没有USDT的钱包
+    const lopsided = ethers.Wallet.createRandom();
+    await (await chain.deployer.sendTransaction({ to: lopsided.address, value: ethers.parseEther('0.1') })).wait();
+
+    Object.assign(process.env, { TEST_LOPSIDED_KEY: lopsided.privateKey });
+    fs.writeFileSync(path.join(outDir, 'wallets.config.json'), JSON.stringify({
+      defaults: { okb: 0.1, usdt: 0, liquidityUsdt: 2 },
+      wallets: [{ label: 'lopsided', key: 'env:TEST_LOPSIDED_KEY' }]
+    }));
+    const provider = await (await import('../provider.js')).getProvider();
+    const estimateGas = provider.estimateGas;
+    provider.estimateGas = async tx => (await estimateGas.call(provider, tx)) + BigInt(60000);
+
+    const walletConfigPath = config.walletConfigPath;
+    try {
+      config.walletConfigPath = path.join(outDir, 'wallets.config.json');
+
+      // 未启用自动兑换时跳过
+      const skipped = await potato.addLiquidityMain({ summaryPath: path.join(outDir, 'skipped.json'), rebalance: false });
+      assert.equal(skipped.unbalanced, 1);
+      assert.equal(skipped.wallets[0]!.balanceStatus, 'unbalanced');
+      assert.equal(skipped.wallets[0]!.status, 'skipped');
+      assert.deepEqual(skipped.failedWallets, [lopsided.address]);
+
+      const summary = await potato.addLiquidityMain({ summaryPath: path.join(outDir, 'summary.json'), rebalance: true });
+      assert.equal(summary.unbalanced, 1);
+      assert.equal(summary.failureCount, 0);
+      assert.equal(summary.wallets[0]!.status, 'succeeded');
+      assert.match(summary.wallets[0]!.pools[0]!.txHash!, /^0x[0-9a-f]{64}$/);
+      assert.ok(await (chain.pair as any).balanceOf(lopsided.address) > BigInt(0));
+    } finally {
+      provider.estimateGas = estimateGas;
+      config.walletConfigPath = walletConfigPath;
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+
+  it('LIQUIDITY_PAIRS 格式错误时报错', async () => {
+    const { loadConfig } = await import('../config.js');
+    assert.throws(() => loadConfig({ LIQUIDITY_PAIRS: 'OKB-USDT' }), /代币A\/代币B/);
+    assert.throws(() => loadConfig({ LIQUIDITY_PAIRS: 'OKB/WOKB' }), /同一个代币/);
+    assert.throws(() => loadConfig({ LIQUIDITY_PAIRS: 'OKB/DOGE' }), /不是有效的合约地址/);
+  });
+});
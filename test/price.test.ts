@@ -0,0 +1,140 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { ethers } from 'ethers';
+import { chainEnv, startChain, type TestChain } from './helpers/chain.js';
+
+describe('price.ts (本地测试链)', () => {
+  let chain: TestChain;
+  let server: http.Server;
+  let price: typeof import('../price.js');
+  let pool: import('../potato.js').LiquidityPool;
+  // 模拟外部价格接口
+  let feedPrice = '170';
+  let feedStatus = 200;
+  let feedUrl = '';
+  // 接下来这么多次请求返回429
+  let feedRateLimited = 0;
+
+  before(async () => {
+    chain = await startChain();
+
+    server = http.createServer((req, res) => {
+      feedUrl = req.url ?? '';
+      if (feedRateLimited > 0) {
+        feedRateLimited--;
+        res.writeHead(429, { 'Retry-After': '0' });
+        res.end();
+        return;
+      }
+      res.writeHead(feedStatus, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ data: [{ last: feedPrice }] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    Object.assign(process.env, await chainEnv(chain), {
+      PRICE_MAX_DEVIATION: '3',
+      PRICE_TWAP_BLOCKS: '1',
+      PRICE_FEED_URL: `http://127.0.0.1:${port}/ticker?instId={A}-{B}`,
+      PRICE_FEED_FIELD: 'data.0.last',
+      PRICE_ALLOW_SPOT_ONLY: 'false'
+    });
+    price = await import('../price.js');
+    const potato = await import('../potato.js');
+    [pool] = await potato.getLiquidityPools(chain.provider) as [typeof pool];
+
+    // 建池之后经过10分钟再出一个块，作为TWAP时间窗口
+    await chain.provider.send('evm_increaseTime', [600]);
+    await chain.provider.send('evm_mine', []);
+  });
+
+  after(async () => {
+    await chain.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('各价格来源一致时通过校验', async () => {
+    const result = await price.checkPoolPrice(pool, chain.provider, 169.5);
+
+    assert.ok(Math.abs(result.price - 170) < 1e-9);
+    assert.equal(result.sources.length, 4);
+    assert.ok(result.sources.every(source => source.price !== null));
+    const twap = result.sources.find(source => source.name.startsWith('TWAP'))!;
+    assert.ok(Math.abs(twap.price! - 170) < 0.01);
+    assert.equal(feedUrl, '/ticker?instId=OKB-USDT');
+  });
+
+  it('外部价格接口限流时按Retry-After重试，其他错误响应不重试', async () => {
+    feedRateLimited = 2;
+    assert.equal(await price.getFeedPrice(pool, process.env.PRICE_FEED_URL!, 'data.0.last'), 170);
+    assert.equal(feedRateLimited, 0);
+
+    feedStatus = 404;
+    try {
+      await assert.rejects(price.getFeedPrice(pool, process.env.PRICE_FEED_URL!, 'data.0.last'), { name: 'BotError', kind: 'unknown', message: 'HTTP 404' });
+    } finally {
+      feedStatus = 200;
+    }
+  });
+
+  it('外部价格偏差超过阈值时中止', async () => {
+    feedPrice = '150';
+    try {
+      await assert.rejects(price.checkPoolPrice(pool, chain.provider, 169.5), /价格来源偏差超过3%: 外部价格/);
+    } finally {
+      feedPrice = '170';
+    }
+  });
+
+  it('池子价格被大额交易推动后与TWAP偏差过大时中止', async () => {
+    await chain.provider.send('evm_increaseTime', [60]);
+    const deadline = Math.floor(Date.now() / 1000) + 3600;
+    await (await (chain.router as any).swapExactETHForTokens(
+      0,
+      [await chain.wokb.getAddress(), await chain.usdt.getAddress()],
+      chain.deployer.address,
+      deadline,
+      { value: ethers.parseEther('20') }
+    )).wait();
+
+    const spot = await price.getSpotPrice(pool, chain.provider);
+    assert.ok(spot < 130);
+    // 关闭外部价格，只由TWAP发现偏差
+    feedStatus = 500;
+    try {
+      await assert.rejects(price.checkPoolPrice(pool, chain.provider, spot), /TWAP/);
+    } finally {
+      feedStatus = 200;
+    }
+  });
+
+  it('TWAP不可用且没有外部价格时中止，设置PRICE_ALLOW_SPOT_ONLY后只按池子价格校验', async () => {
+    const config = (await import('../config.js')).getConfig();
+    const { priceTwapBlocks, priceFeedUrl } = config;
+    // 窗口起点早于交易对创建，查询不到累计价格
+    config.priceTwapBlocks = 1_000_000;
+    config.priceFeedUrl = '';
+    try {
+      const spot = await price.getSpotPrice(pool, chain.provider);
+      await assert.rejects(price.checkPoolPrice(pool, chain.provider, spot), /TWAP和外部价格都不可用/);
+
+      config.priceAllowSpotOnly = true;
+      const result = await price.checkPoolPrice(pool, chain.provider, spot);
+      assert.equal(result.price, spot);
+      assert.equal(result.sources.filter(source => source.price !== null).length, 2);
+    } finally {
+      Object.assign(config, { priceTwapBlocks, priceFeedUrl, priceAllowSpotOnly: false });
+    }
+  });
+
+  it('所有价格来源都不可用时中止', async () => {
+    feedStatus = 500;
+    try {
+      const missing = { ...pool, pairAddress: chain.deployer.address };
+      await assert.rejects(price.checkPoolPrice(missing, chain.provider, null), /所有价格来源都不可用/);
+    } finally {
+      feedStatus = 200;
+    }
+  });
+});
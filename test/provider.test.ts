@@ -0,0 +1,74 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import ganache from 'ganache';
+import { loadConfig } from '../config.js';
+import { checkRpcEndpoints, createProvider, probeRpcEndpoint } from '../provider.js';
+
+// 没有监听的端口，连接会立即被拒绝
+const DEAD_URL = 'http://127.0.0.1:1';
+
+async function startNode(chainId: number) {
+  const server = ganache.server({ logging: { quiet: true }, chain: { chainId }, wallet: { totalAccounts: 1 } });
+  await server.listen(0, '127.0.0.1');
+  const { port } = server.address() as { port: number };
+  return { url: `http://127.0.0.1:${port}`, server };
+}
+
+describe('provider.ts RPC故障转移', () => {
+  let primary: Awaited<ReturnType<typeof startNode>>;
+  let backup: Awaited<ReturnType<typeof startNode>>;
+  let otherChain: Awaited<ReturnType<typeof startNode>>;
+
+  before(async () => {
+    // 测试中不写日志文件
+    process.env.LOG_DIR = '';
+    primary = await startNode(196);
+    backup = await startNode(196);
+    otherChain = await startNode(1);
+  });
+
+  after(async () => {
+    // 故障转移用例会提前关闭其中一个节点
+    await Promise.all([primary, backup, otherChain].map(node => node.server.close().catch(() => undefined)));
+  });
+
+  it('probeRpcEndpoint 检查链ID、区块和延迟', async () => {
+    const healthy = await probeRpcEndpoint(primary.url, 196);
+    assert.equal(healthy.healthy, true);
+    assert.equal(healthy.blockNumber, 0);
+    assert.ok(healthy.latencyMs !== undefined);
+
+    const wrongChain = await probeRpcEndpoint(otherChain.url, 196);
+    assert.equal(wrongChain.healthy, false);
+    assert.match(wrongChain.error!, /链ID不匹配/);
+
+    const dead = await probeRpcEndpoint(DEAD_URL, 196, 2000);
+    assert.equal(dead.healthy, false);
+  });
+
+  it('createProvider 跳过不可用的RPC_URL，使用健康的备用节点', async () => {
+    const config = loadConfig({ RPC_URL: DEAD_URL, RPC_FALLBACK_URLS: `${otherChain.url},${backup.url}`, RPC_TIMEOUT_MS: '2000' });
+    const healthy = await checkRpcEndpoints(config);
+    assert.deepEqual(healthy.map(item => item.url), [backup.url]);
+
+    const provider = await createProvider(config);
+    assert.ok(provider instanceof ethers.JsonRpcProvider);
+    assert.equal(await provider.getBlockNumber(), 0);
+    provider.destroy();
+  });
+
+  it('createProvider 多个健康节点时在请求失败后切换到下一个', async () => {
+    const config = loadConfig({ RPC_URL: primary.url, RPC_FALLBACK_URLS: backup.url, RPC_TIMEOUT_MS: '2000' });
+    const provider = await createProvider(config);
+    assert.ok(provider instanceof ethers.FallbackProvider);
+
+    // 关闭优先级最高的节点后请求仍然成功
+    const first = provider.providerConfigs[0]!.provider as ethers.JsonRpcProvider;
+    const firstNode = first._getConnection().url === primary.url ? primary : backup;
+    await firstNode.server.close();
+
+    assert.equal(await provider.getBlockNumber(), 0);
+    provider.destroy();
+  });
+});
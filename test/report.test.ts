@@ -0,0 +1,116 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { analyzePosition } from '../report.js';
+import { chainEnv, startChain, type TestChain } from './helpers/chain.js';
+
+describe('report.ts (本地测试链)', () => {
+  let chain: TestChain;
+  let wallet: ethers.Wallet;
+  let outDir: string;
+
+  before(async () => {
+    chain = await startChain();
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-'));
+    wallet = new ethers.Wallet(chain.accountKeys[0]!, chain.provider);
+
+    Object.assign(process.env, await chainEnv(chain), {
+      SUB_WALLET_PRIVATE_KEYS: wallet.privateKey,
+      WALLET_STORE_PATH: path.join(outDir, 'wallets.vault.json'),
+      // 使用很小的查询范围，覆盖分段查询日志
+      LOG_BLOCK_RANGE: '3'
+    });
+
+    // 子钱包按池子比例添加 17 USDT + 0.1 OKB
+    const potato = await import('../potato.js');
+    await (await (chain.usdt as any).mint(wallet.address, ethers.parseUnits('100', 6))).wait();
+    const [pool] = await potato.getLiquidityPools(wallet);
+    await potato.addLiquidity(wallet, await chain.router.getAddress(), pool!, ethers.parseEther('0.1'), ethers.parseUnits('17', 6));
+  });
+
+  after(async () => {
+    await chain.close();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('从Mint事件恢复投入数量，价格变化后计算无常损失和手续费', async () => {
+    const { reportMain } = await import('../report.js');
+    const deadline = Math.floor(Date.now() / 1000) + 3600;
+    const usdtAddress = await chain.usdt.getAddress();
+    const wokbAddress = await chain.wokb.getAddress();
+
+    // 大额买入USDT推动价格，再反向卖出一部分，产生手续费
+    await (await (chain.router as any).swapExactETHForTokens(0, [wokbAddress, usdtAddress], chain.deployer.address, deadline, { value: ethers.parseEther('20') })).wait();
+    await (await (chain.router as any).swapExactTokensForETH(ethers.parseUnits('1000', 6), 0, [usdtAddress, wokbAddress], chain.deployer.address, deadline)).wait();
+
+    // 投入数量从按区块范围查询的Mint事件读取，不逐笔读取交易回执
+    const provider = await (await import('../provider.js')).getProvider();
+    const getTransactionReceipt = provider.getTransactionReceipt;
+    let receipts = 0;
+    provider.getTransactionReceipt = async hash => {
+      receipts++;
+      return getTransactionReceipt.call(provider, hash);
+    };
+
+    const csvPath = path.join(outDir, 'report.csv');
+    const jsonPath = path.join(outDir, 'report.json');
+    const [report] = await reportMain({ csvPath, jsonPath }).finally(() => {
+      provider.getTransactionReceipt = getTransactionReceipt;
+    });
+    assert.equal(receipts, 0);
+
+    assert.ok(report);
+    assert.equal(report.address, wallet.address);
+    assert.equal(report.deposits.length, 1);
+    assert.equal(report.lpBalance, await (chain.pair as any).balanceOf(wallet.address));
+    assert.equal(report.pool.name, 'OKB/USDT');
+    assert.equal(report.depositedA, ethers.parseEther('0.1'));
+    assert.equal(report.depositedB, ethers.parseUnits('17', 6));
+
+    assert.ok(report.impermanentLoss! < 0, `无常损失应为负: ${report.impermanentLoss}`);
+    assert.ok(report.fees! > 0, `手续费收益应为正: ${report.fees}`);
+    assert.ok(Math.abs(report.pnl! - (report.impermanentLoss! + report.fees!)) < 1e-9);
+
+    const json = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+    assert.equal(json[0].address, wallet.address);
+    assert.equal(json[0].pool, 'OKB/USDT');
+    assert.equal(json[0].depositedB, '17.0');
+    const [header, row] = fs.readFileSync(csvPath, 'utf8').trim().split('\n');
+    assert.ok(header!.startsWith('index,label,address,pool,lp,'));
+    assert.ok(row!.includes(wallet.address));
+  });
+});
+
+describe('analyzePosition', () => {
+  // tokenA为18位精度的OKB，tokenB为6位精度的USDT
+  const pool = {
+    tokenA: { address: ethers.ZeroAddress, symbol: 'OKB', decimals: 18, native: true },
+    tokenB: { address: ethers.ZeroAddress, symbol: 'USDT', decimals: 6, native: false }
+  };
+  const deposit = { txHash: '0x', blockNumber: 1, liquidity: ethers.parseEther('1'), amountA: ethers.parseEther('1'), amountB: ethers.parseUnits('170', 6) };
+
+  it('价格不变且没有手续费时盈亏为0', () => {
+    const pnl = analyzePosition(pool, [deposit], ethers.parseEther('1'), deposit.amountA, deposit.amountB, 170);
+    assert.ok(Math.abs(pnl.impermanentLoss) < 1e-9);
+    assert.ok(Math.abs(pnl.fees) < 1e-9);
+    assert.equal(pnl.value, 340);
+  });
+
+  it('价格翻倍时无常损失约为持有价值的5.72%', () => {
+    // 恒定乘积: 价格变为4倍时无常损失为20%，2倍时为5.72%
+    const usdt = ethers.parseUnits((170 * Math.SQRT2).toFixed(6), 6);
+    const okb = ethers.parseEther((1 / Math.SQRT2).toFixed(18));
+    const pnl = analyzePosition(pool, [deposit], ethers.parseEther('1'), okb, usdt, 340);
+    assert.ok(Math.abs(pnl.impermanentLoss / pnl.holdValue + 0.0572) < 1e-3);
+    assert.ok(Math.abs(pnl.fees) < 1e-3);
+  });
+
+  it('已移除一半LP时只按剩余部分计算', () => {
+    const pnl = analyzePosition(pool, [deposit], ethers.parseEther('0.5'), deposit.amountA / 2n, deposit.amountB / 2n, 170);
+    assert.equal(pnl.holdValue, 170);
+    assert.ok(Math.abs(pnl.pnl) < 1e-9);
+  });
+});
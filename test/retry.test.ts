@@ -0,0 +1,73 @@
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('retry.ts', () => {
+  let retry: typeof import('../retry.js');
+
+  // 可重试的RPC错误 (节点繁忙)
+  const busy = () => ({ code: 'UNKNOWN_ERROR', error: { code: -32011, message: 'node busy' } });
+
+  before(async () => {
+    Object.assign(process.env, {
+      LOG_DIR: '',
+      RETRY_JITTER: '0',
+      CIRCUIT_BREAKER_THRESHOLD: '3',
+      CIRCUIT_BREAKER_COOLDOWN_MS: '200'
+    });
+    retry = await import('../retry.js');
+  });
+
+  afterEach(() => {
+    retry.resetCircuitBreakers();
+  });
+
+  it('等待时间指数增长，不超过上限，抖动在比例范围内', () => {
+    assert.deepEqual([1, 2, 3, 4, 5].map(attempt => retry.getBackoffDelay(attempt, 100, 1000, 0)), [100, 200, 400, 800, 1000]);
+    for (let i = 0; i < 50; i++) {
+      const delay = retry.getBackoffDelay(3, 100, 1000, 0.25);
+      assert.ok(delay >= 300 && delay <= 500, `抖动超出范围: ${delay}`);
+    }
+  });
+
+  it('服务端返回Retry-After时按其等待', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    assert.equal(retry.getRetryAfterMs({ response: { status: 429, headers: { 'retry-after': '7' } } }), 7000);
+    assert.equal(retry.getRetryAfterMs({ info: { response: { headers: { 'retry-after': 'Thu, 01 Jan 2026 00:00:03 GMT' } } } }, now), 3000);
+    assert.equal(retry.getRetryAfterMs({ response: { status: 502, headers: {} } }), null);
+    assert.equal(retry.getBackoffDelay(1, 100, 1000, 0, { response: { headers: { 'retry-after': '2' } } }), 2000);
+  });
+
+  it('超过最长总耗时后不再重试', async () => {
+    let attempts = 0;
+    await assert.rejects(retry.retryOperation(async () => {
+      attempts++;
+      throw busy();
+    }, { maxRetries: 10, delay: 40, maxDelay: 40, maxElapsed: 100, onRetry: () => undefined }));
+    assert.equal(attempts, 3);
+  });
+
+  it('连续失败后熔断，暂停同一端点的其他请求直到冷却结束', async () => {
+    await assert.rejects(retry.retryOperation(async () => {
+      throw busy();
+    }, { maxRetries: 3, delay: 1, onRetry: () => undefined }));
+    assert.equal(retry.getCircuitState().open, true);
+
+    // 其他端点不受影响
+    assert.equal(await retry.retryOperation(async () => 'api', { endpoint: 'potatoswap-api' }), 'api');
+
+    const startedAt = Date.now();
+    assert.equal(await retry.retryOperation(async () => 'ok'), 'ok');
+    assert.ok(Date.now() - startedAt >= 150, '熔断期间请求没有暂停');
+    assert.deepEqual(retry.getCircuitState(), { failures: 0, openUntil: retry.getCircuitState().openUntil, open: false });
+  });
+
+  it('交易本身的错误不计入熔断', async () => {
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(retry.retryOperation(async () => {
+        throw { code: 'CALL_EXCEPTION', reason: 'UniswapV2Router: EXPIRED' };
+      }));
+    }
+    assert.equal(retry.getCircuitState().failures, 0);
+    assert.equal(retry.getCircuitState().open, false);
+  });
+});
@@ -0,0 +1,63 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { chainEnv, startChain, type TestChain } from './helpers/chain.js';
+
+describe('revoke.ts (本地测试链)', () => {
+  let chain: TestChain;
+  let wallets: ethers.Wallet[];
+  let outDir: string;
+
+  before(async () => {
+    chain = await startChain();
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'revoke-'));
+    wallets = chain.accountKeys.slice(0, 2).map(key => new ethers.Wallet(key, chain.provider));
+
+    Object.assign(process.env, await chainEnv(chain), {
+      SUB_WALLET_PRIVATE_KEYS: wallets.map(wallet => wallet.privateKey).join(','),
+      WALLET_STORE_PATH: path.join(outDir, 'wallets.vault.json')
+    });
+
+    // 第一个钱包留下USDT无限授权和LP授权，第二个钱包没有授权
+    const routerAddress = await chain.router.getAddress();
+    await (await (chain.usdt as any).connect(wallets[0]).approve(routerAddress, ethers.MaxUint256)).wait();
+    await (await (chain.pair as any).connect(wallets[0]).approve(routerAddress, ethers.parseEther('1'))).wait();
+  });
+
+  after(async () => {
+    await chain.close();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('dry-run只报告有授权的钱包，不发送交易', async () => {
+    const { revokeMain } = await import('../revoke.js');
+    const { results, failureCount } = await revokeMain({ dryRun: true });
+
+    assert.equal(failureCount, 0);
+    assert.equal(results.length, 2);
+    assert.deepEqual(results[0]!.approvals.map(approval => [approval.symbol, approval.spenderName]), [
+      ['USDT', '路由器'],
+      ['OKB/USDT LP', '路由器']
+    ]);
+    assert.equal(results[0]!.approvals[0]!.allowance, ethers.MaxUint256);
+    assert.equal(results[1]!.approvals.length, 0);
+    assert.equal(await (chain.usdt as any).allowance(wallets[0]!.address, await chain.router.getAddress()), ethers.MaxUint256);
+  });
+
+  it('将路由器和交易对的授权重置为0', async () => {
+    const { revokeMain } = await import('../revoke.js');
+    const routerAddress = await chain.router.getAddress();
+    const { results, failureCount } = await revokeMain();
+
+    assert.equal(failureCount, 0);
+    assert.ok(results[0]!.approvals.every(approval => approval.txHash));
+    assert.equal(await (chain.usdt as any).allowance(wallets[0]!.address, routerAddress), 0n);
+    assert.equal(await (chain.pair as any).allowance(wallets[0]!.address, routerAddress), 0n);
+
+    const again = await revokeMain({ dryRun: true });
+    assert.ok(again.results.every(result => result.approvals.length === 0));
+  });
+});
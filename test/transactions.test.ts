@@ -0,0 +1,202 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import ganache from 'ganache';
+import { loadConfig } from '../config.js';
+import { classifyError } from '../errors.js';
+import { retryOperation } from '../retry.js';
+import { sendTransaction, TransactionManager } from '../transactions.js';
+
+function startServer() {
+  return ganache.server({ logging: { quiet: true }, chain: { chainId: 196, hardfork: 'shanghai' }, wallet: { deterministic: true, totalAccounts: 2 } });
+}
+
+describe('transactions.ts nonce管理和交易加速', () => {
+  let server: ReturnType<typeof startServer>;
+  let provider: ethers.JsonRpcProvider;
+  let wallet: ethers.Wallet;
+
+  before(async () => {
+    // 重试等待缩短，关闭熔断
+    Object.assign(process.env, { LOG_DIR: '', RETRY_BASE_DELAY_MS: '10', RETRY_JITTER: '0', CIRCUIT_BREAKER_THRESHOLD: '0' });
+    server = startServer();
+    await server.listen(0, '127.0.0.1');
+    const { port } = server.address() as { port: number };
+    provider = new ethers.JsonRpcProvider(`http://127.0.0.1:${port}`, 196, { staticNetwork: true });
+    const [key] = Object.values(server.provider.getInitialAccounts()).map(account => account.secretKey);
+    wallet = new ethers.Wallet(key!, provider);
+  });
+
+  after(async () => {
+    provider.destroy();
+    await server.close();
+  });
+
+  it('连续发送多笔交易时本地分配nonce，无需等待上一笔确认', async () => {
+    const manager = new TransactionManager(wallet, loadConfig({}).gas);
+    const startNonce = await provider.getTransactionCount(wallet.address, 'pending');
+    const to = ethers.Wallet.createRandom().address;
+
+    const sent = [];
+    for (let i = 0; i < 3; i++) {
+      sent.push(await manager.send({ to, value: ethers.parseEther('0.01') }));
+    }
+
+    assert.deepEqual(sent.map(item => item.nonce), [startNonce, startNonce + 1, startNonce + 2]);
+    const receipts = await Promise.all(sent.map(item => manager.wait(item)));
+    assert.ok(receipts.every(receipt => receipt.status === 1));
+    assert.equal(await provider.getBalance(to), ethers.parseEther('0.03'));
+  });
+
+  it('先签名后广播时某笔广播失败，下一次签名补上空出的nonce，不与已签名的交易冲突', async () => {
+    const manager = new TransactionManager(wallet, loadConfig({}).gas);
+    const startNonce = await provider.getTransactionCount(wallet.address, 'pending');
+    const to = ethers.Wallet.createRandom().address;
+
+    const signed = [];
+    for (let i = 0; i < 3; i++) {
+      signed.push(await manager.sign({ to, value: ethers.parseEther('0.01') }));
+    }
+    // 暂停出块，nonce有空洞的交易留在交易池中
+    await provider.send('miner_stop', []);
+    const broadcast = provider.broadcastTransaction.bind(provider);
+    let retried;
+    let next;
+    try {
+      provider.broadcastTransaction = async () => {
+        throw new Error('Request failed with status code 503');
+      };
+      try {
+        await assert.rejects(manager.broadcast(signed[0]!), /503/);
+      } finally {
+        provider.broadcastTransaction = broadcast;
+      }
+      await manager.broadcast(signed[1]!);
+      await manager.broadcast(signed[2]!);
+
+      retried = await manager.send({ to, value: ethers.parseEther('0.01') });
+      next = await manager.sign({ to, value: ethers.parseEther('0.01') });
+      await manager.broadcast(next);
+    } finally {
+      await provider.send('miner_start', []);
+    }
+    assert.deepEqual([retried.nonce, next.nonce], [startNonce, startNonce + 3]);
+
+    const receipts = await Promise.all([retried, signed[1]!, signed[2]!, next].map(item => manager.wait(item)));
+    assert.ok(receipts.every(receipt => receipt.status === 1));
+    assert.equal(await provider.getBalance(to, receipts.at(-1)!.blockNumber), ethers.parseEther('0.04'));
+    assert.equal(manager.pendingCount, 0);
+  });
+
+  it('交易长时间未确认时提高gas用同一nonce替换', async () => {
+    const gas = { ...loadConfig({}).gas, stuckTimeoutMs: 300, maxSpeedUps: 1 };
+    const manager = new TransactionManager(wallet, gas);
+    const to = ethers.Wallet.createRandom().address;
+
+    // 暂停出块，模拟交易卡在交易池
+    await provider.send('miner_stop', []);
+    const signed = await manager.send({ to, value: ethers.parseEther('0.01') });
+
+    const replacements: string[] = [];
+    const waiting = manager.wait(signed, { onReplace: replacement => { replacements.push(replacement.hash); } });
+    while (replacements.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    await provider.send('miner_start', []);
+
+    const receipt = await waiting;
+    assert.equal(receipt.hash, replacements[0]);
+    assert.notEqual(receipt.hash, signed.hash);
+    assert.equal(await provider.getBalance(to), ethers.parseEther('0.01'));
+  });
+
+  it('广播后查询回执出错时只重新查询，外层重试不会用新nonce再发一笔', async () => {
+    const to = ethers.Wallet.createRandom().address;
+    const getReceipt = provider.getTransactionReceipt.bind(provider);
+    const busy = () => Object.assign(new Error('node busy'), { code: 'UNKNOWN_ERROR', error: { code: -32011, message: 'node busy' } });
+
+    // 前两次查询失败：等待时重试查询即可确认
+    let failures = 2;
+    provider.getTransactionReceipt = async (hash: string) => {
+      if (failures-- > 0) {
+        throw busy();
+      }
+      return getReceipt(hash);
+    };
+    let sends = 0;
+    try {
+      const receipt = await retryOperation(async () => {
+        sends++;
+        const tx = await sendTransaction(wallet, { to, value: ethers.parseEther('0.01') });
+        return tx.wait();
+      });
+      assert.equal(receipt.status, 1);
+      assert.equal(sends, 1);
+
+      // 一直无法确认：抛出不可重试的错误，外层也不会重发
+      sends = 0;
+      provider.getTransactionReceipt = async () => {
+        throw busy();
+      };
+      await assert.rejects(retryOperation(async () => {
+        sends++;
+        const tx = await sendTransaction(wallet, { to, value: ethers.parseEther('0.01') });
+        return tx.wait();
+      }), (error: unknown) => classifyError(error).kind === 'unconfirmed' && !classifyError(error).retryable);
+      assert.equal(sends, 1);
+    } finally {
+      provider.getTransactionReceipt = getReceipt;
+    }
+    assert.equal(await provider.getBalance(to), ethers.parseEther('0.02'));
+  });
+
+  it('广播返回502但交易已被节点接收时不再重发，未接收时用同一nonce重新发送', async () => {
+    const to = ethers.Wallet.createRandom().address;
+    const broadcast = provider.broadcastTransaction.bind(provider);
+    const badGateway = () => Object.assign(new Error('Request failed with status code 502'), { response: { status: 502 } });
+
+    // 交易转发给节点后响应丢失
+    let forwarded = 0;
+    provider.broadcastTransaction = async (raw: string) => {
+      forwarded++;
+      await broadcast(raw);
+      throw badGateway();
+    };
+    let sends = 0;
+    try {
+      await assert.rejects(retryOperation(async () => {
+        sends++;
+        const tx = await sendTransaction(wallet, { to, value: ethers.parseEther('0.01') });
+        return tx.wait();
+      }), (error: unknown) => classifyError(error).kind === 'unconfirmed');
+      assert.equal(sends, 1);
+      assert.equal(forwarded, 1);
+      await provider.send('evm_mine', []);
+      assert.equal(await provider.getBalance(to), ethers.parseEther('0.01'));
+
+      // 节点没有收到交易：外层重试重新签名，nonce不变
+      sends = 0;
+      let rejected = 1;
+      const nonce = await provider.getTransactionCount(wallet.address, 'pending');
+      const nonces: number[] = [];
+      provider.broadcastTransaction = async (raw: string) => {
+        nonces.push(ethers.Transaction.from(raw).nonce);
+        if (rejected-- > 0) {
+          throw badGateway();
+        }
+        return broadcast(raw);
+      };
+      const receipt = await retryOperation(async () => {
+        sends++;
+        const tx = await sendTransaction(wallet, { to, value: ethers.parseEther('0.01') });
+        return tx.wait();
+      }, { onRetry: () => undefined });
+      assert.equal(receipt.status, 1);
+      assert.equal(sends, 2);
+      assert.deepEqual(nonces, [nonce, nonce]);
+      assert.equal(await provider.getBalance(to, receipt.blockNumber), ethers.parseEther('0.02'));
+    } finally {
+      provider.broadcastTransaction = broadcast;
+    }
+  });
+});
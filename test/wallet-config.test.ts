@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseWalletConfig } from '../wallet-config.js';
+
+describe('wallet-config.ts 配置文件校验', () => {
+  it('未设置的字段使用defaults，文件中没有的默认值使用全局配置', () => {
+    const file = parseWalletConfig({
+      defaults: { usdt: 5 },
+      wallets: [
+        { key: 'hd:0' },
+        { label: 'big', key: 'env:BIG_WALLET_KEY', usdt: 50, liquidityUsdt: 20, enabled: false }
+      ]
+    });
+
+    assert.equal(file.defaults.usdt, 5);
+    assert.equal(file.defaults.enabled, true);
+    assert.deepEqual(file.wallets[0], { ...file.defaults, label: 'wallet-1', key: 'hd:0' });
+    assert.equal(file.wallets[1]!.usdt, 50);
+    assert.equal(file.wallets[1]!.okb, file.defaults.okb);
+    assert.equal(file.wallets[1]!.enabled, false);
+  });
+
+  it('一次报告所有错误，并标明字段路径', () => {
+    assert.throws(
+      () => parseWalletConfig({
+        defaults: { okb: -1 },
+        wallets: [
+          { key: 'hd:1', usdtt: 3 },
+          { key: 'hd:1', enabled: 'yes' },
+          { label: '', key: '0x1234' }
+        ],
+        extra: true
+      }),
+      (error: Error) => {
+        for (const expected of [
+          'extra: 未知字段',
+          'defaults.okb: 必须是非负数',
+          'wallets[0].usdtt: 未知字段',
+          'wallets[1].key: 与 wallets[0].key 重复',
+          'wallets[1].enabled: 必须是true或false',
+          'wallets[2].label: 必须是非空字符串',
+          'wallets[2].key: 格式不正确'
+        ]) {
+          assert.ok(error.message.includes(expected), `缺少错误: ${expected}\n${error.message}`);
+        }
+        return true;
+      }
+    );
+  });
+
+  it('wallets必须是非空数组', () => {
+    assert.throws(() => parseWalletConfig({ wallets: [] }), /wallets: 至少需要配置一个钱包/);
+    assert.throws(() => parseWalletConfig({}), /wallets: 必须是数组/);
+  });
+});
@@ -0,0 +1,395 @@
+import { ethers } from 'ethers';
+import { getConfig, type GasConfig } from './config.js';
+import { BotError, classifyError, describeError, type ErrorKind } from './errors.js';
+import { log } from './logger.js';
+import { retryOperation } from './retry.js';
+
+// 查询交易回执的间隔 (毫秒)
+const RECEIPT_POLL_INTERVAL_MS = 1000;
+
+// 节点明确拒绝的广播错误：交易没有进入交易池，可以重新签名发送
+const REJECTED_KINDS = new Set<ErrorKind>(['nonce-too-low', 'underpriced', 'insufficient-balance']);
+
+// gas费用参数 (EIP-1559 或 legacy)
+export type GasFees =
+  | { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { type: 0; gasPrice: bigint };
+
+// 已签名的交易
+export interface SignedTx {
+  raw: string;
+  hash: string;
+  nonce: number;
+  fees: GasFees;
+  request: ethers.TransactionRequest;
+}
+
+// 等待确认时的回调
+export interface WaitHooks {
+  // 加速交易签名完成、广播之前调用 (用于先写日志再广播)
+  onReplace?: (replacement: SignedTx, original: SignedTx) => void | Promise<void>;
+}
+
+export interface SendOptions extends WaitHooks {
+  // 是否允许长时间未确认时提高gas重新发送 (默认允许)
+  speedUp?: boolean;
+  // 同一nonce此前已广播过的其他版本 (恢复任务时传入，任意版本上链都视为成功)
+  previous?: SignedTx[];
+}
+
+// 交易已有最终结果的失败: reverted(回执status不为1) / replaced(nonce已被其他交易使用)，该交易不会再上链
+// 其他错误 (RPC故障、超时) 抛出时交易仍可能上链
+export class TransactionFailedError extends Error {
+  readonly reason: 'reverted' | 'replaced';
+  readonly hash: string;
+
+  constructor(reason: 'reverted' | 'replaced', hash: string, message: string) {
+    super(message);
+    this.name = 'TransactionFailedError';
+    this.reason = reason;
+    this.hash = hash;
+  }
+}
+
+// 从已签名的原始交易还原 (用于恢复任务时继续等待或加速)
+export function signedFromRaw(raw: string): SignedTx {
+  const tx = ethers.Transaction.from(raw);
+  const fees: GasFees = tx.type === 2
+    ? { type: 2, maxFeePerGas: tx.maxFeePerGas!, maxPriorityFeePerGas: tx.maxPriorityFeePerGas! }
+    : { type: 0, gasPrice: tx.gasPrice! };
+  const request: ethers.TransactionRequest = {
+    to: tx.to,
+    data: tx.data,
+    value: tx.value,
+    gasLimit: tx.gasLimit,
+    chainId: tx.chainId,
+    nonce: tx.nonce
+  };
+  return { raw, hash: tx.hash!, nonce: tx.nonce, fees, request };
+}
+
+function gwei(value: number): bigint {
+  return ethers.parseUnits(value.toString(), 'gwei');
+}
+
+function capFee(value: bigint, capGwei: number, label: string): bigint {
+  if (capGwei > 0 && value > gwei(capGwei)) {
+    log.info(`⚠️  ${label} ${ethers.formatUnits(value, 'gwei')} gwei 超过上限，使用 ${capGwei} gwei`);
+    return gwei(capGwei);
+  }
+  return value;
+}
+
+// 按gas策略获取当前费用：auto模式下链支持EIP-1559时使用maxFee/priorityFee，否则 (如X Layer) 使用gasPrice
+export async function getGasFees(provider: ethers.Provider, gas: GasConfig = getConfig().gas): Promise<GasFees> {
+  const feeData = await provider.getFeeData();
+  const supportsEip1559 = feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null;
+
+  if (gas.mode === 'eip1559' && !supportsEip1559) {
+    throw new Error('GAS_MODE=eip1559，但当前链不支持EIP-1559');
+  }
+
+  if (gas.mode !== 'legacy' && supportsEip1559) {
+    const maxFeePerGas = capFee(feeData.maxFeePerGas!, gas.maxFeeGwei, 'maxFeePerGas');
+    let maxPriorityFeePerGas = capFee(feeData.maxPriorityFeePerGas!, gas.maxPriorityFeeGwei, 'maxPriorityFeePerGas');
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+    return { type: 2, maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  if (feeData.gasPrice === null) {
+    throw new Error('无法获取当前gasPrice');
+  }
+  return { type: 0, gasPrice: capFee(feeData.gasPrice, gas.maxFeeGwei, 'gasPrice') };
+}
+
+// 单笔交易按上限计算的最大gas费用
+export function maxGasCost(fees: GasFees, gasLimit: bigint): bigint {
+  return gasLimit * (fees.type === 2 ? fees.maxFeePerGas : fees.gasPrice);
+}
+
+function bump(value: bigint, percent: number): bigint {
+  return (value * BigInt(Math.round((100 + percent) * 100))) / BigInt(10000);
+}
+
+function maxOf(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+// 计算加速交易的费用：在原费用基础上提高speedUpPercent，且不低于当前网络费用，不超过上限
+async function bumpFees(provider: ethers.Provider, fees: GasFees, gas: GasConfig): Promise<GasFees | null> {
+  const current = await getGasFees(provider, gas);
+
+  if (fees.type === 2) {
+    const currentMax = current.type === 2 ? current.maxFeePerGas : current.gasPrice;
+    const currentPriority = current.type === 2 ? current.maxPriorityFeePerGas : BigInt(0);
+    const maxFeePerGas = capFee(maxOf(bump(fees.maxFeePerGas, gas.speedUpPercent), currentMax), gas.maxFeeGwei, 'maxFeePerGas');
+    let maxPriorityFeePerGas = capFee(maxOf(bump(fees.maxPriorityFeePerGas, gas.speedUpPercent), currentPriority), gas.maxPriorityFeeGwei, 'maxPriorityFeePerGas');
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+    // 受上限限制无法达到替换要求时放弃加速
+    if (maxFeePerGas < bump(fees.maxFeePerGas, 10) || maxPriorityFeePerGas < bump(fees.maxPriorityFeePerGas, 10)) {
+      return null;
+    }
+    return { type: 2, maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  const currentPrice = current.type === 2 ? current.maxFeePerGas : current.gasPrice;
+  const gasPrice = capFee(maxOf(bump(fees.gasPrice, gas.speedUpPercent), currentPrice), gas.maxFeeGwei, 'gasPrice');
+  if (gasPrice < bump(fees.gasPrice, 10)) {
+    return null;
+  }
+  return { type: 0, gasPrice };
+}
+
+// 单个签名者的交易管理：本地分配nonce以便连续发送多笔交易，长时间未确认时用相同nonce提高gas替换
+export class TransactionManager {
+  readonly signer: ethers.Wallet;
+  private readonly gas: GasConfig;
+  private nextNonce: number | undefined;
+  // 串行化nonce分配和签名
+  private lock: Promise<unknown> = Promise.resolve();
+  // 已广播、还没有等到确认结果的交易nonce
+  private readonly inFlight = new Set<number>();
+  // 已签名、还没有广播的交易nonce (流水线分发时先签名记录日志再广播)
+  private readonly unbroadcast = new Set<number>();
+  // 广播失败后空出的nonce，下次签名时优先使用，避免在已签名的更高nonce之前留下空洞
+  private readonly released = new Set<number>();
+
+  constructor(signer: ethers.Wallet, gas: GasConfig = getConfig().gas) {
+    if (!signer.provider) {
+      throw new Error('TransactionManager 需要连接了提供者的钱包');
+    }
+    this.signer = signer;
+    this.gas = gas;
+  }
+
+  private get provider(): ethers.Provider {
+    return this.signer.provider!;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(task);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  // 丢弃本地nonce，下次签名时重新从节点读取 (广播失败后调用，避免留下nonce空洞)
+  resync() {
+    this.nextNonce = undefined;
+    this.released.clear();
+  }
+
+  // 广播失败后处理空出的nonce: 没有其他已签名未广播的交易、也没有更高nonce的交易在等待确认时从节点重新读取，
+  // 否则重新读取会与这些交易的nonce冲突，改为把该nonce留给下一次签名；nonce过低说明本地nonce已落后，总是重新读取
+  private releaseNonce(nonce: number, error: unknown) {
+    const higherInFlight = [...this.inFlight].some(other => other > nonce);
+    if (classifyError(error).kind === 'nonce-too-low' || (this.unbroadcast.size === 0 && !higherInFlight)) {
+      this.resync();
+    } else {
+      this.released.add(nonce);
+    }
+  }
+
+  private async signWith(tx: ethers.TransactionRequest, nonce: number, fees: GasFees): Promise<SignedTx> {
+    const feeFields = fees.type === 2
+      ? { type: 2, maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas, gasPrice: null }
+      : { type: 0, gasPrice: fees.gasPrice, maxFeePerGas: null, maxPriorityFeePerGas: null };
+    const request = await this.signer.populateTransaction({ ...tx, ...feeFields, nonce });
+    const raw = await this.signer.signTransaction(request);
+    return { raw, hash: ethers.Transaction.from(raw).hash!, nonce, fees, request };
+  }
+
+  // 分配nonce并签名，交易中已指定的gas费用会被保留
+  sign(tx: ethers.TransactionRequest): Promise<SignedTx> {
+    return this.exclusive(async () => {
+      if (this.nextNonce === undefined) {
+        this.nextNonce = await this.provider.getTransactionCount(this.signer.address, 'pending');
+      }
+
+      let fees: GasFees;
+      if (tx.maxFeePerGas != null) {
+        fees = { type: 2, maxFeePerGas: ethers.getBigInt(tx.maxFeePerGas), maxPriorityFeePerGas: ethers.getBigInt(tx.maxPriorityFeePerGas ?? 0) };
+      } else if (tx.gasPrice != null) {
+        fees = { type: 0, gasPrice: ethers.getBigInt(tx.gasPrice) };
+      } else {
+        fees = await getGasFees(this.provider, this.gas);
+      }
+
+      // 优先补上广播失败空出的nonce
+      const reused = this.released.size > 0 ? Math.min(...this.released) : undefined;
+      const signed = await this.signWith(tx, reused ?? this.nextNonce, fees);
+      if (reused !== undefined) {
+        this.released.delete(reused);
+      } else {
+        this.nextNonce++;
+      }
+      this.unbroadcast.add(signed.nonce);
+      return signed;
+    });
+  }
+
+  async broadcast(signed: SignedTx) {
+    this.unbroadcast.delete(signed.nonce);
+    try {
+      await this.provider.broadcastTransaction(signed.raw);
+    } catch (error) {
+      this.releaseNonce(signed.nonce, error);
+      throw error;
+    }
+    this.inFlight.add(signed.nonce);
+  }
+
+  // 本进程广播后还没有等到确认结果的交易数量
+  get pendingCount(): number {
+    return this.inFlight.size;
+  }
+
+  // 签名并广播，不等待确认
+  async send(tx: ethers.TransactionRequest): Promise<SignedTx> {
+    const signed = await this.sign(tx);
+    await this.broadcast(signed);
+    return signed;
+  }
+
+  // 查询交易任意一个版本的回执
+  private async findReceipt(attempts: SignedTx[]): Promise<ethers.TransactionReceipt | null> {
+    for (const attempt of attempts) {
+      const receipt = await this.provider.getTransactionReceipt(attempt.hash);
+      if (receipt) {
+        if (receipt.status !== 1) {
+          throw new TransactionFailedError('reverted', attempt.hash, `交易 ${attempt.hash} 执行失败`);
+        }
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  // 等待交易确认；超过stuckTimeoutMs未确认时提高gas重新签名同一nonce，任意一个版本上链即返回其回执
+  async wait(signed: SignedTx, options: SendOptions = {}): Promise<ethers.TransactionReceipt> {
+    try {
+      return await this.waitForReceipt(signed, options);
+    } finally {
+      this.inFlight.delete(signed.nonce);
+    }
+  }
+
+  private async waitForReceipt(signed: SignedTx, options: SendOptions): Promise<ethers.TransactionReceipt> {
+    const attempts = [...(options.previous ?? []), signed];
+    let latest = signed;
+    let lastBroadcastAt = Date.now();
+    let speedUps = 0;
+    const maxSpeedUps = options.speedUp === false ? 0 : this.gas.maxSpeedUps;
+
+    while (true) {
+      const receipt = await this.findReceipt(attempts);
+      if (receipt) {
+        return receipt;
+      }
+
+      // nonce已被使用但不是本交易的任何版本：交易已被其他交易替换
+      const minedNonce = await this.provider.getTransactionCount(this.signer.address, 'latest');
+      if (minedNonce > signed.nonce) {
+        // 回执可能刚好在两次查询之间产生，再确认一次
+        const late = await this.findReceipt(attempts);
+        if (late) {
+          return late;
+        }
+        throw new TransactionFailedError('replaced', signed.hash, `交易 ${signed.hash} 的nonce ${signed.nonce} 已被其他交易使用`);
+      }
+
+      if (Date.now() - lastBroadcastAt >= this.gas.stuckTimeoutMs && speedUps < maxSpeedUps) {
+        const fees = await bumpFees(this.provider, latest.fees, this.gas);
+        if (fees) {
+          const replacement = await this.signWith(latest.request, signed.nonce, fees);
+          await options.onReplace?.(replacement, latest);
+          log.info(`⏫ 交易 ${latest.hash} 超过 ${this.gas.stuckTimeoutMs / 1000} 秒未确认，提高gas重新发送: ${replacement.hash}`);
+          try {
+            await this.provider.broadcastTransaction(replacement.raw);
+          } catch (error) {
+            // 原交易可能恰好已上链，继续查询回执
+            log.info(`  加速交易广播失败: ${(error as Error).message}`);
+          }
+          attempts.push(replacement);
+          latest = replacement;
+          speedUps++;
+        } else {
+          log.info(`⚠️  交易 ${latest.hash} 未确认，但gas已达上限，无法加速`);
+        }
+        lastBroadcastAt = Date.now();
+      }
+
+      await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+    }
+  }
+}
+
+const managers = new Map<string, TransactionManager>();
+
+// 每个签名者共用一个交易管理器，保证并发发送时nonce不冲突
+export function getTransactionManager(signer: ethers.Wallet): TransactionManager {
+  const key = signer.address.toLowerCase();
+  let manager = managers.get(key);
+  if (!manager || manager.signer.provider !== signer.provider) {
+    manager = new TransactionManager(signer);
+    managers.set(key, manager);
+  }
+  return manager;
+}
+
+// 等待已广播的交易确认：RPC错误时只重新查询同一nonce的各个版本，不会重新发送
+// 最终仍无法确认时抛出不可重试的错误，避免外层的retryOperation用新nonce再发一笔
+async function waitBroadcast(manager: TransactionManager, signed: SignedTx, options: SendOptions): Promise<ethers.TransactionReceipt> {
+  // 加速替换的版本在重新等待时一并查询
+  let latest = signed;
+  const previous = [...(options.previous ?? [])];
+  try {
+    return await retryOperation(() => manager.wait(latest, {
+      ...options,
+      previous,
+      onReplace: async (replacement, original) => {
+        previous.push(latest);
+        latest = replacement;
+        await options.onReplace?.(replacement, original);
+      }
+    }));
+  } catch (error) {
+    if (error instanceof TransactionFailedError) {
+      throw error;
+    }
+    throw new BotError('unconfirmed', `交易 ${latest.hash} 已广播但无法确认结果，请在区块浏览器核对后再重试: ${describeError(error)}`, { cause: error, txHash: latest.hash });
+  }
+}
+
+// 广播出错后判断交易是否可能已被节点接收：交易池中能查到该交易，或其nonce已被使用；查询失败时按已接收处理
+// 都不满足时重新签名会拿到同一个nonce，即使原交易之后出现，两笔也最多上链一笔
+async function mayHaveBroadcast(signer: ethers.Wallet, signed: SignedTx): Promise<boolean> {
+  try {
+    const [known, pendingNonce] = await Promise.all([
+      signer.provider!.getTransaction(signed.hash),
+      signer.provider!.getTransactionCount(signer.address, 'pending')
+    ]);
+    return known !== null || pendingNonce > signed.nonce;
+  } catch {
+    return true;
+  }
+}
+
+// 发送交易并等待确认 (替代 contract.method() + tx.wait())
+export async function sendTransaction(signer: ethers.Wallet, tx: ethers.TransactionRequest, options: SendOptions = {}) {
+  const manager = getTransactionManager(signer);
+  const signed = await manager.sign(tx);
+  try {
+    await manager.broadcast(signed);
+  } catch (error) {
+    // 超时、网络错误、限流时节点可能已接收交易只是响应丢失，此时不能重发
+    if (!REJECTED_KINDS.has(classifyError(error).kind) && await mayHaveBroadcast(signer, signed)) {
+      throw new BotError('unconfirmed', `交易 ${signed.hash} 广播出错，但可能已被节点接收，请在区块浏览器核对后再重试: ${describeError(error)}`, { cause: error, txHash: signed.hash });
+    }
+    throw error;
+  }
+  return { hash: signed.hash, signed, wait: () => waitBroadcast(manager, signed, options) };
+}
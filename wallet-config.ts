@@ -0,0 +1,253 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './config.js';
+import { log, registerSecret } from './logger.js';
+import { deriveSubWallets, getMnemonic, loadSubWallets, loadWalletStore, type SubWallet } from './wallet-store.js';
+
+// 钱包配置文件 (JSON)：每个子钱包单独设置分发目标和流动性数量，未设置的字段使用defaults
+//
+// {
+//   "defaults": { "okb": 0.08, "usdt": 8, "liquidityUsdt": 3, "enabled": true },
+//   "wallets": [
+//     { "label": "a1", "key": "hd:0", "usdt": 20, "liquidityUsdt": 10 },
+//     { "label": "a2", "key": "vault:0x...", "enabled": false },
+//     { "label": "a3", "key": "env:WALLET_A3_KEY" }
+//   ]
+// }
+//
+// key只保存私钥的引用，不保存私钥本身:
+//   hd:<索引>        从SUB_WALLET_MNEMONIC按 HD_DERIVATION_PATH/<索引> 派生
+//   vault:<地址>     从加密钱包库中按地址加载
+//   env:<变量名>     从环境变量读取私钥
+
+export interface WalletDefaults {
+  // 分发时转入/添加流动性前需要的OKB数量
+  okb: number;
+  // 分发时转入/添加流动性前需要的USDT数量
+  usdt: number;
+  // 每次添加流动性投入的tokenB数量 (默认交易对OKB/USDT中即USDT)
+  liquidityUsdt: number;
+  // 是否参与分发和流动性操作
+  enabled: boolean;
+}
+
+export interface WalletConfigEntry extends WalletDefaults {
+  label: string;
+  key: string;
+}
+
+export interface WalletConfigFile {
+  defaults: WalletDefaults;
+  wallets: WalletConfigEntry[];
+}
+
+// 加载后的子钱包及其单独配置
+export interface ConfiguredWallet extends SubWallet {
+  label: string;
+  okb: number;
+  usdt: number;
+  liquidityUsdt: number;
+}
+
+const KEY_PATTERN = /^(hd:\d+|vault:0x[0-9a-fA-F]{40}|env:[A-Za-z_][A-Za-z0-9_]*)$/;
+const AMOUNT_FIELDS = ['okb', 'usdt', 'liquidityUsdt'] as const;
+const DEFAULT_FIELDS = [...AMOUNT_FIELDS, 'enabled'];
+const WALLET_FIELDS = ['label', 'key', ...DEFAULT_FIELDS];
+
+// 钱包配置文件路径 (默认 ./wallets.config.json)
+export function getWalletConfigPath(): string {
+  return path.resolve(getConfig().walletConfigPath);
+}
+
+export function walletConfigExists(): boolean {
+  return fs.existsSync(getWalletConfigPath());
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 校验一组默认值字段，errors中记录带字段路径的错误
+function checkFields(value: Record<string, unknown>, fieldPath: string, allowed: string[], errors: string[]) {
+  for (const field of Object.keys(value)) {
+    if (!allowed.includes(field)) {
+      errors.push(`${fieldPath}.${field}: 未知字段`);
+    }
+  }
+  for (const field of AMOUNT_FIELDS) {
+    const amount = value[field];
+    if (amount !== undefined && (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0)) {
+      errors.push(`${fieldPath}.${field}: 必须是非负数，当前值: ${JSON.stringify(amount)}`);
+    }
+  }
+  if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+    errors.push(`${fieldPath}.enabled: 必须是true或false，当前值: ${JSON.stringify(value.enabled)}`);
+  }
+}
+
+// 校验配置文件内容并补全默认值 (文件中没有defaults时使用环境变量中的全局数量)
+export function parseWalletConfig(data: unknown, source: string = 'wallets.config.json'): WalletConfigFile {
+  const config = getConfig();
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    throw new Error(`钱包配置文件 ${source} 校验失败:\n  (根): 必须是JSON对象`);
+  }
+
+  for (const field of Object.keys(data)) {
+    if (field !== 'defaults' && field !== 'wallets') {
+      errors.push(`${field}: 未知字段`);
+    }
+  }
+
+  let fileDefaults: Record<string, unknown> = {};
+  if (data.defaults !== undefined) {
+    if (isObject(data.defaults)) {
+      fileDefaults = data.defaults;
+      checkFields(fileDefaults, 'defaults', DEFAULT_FIELDS, errors);
+    } else {
+      errors.push('defaults: 必须是对象');
+    }
+  }
+
+  const rawWallets = Array.isArray(data.wallets) ? data.wallets : [];
+  if (!Array.isArray(data.wallets)) {
+    errors.push('wallets: 必须是数组');
+  } else if (data.wallets.length === 0) {
+    errors.push('wallets: 至少需要配置一个钱包');
+  }
+
+  const seenKeys = new Map<string, number>();
+  rawWallets.forEach((wallet, i) => {
+    const fieldPath = `wallets[${i}]`;
+    if (!isObject(wallet)) {
+      errors.push(`${fieldPath}: 必须是对象`);
+      return;
+    }
+    checkFields(wallet, fieldPath, WALLET_FIELDS, errors);
+
+    if (wallet.label !== undefined && (typeof wallet.label !== 'string' || wallet.label.trim() === '')) {
+      errors.push(`${fieldPath}.label: 必须是非空字符串`);
+    }
+    if (typeof wallet.key !== 'string') {
+      errors.push(`${fieldPath}.key: 缺少私钥引用 (hd:<索引> | vault:<地址> | env:<变量名>)`);
+    } else if (!KEY_PATTERN.test(wallet.key)) {
+      errors.push(`${fieldPath}.key: 格式不正确，应为 hd:<索引>、vault:<地址> 或 env:<变量名>，当前值: ${wallet.key}`);
+    } else {
+      const normalized = wallet.key.toLowerCase();
+      const previous = seenKeys.get(normalized);
+      if (previous !== undefined) {
+        errors.push(`${fieldPath}.key: 与 wallets[${previous}].key 重复`);
+      }
+      seenKeys.set(normalized, i);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`钱包配置文件 ${source} 校验失败:\n${errors.map(error => `  ${error}`).join('\n')}`);
+  }
+
+  const defaults: WalletDefaults = {
+    okb: config.okbPerWallet,
+    usdt: config.usdtPerWallet,
+    liquidityUsdt: config.usdtAmountPerLiquidity,
+    enabled: true,
+    ...fileDefaults
+  };
+
+  return {
+    defaults,
+    wallets: rawWallets.map((wallet, i) => ({
+      ...defaults,
+      label: `wallet-${i + 1}`,
+      ...(wallet as Record<string, unknown>)
+    }) as WalletConfigEntry)
+  };
+}
+
+// 读取并校验钱包配置文件
+export function loadWalletConfig(filePath: string = getWalletConfigPath()): WalletConfigFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`无法读取钱包配置文件 ${filePath}: ${(error as Error).message}`);
+  }
+  return parseWalletConfig(data, filePath);
+}
+
+// 按引用加载私钥 (钱包库只在第一次用到时解密)
+async function resolveWalletKey(entry: WalletConfigEntry, fieldPath: string, vault: { wallets?: ethers.Wallet[] }, provider?: ethers.Provider): Promise<ethers.Wallet> {
+  const separator = entry.key.indexOf(':');
+  const kind = entry.key.slice(0, separator);
+  const ref = entry.key.slice(separator + 1);
+
+  if (kind === 'hd') {
+    const mnemonic = getMnemonic();
+    if (!mnemonic) {
+      throw new Error(`${fieldPath}.key: 使用hd:引用需要在.env文件中设置SUB_WALLET_MNEMONIC`);
+    }
+    return deriveSubWallets(mnemonic, parseInt(ref), 1, provider)[0]!;
+  }
+
+  if (kind === 'vault') {
+    vault.wallets ??= await loadWalletStore(provider);
+    const wallet = vault.wallets.find(item => item.address.toLowerCase() === ref.toLowerCase());
+    if (!wallet) {
+      throw new Error(`${fieldPath}.key: 钱包库中没有地址 ${ref}`);
+    }
+    return wallet;
+  }
+
+  const privateKey = (process.env[ref] || '').trim();
+  if (!privateKey.match(/^0x[0-9a-fA-F]{64}$/)) {
+    throw new Error(`${fieldPath}.key: 环境变量 ${ref} 未设置或不是有效的私钥`);
+  }
+  return new ethers.Wallet(privateKey, provider);
+}
+
+// 加载启用的子钱包及其单独配置；没有配置文件时使用原有的钱包来源和.env中的全局数量
+export async function openConfiguredWallets(provider?: ethers.Provider): Promise<ConfiguredWallet[]> {
+  if (!walletConfigExists()) {
+    const config = getConfig();
+    const subWallets = await loadSubWallets(provider);
+    return subWallets.map((wallet, i) => ({
+      ...wallet,
+      label: `wallet-${i + 1}`,
+      okb: config.okbPerWallet,
+      usdt: config.usdtPerWallet,
+      liquidityUsdt: config.usdtAmountPerLiquidity
+    }));
+  }
+
+  const file = loadWalletConfig();
+  const vault: { wallets?: ethers.Wallet[] } = {};
+  const wallets: ConfiguredWallet[] = [];
+
+  for (let i = 0; i < file.wallets.length; i++) {
+    const entry = file.wallets[i]!;
+    if (!entry.enabled) {
+      log.info(`跳过已停用的钱包 ${entry.label}`);
+      continue;
+    }
+
+    const wallet = await resolveWalletKey(entry, `wallets[${i}]`, vault, provider);
+    registerSecret(wallet.privateKey);
+    log.info(`加载子钱包 ${wallets.length + 1} (${entry.label}): ${wallet.address}`);
+    wallets.push({
+      privateKey: wallet.privateKey,
+      address: wallet.address,
+      wallet,
+      label: entry.label,
+      okb: entry.okb,
+      usdt: entry.usdt,
+      liquidityUsdt: entry.liquidityUsdt
+    });
+  }
+
+  if (wallets.length === 0) {
+    throw new Error(`钱包配置文件 ${getWalletConfigPath()} 中没有启用的钱包`);
+  }
+  return wallets;
+}
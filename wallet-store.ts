@@ -0,0 +1,198 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './config.js';
+import { log, registerSecret } from './logger.js';
+
+// 加密钱包库文件格式：每个钱包保存一份ethers标准的加密keystore JSON
+interface VaultEntry {
+  address: string;
+  keystore: string;
+}
+
+interface VaultFile {
+  version: 1;
+  wallets: VaultEntry[];
+}
+
+// 钱包库文件路径 (默认 ./wallets.vault.json)
+export function getWalletStorePath(): string {
+  return path.resolve(getConfig().walletStorePath);
+}
+
+// 钱包库是否已存在
+export function walletStoreExists(): boolean {
+  return fs.existsSync(getWalletStorePath());
+}
+
+// 读取钱包库密码
+function getPassword(): string {
+  const password = getConfig().walletStorePassword;
+  if (!password) {
+    throw new Error('请在.env文件中设置WALLET_STORE_PASSWORD，用于加解密钱包库');
+  }
+  return password;
+}
+
+function readVault(): VaultFile {
+  const storePath = getWalletStorePath();
+  if (!fs.existsSync(storePath)) {
+    return { version: 1, wallets: [] };
+  }
+
+  const vault = JSON.parse(fs.readFileSync(storePath, 'utf8')) as VaultFile;
+  if (vault.version !== 1 || !Array.isArray(vault.wallets)) {
+    throw new Error(`钱包库文件格式不正确: ${storePath}`);
+  }
+  return vault;
+}
+
+// 先写临时文件再重命名，避免写到一半崩溃导致钱包库损坏
+function writeVault(vault: VaultFile) {
+  const storePath = getWalletStorePath();
+  const tmpPath = `${storePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(vault, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpPath, storePath);
+}
+
+// 加密并追加钱包到钱包库，已存在的地址会被跳过
+export async function saveToWalletStore(privateKeys: string[]): Promise<number> {
+  const password = getPassword();
+  const vault = readVault();
+  const known = new Set(vault.wallets.map(entry => entry.address.toLowerCase()));
+
+  let added = 0;
+  for (const privateKey of privateKeys) {
+    const wallet = new ethers.Wallet(privateKey);
+    if (known.has(wallet.address.toLowerCase())) {
+      continue;
+    }
+
+    const keystore = await wallet.encrypt(password);
+    vault.wallets.push({ address: wallet.address, keystore });
+    known.add(wallet.address.toLowerCase());
+    added++;
+
+    // 每个钱包加密后立即落盘，中途失败也不会丢失已生成的钱包
+    writeVault(vault);
+  }
+
+  return added;
+}
+
+// 解密钱包库中的所有钱包
+export async function loadWalletStore(provider?: ethers.Provider): Promise<ethers.Wallet[]> {
+  const password = getPassword();
+  const vault = readVault();
+  const wallets: ethers.Wallet[] = [];
+
+  for (const entry of vault.wallets) {
+    const decrypted = await ethers.Wallet.fromEncryptedJson(entry.keystore, password);
+    if (decrypted.address.toLowerCase() !== entry.address.toLowerCase()) {
+      throw new Error(`钱包库条目地址不匹配: ${entry.address}`);
+    }
+    wallets.push(new ethers.Wallet(decrypted.privateKey, provider));
+  }
+
+  return wallets;
+}
+
+// HD钱包助记词 (BIP-39)，设置后子钱包按派生路径确定性生成
+export function getMnemonic(): string | null {
+  const phrase = getConfig().subWalletMnemonic;
+  if (!phrase) {
+    return null;
+  }
+  if (!ethers.Mnemonic.isValidMnemonic(phrase)) {
+    throw new Error('SUB_WALLET_MNEMONIC 不是有效的BIP-39助记词');
+  }
+  return phrase;
+}
+
+// HD派生路径前缀，子钱包i的完整路径为 `${前缀}/${i}`
+export function getDerivationPath(): string {
+  return getConfig().hdDerivationPath;
+}
+
+// HD子钱包索引范围: 从HD_WALLET_START_INDEX开始，共NUMBER_OF_WALLETS个
+export function getHdIndexRange(): { start: number; count: number } {
+  const config = getConfig();
+  const start = config.hdWalletStartIndex;
+  const count = config.numberOfWallets;
+  if (!Number.isInteger(start) || start < 0) {
+    throw new Error(`HD_WALLET_START_INDEX 必须是非负整数，当前值: ${start}`);
+  }
+  return { start, count };
+}
+
+// 从助记词按索引派生子钱包
+export function deriveSubWallets(mnemonic: string, start: number, count: number, provider?: ethers.Provider): ethers.Wallet[] {
+  const basePath = getDerivationPath();
+  const wallets: ethers.Wallet[] = [];
+
+  for (let index = start; index < start + count; index++) {
+    const node = ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, `${basePath}/${index}`);
+    wallets.push(new ethers.Wallet(node.privateKey, provider));
+  }
+
+  return wallets;
+}
+
+// 当前子钱包来源: 助记词 > 加密钱包库 > 旧版明文私钥
+export function getSubWalletSource(): 'mnemonic' | 'vault' | 'legacy' {
+  if (getMnemonic()) {
+    return 'mnemonic';
+  }
+  return walletStoreExists() ? 'vault' : 'legacy';
+}
+
+// 旧版配置：从SUB_WALLET_PRIVATE_KEYS读取明文私钥
+export function getLegacyPrivateKeys(): string[] {
+  return getConfig().subWalletPrivateKeys;
+}
+
+// 加载子钱包：优先从助记词派生，其次使用加密钱包库，最后回退到SUB_WALLET_PRIVATE_KEYS
+export async function openSubWallets(provider?: ethers.Provider): Promise<ethers.Wallet[]> {
+  const wallets = await openSubWalletSource(provider);
+  // 私钥不应出现在日志中
+  wallets.forEach(wallet => registerSecret(wallet.privateKey));
+  return wallets;
+}
+
+async function openSubWalletSource(provider?: ethers.Provider): Promise<ethers.Wallet[]> {
+  const source = getSubWalletSource();
+
+  if (source === 'mnemonic') {
+    const { start, count } = getHdIndexRange();
+    return deriveSubWallets(getMnemonic()!, start, count, provider);
+  }
+
+  if (source === 'vault') {
+    return loadWalletStore(provider);
+  }
+
+  const privateKeys = getLegacyPrivateKeys();
+  if (privateKeys.length === 0) {
+    throw new Error(`未找到钱包库 ${getWalletStorePath()}，也未设置SUB_WALLET_PRIVATE_KEYS`);
+  }
+
+  log.warn('⚠️  正在使用SUB_WALLET_PRIVATE_KEYS中的明文私钥，建议运行 npm run wallets:import 迁移到加密钱包库');
+  return privateKeys.map(privateKey => new ethers.Wallet(privateKey, provider));
+}
+
+// 子钱包信息 (各子命令共用)
+export interface SubWallet {
+  privateKey: string;
+  address: string;
+  wallet: ethers.Wallet;
+}
+
+// 加载子钱包并输出地址
+export async function loadSubWallets(provider?: ethers.Provider): Promise<SubWallet[]> {
+  const signers = await openSubWallets(provider);
+
+  return signers.map((wallet, i) => {
+    log.info(`加载子钱包 ${i + 1}: ${wallet.address}`);
+    return { privateKey: wallet.privateKey, address: wallet.address, wallet };
+  });
+}